@@ -0,0 +1,513 @@
+// Функция целиком против настоящего Postgres в памяти (PGlite за unix-сокетом):
+// пул подменяем через setPool, сеть и DATABASE_URL не нужны
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import { Pool } from 'pg';
+import { Rollback, connect, setPool, tx } from '../lib/db';
+import type { Db } from '../lib/db';
+import * as repo from '../lib/repo';
+
+type Api = typeof import('./api');
+// от чьего имени запрос: токен сессии и/или ссылка из X-Share; по умолчанию — владелец default
+type As = { token?: string; share?: string };
+
+const dir = mkdtempSync(join(tmpdir(), 'sb-pg-'));
+let pg: PGlite;
+let server: PGLiteSocketServer;
+let pool: Pool;
+let api: Api;
+let owner = '';
+
+async function call(op: string, body?: unknown, query: Record<string, string> = {}, as: As = { token: owner }) {
+  const qs = new URLSearchParams({ op, ...query });
+  const headers: Record<string, string> = {};
+  if (as.token) headers.authorization = `Bearer ${as.token}`;
+  if (as.share) headers['x-share'] = as.share;
+  const res = await api.handler({
+    rawUrl: `http://localhost/.netlify/functions/api?${qs}`,
+    httpMethod: body === undefined ? 'GET' : 'POST',
+    headers,
+    body: body === undefined ? null : JSON.stringify(body),
+  } as any, {} as any);
+  if (!res) throw new Error('empty response');
+  return { status: res.statusCode, json: JSON.parse(res.body || '{}') };
+}
+
+async function signup(email: string, name: string) {
+  const r = await call('auth', { action: 'signup', email, password: 'password1', name }, {}, {});
+  expect(r.status).toBe(200);
+  return r.json.token as string;
+}
+
+// участник default с ролью (outsider — зарегистрирован, но без роли); один пользователь на роль
+const members: Record<string, Promise<string>> = {};
+function member(role: 'viewer' | 'commenter' | 'editor' | 'outsider') {
+  return members[role] ??= (async () => {
+    const token = await signup(`${role}@example.com`, role);
+    if (role !== 'outsider') expect((await call('members', { action: 'set', email: `${role}@example.com`, role })).status).toBe(200);
+    return token;
+  })();
+}
+
+// новая доска в default; каждый тест — на своей, чтобы ревизии и айтемы не пересекались
+let boards = 0;
+async function newBoard(type: 'mood' | 'style' = 'style') {
+  const id = `b${++boards}`;
+  const r = await call('boards', { action: 'create', id, name: id, type });
+  expect(r.status).toBe(200);
+  return id;
+}
+
+async function rev(board: string) {
+  return (await call('list', undefined, { board })).json.rev as number;
+}
+
+const item = (id: string, gx: number, extra: object = {}) =>
+  ({ id, kind: 'image', url: `https://example.com/${id}.jpg`, gx, gy: 0, gw: 4, gh: 3, status: 'proposed', ...extra });
+
+beforeAll(async () => {
+  pg = await PGlite.create();
+  // PGlite — одна сессия: соединение тоже одно, иначе транзакции запросов перемешаются
+  server = new PGLiteSocketServer({ db: pg, path: join(dir, '.s.PGSQL.5432') });
+  await server.start();
+  pool = new Pool({ host: dir, port: 5432, user: 'postgres', database: 'postgres', max: 1 });
+  setPool(pool);
+  process.env.SESSION_SECRET = 'test-secret';
+  api = await import('./api');
+  // первый зарегистрированный — владелец default
+  owner = await signup('owner@example.com', 'Owner');
+});
+
+afterAll(async () => {
+  setPool(null);
+  await pool?.end();
+  await server?.stop();
+  await pg?.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('data layer', () => {
+  const count = (db: Db) =>
+    db.query(`SELECT count(*)::int AS n FROM sb_items WHERE id LIKE 'tx-%'`).then(q => q.rows[0].n as number);
+  const insert = (db: Db, id: string) =>
+    db.query(`INSERT INTO sb_items (id, board, url, kind, gx, gy, gw, gh, pos) VALUES ($1, 'styleboard', 'https://example.com/t.jpg', 'image', 0, 90, 1, 1, 0)`, [id]);
+
+  it('commits, rolls back with a result on Rollback and rethrows other errors', async () => {
+    await connect(async db => {
+      expect(await tx(db, async () => { await insert(db, 'tx-1'); return 'done'; })).toBe('done');
+      expect(await tx(db, async () => { await insert(db, 'tx-2'); throw new Rollback(409); })).toBe(409);
+      await expect(tx(db, async () => { await insert(db, 'tx-3'); throw new Error('boom'); })).rejects.toThrow('boom');
+      expect(await count(db)).toBe(1);
+    });
+    // соединение вернулось в пул и после ошибки (в пуле оно одно)
+    await expect(connect(async () => { throw new Error('inside'); })).rejects.toThrow('inside');
+    await connect(async db => {
+      expect(await count(db)).toBe(1);
+      await db.query(`DELETE FROM sb_items WHERE id LIKE 'tx-%'`);
+    });
+  });
+
+  it('maps snake_case columns to the client shape', async () => {
+    const board = await newBoard();
+    await call('save', { board, items: [item('mapped', 0, { natW: 1600, natH: 900, natR: 16 / 9, locked: true })], baseRev: await rev(board) });
+    const [it] = await connect(db => repo.loadItems(db, board, 'default'));
+    expect(it).toMatchObject({ id: 'mapped', board, natW: 1600, natH: 900, natR: 16 / 9, locked: true, statusBy: null });
+    expect(it).not.toHaveProperty('natw');
+  });
+});
+
+describe('board sync against a local Postgres', () => {
+  it('saves, patches, polls and restores a board', async () => {
+    const board = 'moodboard';
+    const start = await call('list', undefined, { board });
+    expect(start.status).toBe(200);
+    expect(start.json.items).toEqual([]);
+
+    // save: новая ревизия, айтемы в порядке массива
+    const saved = await call('save', { board, items: [item('a', 0), item('b', 10)], baseRev: start.json.rev });
+    expect(saved.status).toBe(200);
+    expect(saved.json.rev).toBe(start.json.rev + 1);
+
+    // устаревшая ревизия — конфликт, доска не меняется
+    const stale = await call('save', { board, items: [], baseRev: start.json.rev });
+    expect(stale.status).toBe(409);
+    expect(stale.json.rev).toBe(saved.json.rev);
+
+    // patch: сдвиг, удаление и новый айтем одной транзакцией
+    const patched = await call('patch', {
+      board, baseRev: saved.json.rev,
+      ops: [
+        { type: 'move', id: 'a', gx: 20, gy: 5, gw: 4, gh: 3 },
+        { type: 'delete', id: 'b' },
+        { type: 'upsert', item: item('c', 0, { locked: true }), pos: 1 },
+      ],
+    });
+    expect(patched.status).toBe(200);
+    expect(patched.json.applied).toBe(3);
+
+    // наезд откатывает весь patch
+    const overlap = await call('patch', { board, baseRev: patched.json.rev, ops: [{ type: 'move', id: 'a', gx: 0, gy: 0, gw: 4, gh: 3 }] });
+    expect(overlap.status).toBe(422);
+    expect(overlap.json.items[0]).toMatchObject({ id: 'a', field: 'gx' });
+
+    // poll: с отставшей ревизией — items, с актуальной — без них
+    const behind = await call('poll', { board, client: 'c1', since: saved.json.rev });
+    expect(behind.status).toBe(200);
+    expect(behind.json.rev).toBe(patched.json.rev);
+    expect(behind.json.items.map((i: any) => [i.id, i.gx, i.gy])).toEqual([['a', 20, 5], ['c', 0, 0]]);
+    expect(behind.json.items[1].locked).toBe(true);
+    const current = await call('poll', { board, client: 'c1', since: patched.json.rev });
+    expect(current.json.items).toBeUndefined();
+
+    // restore: автоснимок после save возвращает доску к a + b новой ревизией
+    const list = await call('snapshots', undefined, { board });
+    const snap = list.json.snapshots.find((s: any) => s.rev === saved.json.rev);
+    expect(snap).toBeTruthy();
+    const restored = await call('restore', { board, id: snap.id });
+    expect(restored.status).toBe(200);
+    expect(restored.json.rev).toBe(patched.json.rev + 1);
+    expect(restored.json.items.map((i: any) => [i.id, i.gx])).toEqual([['a', 0], ['b', 10]]);
+  });
+});
+
+describe('board settings', () => {
+  it('shares canvas and layout between members but keeps the camera out', async () => {
+    const board = await newBoard('mood');
+    const r = await call('settings', { board, settings: { intensity: 40, seed: 7, camera: { scale: 2, tx: 10, ty: 20 } } });
+    expect(r.status).toBe(200);
+    expect(r.json.settings).toEqual({ intensity: 40, seed: 7 });
+    expect((await call('list', undefined, { board })).json.settings).toEqual({ intensity: 40, seed: 7 });
+    const editor = await member('editor');
+    expect((await call('poll', { board, client: 'c1', since: -1 }, {}, { token: editor })).json.settings).toEqual({ intensity: 40, seed: 7 });
+  });
+});
+
+describe('item-level writes', () => {
+  it('rejects an item whose id belongs to another board instead of dropping it', async () => {
+    const a = await newBoard(), b = await newBoard();
+    expect((await call('save', { board: a, items: [item('shared-id', 0)], baseRev: await rev(a) })).status).toBe(200);
+
+    const base = await rev(b);
+    const saved = await call('save', { board: b, items: [item('own', 0), item('shared-id', 10)], baseRev: base });
+    expect(saved.status).toBe(422);
+    expect(saved.json.items).toEqual([{ index: 1, id: 'shared-id', field: 'id', message: 'id is already used by another board' }]);
+
+    const patched = await call('patch', { board: b, baseRev: base, ops: [{ type: 'upsert', item: item('shared-id', 0), pos: 0 }] });
+    expect(patched.status).toBe(422);
+    expect(patched.json.items[0]).toMatchObject({ index: 0, id: 'shared-id', field: 'id' });
+
+    // откат целиком: ревизия та же, на доске-источнике айтем на месте
+    const list = await call('list', undefined, { board: b });
+    expect(list.json.rev).toBe(base);
+    expect(list.json.items).toEqual([]);
+    expect((await call('list', undefined, { board: a })).json.items.map((i: any) => i.id)).toEqual(['shared-id']);
+  });
+
+  it('checks items against the board canvas, not the largest possible one', async () => {
+    // мудборд по умолчанию 3840×2160 — 240×135 клеток
+    const board = await newBoard('mood');
+    const outside = await call('save', { board, items: [item('far', 240)], baseRev: await rev(board) });
+    expect(outside.status).toBe(422);
+    expect(outside.json.items).toEqual([{ index: 0, id: 'far', field: 'gx', message: 'item is outside the canvas (240×135 cells)' }]);
+    expect((await call('save', { board, items: [item('edge', 236)], baseRev: await rev(board) })).status).toBe(200);
+    const moved = await call('patch', { board, baseRev: await rev(board), ops: [{ type: 'move', id: 'edge', gx: 0, gy: 133, gw: 4, gh: 3 }] });
+    expect(moved.json.items[0]).toMatchObject({ index: 0, id: 'edge', message: 'item is outside the canvas (240×135 cells)' });
+
+    // холст увеличили — места стало больше
+    expect((await call('settings', { board, settings: { canvas: { w: 8000, h: 4000 } } })).status).toBe(200);
+    expect((await call('save', { board, items: [item('edge', 400)], baseRev: await rev(board) })).status).toBe(200);
+  });
+
+  it('rejects a move of an item that is not on the board', async () => {
+    const board = await newBoard();
+    const base = await rev(board);
+    const r = await call('patch', { board, baseRev: base, ops: [{ type: 'move', id: 'ghost', gx: 0, gy: 0, gw: 4, gh: 3 }] });
+    expect(r.status).toBe(422);
+    expect(r.json.items).toEqual([{ index: 0, id: 'ghost', field: 'id', message: 'item is not on this board' }]);
+    expect(await rev(board)).toBe(base);
+  });
+
+  it('validates snapshot items on restore like a save', async () => {
+    const board = await newBoard('mood');
+    expect((await call('settings', { board, settings: { canvas: { w: 8000, h: 4000 } } })).status).toBe(200);
+    expect((await call('save', { board, items: [item('wide', 400)], baseRev: await rev(board) })).status).toBe(200);
+    const [snap] = (await call('snapshots', undefined, { board })).json.snapshots;
+    expect((await call('save', { board, items: [], baseRev: await rev(board) })).status).toBe(200);
+
+    // холст с тех пор уменьшили: снимок на нём не помещается
+    expect((await call('settings', { board, settings: { canvas: { w: 3840, h: 2160 } } })).status).toBe(200);
+    const base = await rev(board);
+    const outside = await call('restore', { board, id: snap.id });
+    expect(outside.status).toBe(422);
+    expect(outside.json.items[0]).toMatchObject({ id: 'wide', field: 'gx' });
+
+    // битый айтем в самом снимке
+    await connect(db => db.query(`UPDATE sb_snapshots SET items = '[{"id":"x","kind":"gif","url":"ftp://x","gx":0,"gy":0,"gw":1,"gh":1}]' WHERE id = $1`, [snap.id]));
+    const broken = await call('restore', { board, id: snap.id });
+    expect(broken.status).toBe(422);
+    expect(broken.json.items.map((e: any) => e.field)).toEqual(['kind', 'url']);
+    expect(await rev(board)).toBe(base);
+    expect((await call('list', undefined, { board })).json.items).toEqual([]);
+  });
+
+  it('gives duplicate legacy ids fresh ids so the unique index can be built', async () => {
+    await connect(async db => {
+      await db.query(`DROP INDEX sb_items_id_uniq`);
+      await db.query(
+        `INSERT INTO sb_items (id, board, url, kind, gx, gy, gw, gh, pos)
+         VALUES ('dup', 'moodboard', 'https://example.com/1.jpg', 'image', 0, 20, 2, 2, 5),
+                ('dup', 'styleboard', 'https://example.com/2.jpg', 'image', 0, 20, 2, 2, 0)`
+      );
+      await repo.dedupeItemIds(db);
+      await db.query(`CREATE UNIQUE INDEX sb_items_id_uniq ON sb_items (id)`);
+      const rows = (await db.query(`SELECT id, board FROM sb_items WHERE id LIKE 'dup%' ORDER BY board`)).rows;
+      expect(rows).toHaveLength(2);
+      // первая по доске строка id сохраняет
+      expect(rows[0]).toEqual({ id: 'dup', board: 'moodboard' });
+      expect(rows[1].id).toMatch(/^dup-[0-9a-f]{8}$/);
+      await db.query(`DELETE FROM sb_items WHERE id LIKE 'dup%'`);
+    });
+  });
+});
+
+describe('board revisions', () => {
+  it('refuses writes based on a stale revision and reports the current one', async () => {
+    const board = await newBoard();
+    const base = await rev(board);
+    const mine = await call('save', { board, items: [item('r1', 0)], baseRev: base });
+    expect(mine.json.rev).toBe(base + 1);
+
+    // второй клиент всё ещё на base: и save, и patch — 409 с актуальной ревизией
+    const theirsSave = await call('save', { board, items: [item('r2', 0)], baseRev: base });
+    expect(theirsSave).toEqual({ status: 409, json: { error: 'conflict', rev: base + 1 } });
+    const theirsPatch = await call('patch', { board, baseRev: base, ops: [{ type: 'delete', id: 'r1' }] });
+    expect(theirsPatch).toEqual({ status: 409, json: { error: 'conflict', rev: base + 1 } });
+    expect((await call('list', undefined, { board })).json.items.map((i: any) => i.id)).toEqual(['r1']);
+
+    // без baseRev пишем только осознанно — force
+    expect((await call('save', { board, items: [item('r2', 0)] })).status).toBe(400);
+    const forced = await call('save', { board, items: [item('r2', 0)], force: true });
+    expect(forced.json.rev).toBe(base + 2);
+    expect((await call('list', undefined, { board })).json.items.map((i: any) => i.id)).toEqual(['r2']);
+  });
+
+  it('bumps the revision on clear so open copies become stale', async () => {
+    const board = await newBoard();
+    const base = await rev(board);
+    await call('save', { board, items: [item('c1', 0)], baseRev: base });
+    expect((await call('clear', {}, { board })).status).toBe(200);
+    const after = await call('list', undefined, { board });
+    expect(after.json.items).toEqual([]);
+    expect(after.json.rev).toBe(base + 2);
+    expect((await call('save', { board, items: [], baseRev: base + 1 })).status).toBe(409);
+  });
+});
+
+describe('live presence', () => {
+  it('lists the other tabs on the board with their cursors, not the caller', async () => {
+    const board = await newBoard();
+    await call('poll', { board, client: 'tab-a', since: null, color: '#ff0000', x: 10, y: 20 });
+    const b = await call('poll', { board, client: 'tab-b', since: null, color: 'red' });
+    expect(b.status).toBe(200);
+    // чужой цвет не по формату — серый по умолчанию
+    expect(b.json.peers).toEqual([{ client: 'tab-a', name: 'Owner', color: '#ff0000', x: 10, y: 20 }]);
+    const a = await call('poll', { board, client: 'tab-a', since: b.json.rev });
+    expect(a.json.peers).toEqual([{ client: 'tab-b', name: 'Owner', color: '#a3a3a3', x: null, y: null }]);
+    expect(a.json.items).toBeUndefined();
+
+    // вкладка на другой доске сюда не попадает
+    await call('poll', { board: 'styleboard', client: 'tab-c', since: null });
+    expect((await call('poll', { board, client: 'tab-a', since: null })).json.peers.map((p: any) => p.client)).toEqual(['tab-b']);
+    expect((await call('poll', { board, client: 'bad id!', since: null })).status).toBe(400);
+  });
+});
+
+describe('version history', () => {
+  it('keeps an auto snapshot per write, names snapshots and restores as a new revision', async () => {
+    const board = await newBoard();
+    const base = await rev(board);
+    const v1 = await call('save', { board, items: [item('h1', 0)], baseRev: base });
+    const named = await call('snapshots', { board, name: '  Client review  ' });
+    expect(named.status).toBe(200);
+    expect(named.json.snapshot).toMatchObject({ name: 'Client review', auto: false, rev: v1.json.rev, count: 1 });
+    await call('save', { board, items: [item('h1', 0), item('h2', 10)], baseRev: v1.json.rev });
+
+    const list = (await call('snapshots', undefined, { board })).json.snapshots;
+    expect(list.map((s: any) => [s.rev, s.auto, s.count])).toEqual([[v1.json.rev + 1, true, 2], [v1.json.rev, false, 1], [v1.json.rev, true, 1]]);
+    expect(list[0].items).toBeUndefined();
+    const full = await call('snapshots', undefined, { board, id: named.json.snapshot.id });
+    expect(full.json.snapshot.items.map((i: any) => i.id)).toEqual(['h1']);
+
+    // откат — обычная запись: ревизия растёт, появляется автоснимок, и его самого можно откатить
+    const restored = await call('restore', { board, id: named.json.snapshot.id });
+    expect(restored.json.rev).toBe(v1.json.rev + 2);
+    expect(restored.json.items.map((i: any) => i.id)).toEqual(['h1']);
+    expect((await call('snapshots', undefined, { board })).json.snapshots[0]).toMatchObject({ rev: v1.json.rev + 2, auto: true });
+
+    // снимок чужой доски по id не найти
+    expect((await call('restore', { board: 'styleboard', id: named.json.snapshot.id })).status).toBe(404);
+    expect((await call('snapshots', { board, name: ' ' })).status).toBe(400);
+  });
+});
+
+describe('accounts and roles', () => {
+  const tokens: Record<string, string> = {};
+
+  beforeAll(async () => {
+    for (const role of ['viewer', 'commenter', 'editor', 'outsider'] as const) tokens[role] = await member(role);
+  });
+
+  it('answers 401 without a session and 403 without a role in the project', async () => {
+    expect((await call('list', undefined, { board: 'moodboard' }, {})).status).toBe(401);
+    expect((await call('list', undefined, { board: 'moodboard' }, { token: 'forged.token' })).status).toBe(401);
+    expect((await call('list', undefined, { board: 'moodboard' }, { token: tokens.outsider })).status).toBe(403);
+    expect((await call('me', undefined, {}, { token: tokens.outsider })).json).toMatchObject({ user: { name: 'outsider' }, role: null });
+  });
+
+  it('lets each role do exactly what it is allowed to', async () => {
+    const board = await newBoard();
+    const base = await rev(board);
+    const save = (as: string) => call('save', { board, items: [item(`${as}-1`, 0)], force: true }, {}, { token: tokens[as] });
+
+    for (const role of ['viewer', 'commenter', 'editor']) {
+      expect((await call('list', undefined, { board }, { token: tokens[role] })).status).toBe(200);
+      expect((await call('me', undefined, {}, { token: tokens[role] })).json.role).toBe(role);
+    }
+    expect((await save('viewer')).status).toBe(403);
+    expect((await save('commenter')).status).toBe(403);
+    expect((await save('editor')).status).toBe(200);
+    expect(await rev(board)).toBe(base + 1);
+
+    // доски правит editor, удаляет и раздаёт роли — только owner
+    expect((await call('boards', { action: 'rename', id: board, name: 'Renamed' }, {}, { token: tokens.editor })).status).toBe(200);
+    expect((await call('boards', { action: 'delete', id: board }, {}, { token: tokens.editor })).status).toBe(403);
+    expect((await call('members', { action: 'set', email: 'outsider@example.com', role: 'editor' }, {}, { token: tokens.editor })).status).toBe(403);
+    expect((await call('members', undefined, {}, { token: tokens.viewer })).json.members.map((m: any) => m.role).sort())
+      .toEqual(['commenter', 'editor', 'owner', 'viewer']);
+    expect((await call('boards', { action: 'delete', id: board })).status).toBe(200);
+  });
+
+  it('keeps at least one owner in the project', async () => {
+    const me = (await call('me')).json.user;
+    expect((await call('members', { action: 'set', email: me.email, role: 'editor' })).status).toBe(400);
+    expect((await call('members', { action: 'remove', userId: me.id })).status).toBe(400);
+  });
+});
+
+describe('share links', () => {
+  async function share(board: string, scope: 'view' | 'comment', expiresAt?: number) {
+    const r = await call('shares', { action: 'create', board, scope, expiresAt });
+    expect(r.status).toBe(200);
+    return r.json.share.id as string;
+  }
+
+  it('opens only its own board, read-only', async () => {
+    const board = await newBoard();
+    await call('save', { board, items: [item('s1', 0)], baseRev: await rev(board) });
+    const link = await share(board, 'view');
+
+    const info = await call('share', undefined, {}, { share: link });
+    expect(info.json.share).toMatchObject({ project: 'default', scope: 'view', board: { id: board } });
+    const list = await call('list', undefined, { board }, { share: link });
+    expect(list.status).toBe(200);
+    expect(list.json.items.map((i: any) => i.id)).toEqual(['s1']);
+    expect((await call('poll', { board, client: 'guest', since: null }, {}, { share: link })).json.rev).toBe(list.json.rev);
+
+    // другая доска, запись и список досок по ссылке — нет
+    expect((await call('list', undefined, { board: 'moodboard' }, { share: link })).status).toBe(403);
+    expect((await call('save', { board, items: [], force: true }, {}, { share: link })).status).toBe(403);
+    expect((await call('boards', undefined, {}, { share: link })).status).toBe(403);
+    // ссылка на доску другого проекта не даёт прав в этом
+    expect((await call('list', undefined, { board, project: 'other' }, { share: link })).status).toBe(401);
+  });
+
+  it('refuses revoked and expired links', async () => {
+    const board = await newBoard();
+    const revoked = await share(board, 'view');
+    expect((await call('shares', { action: 'revoke', id: revoked })).status).toBe(200);
+    expect((await call('list', undefined, { board }, { share: revoked })).status).toBe(401);
+    expect((await call('share', undefined, {}, { share: revoked })).status).toBe(404);
+
+    const expiring = await share(board, 'view', Date.now() + 60_000);
+    expect((await call('list', undefined, { board }, { share: expiring })).status).toBe(200);
+    await connect(db => db.query(`UPDATE sb_shares SET expires_at = now() - interval '1 minute' WHERE id = $1`, [expiring]));
+    expect((await call('list', undefined, { board }, { share: expiring })).status).toBe(401);
+    expect((await call('shares', { action: 'create', board, scope: 'view', expiresAt: Date.now() - 1000 })).status).toBe(400);
+
+    const active = (await call('shares', undefined, { board })).json.shares;
+    expect(active.map((s: any) => s.id)).not.toContain(revoked);
+  });
+});
+
+describe('comments', () => {
+  it('creates, replies to and resolves threads; viewers only read', async () => {
+    const board = await newBoard();
+    await call('save', { board, items: [item('t1', 0)], baseRev: await rev(board) });
+    const commenter = await member('commenter'), viewer = await member('viewer');
+
+    const created = await call('comments', { action: 'create', board, item: 't1', px: 0.25, py: 0.5, body: ' Crop tighter ' }, {}, { token: commenter });
+    expect(created.status).toBe(200);
+    const [thread] = created.json.threads;
+    expect(thread).toMatchObject({ item: 't1', px: 0.25, py: 0.5, resolved: false });
+    expect(thread.comments.map((c: any) => [c.author, c.body])).toEqual([['commenter', 'Crop tighter']]);
+
+    const replied = await call('comments', { action: 'reply', board, thread: thread.id, body: 'Done' });
+    expect(replied.json.threads[0].comments.map((c: any) => c.body)).toEqual(['Crop tighter', 'Done']);
+    const resolved = await call('comments', { action: 'resolve', board, thread: thread.id }, {}, { token: commenter });
+    expect(resolved.json.threads[0]).toMatchObject({ resolved: true, resolvedBy: 'commenter' });
+
+    // viewer читает, но не пишет
+    expect((await call('comments', undefined, { board }, { token: viewer })).json.threads).toHaveLength(1);
+    expect((await call('comments', { action: 'reply', board, thread: thread.id, body: 'me too' }, {}, { token: viewer })).status).toBe(403);
+    expect((await call('comments', { action: 'create', board, item: 't1', body: 'hi' }, {}, { token: viewer })).status).toBe(403);
+    // без пина, пустой текст, чужой айтем
+    expect((await call('comments', { action: 'create', board, item: 't1', px: 2, py: 0, body: 'no pin' })).json.threads[1]).toMatchObject({ px: null, py: null });
+    expect((await call('comments', { action: 'create', board, item: 't1', body: '  ' })).status).toBe(400);
+    expect((await call('comments', { action: 'create', board, item: 'missing', body: 'x' })).status).toBe(404);
+  });
+
+  it('lets a guest with a comment link comment as Guest, but not with a view link', async () => {
+    const board = await newBoard();
+    await call('save', { board, items: [item('g1', 0)], baseRev: await rev(board) });
+    const link = async (scope: string) => (await call('shares', { action: 'create', board, scope })).json.share.id;
+
+    const guest = await call('comments', { action: 'create', board, item: 'g1', body: 'Nice' }, {}, { share: await link('comment') });
+    expect(guest.status).toBe(200);
+    expect(guest.json.threads[0].comments[0]).toMatchObject({ author: 'Guest', authorId: null });
+    expect((await call('comments', { action: 'create', board, item: 'g1', body: 'x' }, {}, { share: await link('view') })).status).toBe(403);
+  });
+});
+
+describe('approval status', () => {
+  it('records who set the status and when, from the session rather than the client', async () => {
+    const board = await newBoard();
+    const editor = await member('editor');
+    const base = await rev(board);
+    await call('save', { board, items: [item('p1', 0), item('p2', 10, { status: 'approved', statusBy: 'Mallory' })], baseRev: base });
+    let [p1, p2] = (await call('list', undefined, { board })).json.items;
+    expect(p1).toMatchObject({ status: 'proposed', statusBy: null, statusAt: null, statusNote: null });
+    expect(p2).toMatchObject({ status: 'approved', statusBy: 'Owner' });
+    expect(typeof p2.statusAt).toBe('number');
+
+    // правка без смены статуса автора не меняет; смена статуса другим — меняет
+    const r1 = await call('patch', { board, baseRev: base + 1, ops: [{ type: 'upsert', item: { ...item('p2', 10, { status: 'approved' }), gy: 5 }, pos: 1 }] }, {}, { token: editor });
+    expect((await call('list', undefined, { board })).json.items[1]).toMatchObject({ status: 'approved', statusBy: 'Owner', gy: 5 });
+    await call('patch', { board, baseRev: r1.json.rev, ops: [{ type: 'upsert', item: item('p1', 0, { status: 'rejected', statusNote: ' too dark ' }), pos: 0 }] }, {}, { token: editor });
+    [p1] = (await call('list', undefined, { board })).json.items;
+    expect(p1).toMatchObject({ status: 'rejected', statusNote: 'too dark', statusBy: 'editor' });
+
+    const bad = await call('save', { board, items: [item('p3', 0, { status: 'maybe' })], force: true });
+    expect(bad.status).toBe(422);
+    expect(bad.json.items[0]).toMatchObject({ id: 'p3', field: 'status' });
+  });
+
+  it('reads items from old clients that only send approved', async () => {
+    const board = await newBoard();
+    await call('save', { board, items: [{ ...item('o1', 0), status: undefined, approved: true }], force: true });
+    expect((await call('list', undefined, { board })).json.items[0].status).toBe('approved');
+  });
+});
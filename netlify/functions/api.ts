@@ -1,13 +1,19 @@
 // netlify/functions/api.ts
 import type { Handler } from '@netlify/functions';
-import { Client } from 'pg';
+import { scryptSync, randomBytes, timingSafeEqual, createHmac } from 'crypto';
 
 // ← НОВОЕ: AWS SDK для S3 presign
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 
-const WRITE_PASSWORD = process.env.WRITE_PASSWORD!;
-const DATABASE_URL = process.env.DATABASE_URL!;
+import { connect, tx, Rollback } from '../lib/db';
+import type { Db } from '../lib/db';
+import * as repo from '../lib/repo';
+import { ROLES, APPROVAL_STATUSES, ITEMS_SCHEMA, DEFAULT_PROJECT, cryptoRandom } from '../lib/repo';
+import type { AuthUser, BoardType, BoardSettings, MoodLayout, PatchOp, Rect, Role, ShareScope } from '../lib/repo';
+
+// ключ подписи сессионных токенов
+const SESSION_SECRET = process.env.SESSION_SECRET!;
 
 // S3 конфигурация
 const S3_ENDPOINT = process.env.S3_ENDPOINT!;
@@ -25,7 +31,257 @@ const s3 = new S3Client({
   forcePathStyle: true,            // Важно для совместимости
 });
 
-type BoardKey = 'moodboard' | 'styleboard';
+type BoardKey = string;
+
+// id доски/проекта приходит от клиента (uid()) — пускаем только безопасные символы, он же идёт в ключ S3
+const BOARD_ID_RE = /^[A-Za-z0-9_-]{1,64}$/;
+const BOARD_TYPES: BoardType[] = ['mood', 'style'];
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const SHARE_SCOPES: ShareScope[] = ['view', 'comment'];
+
+// секреты проектов храним как scrypt-хэш: "salt:hash" в hex
+function hashSecret(secret: string) {
+  const salt = randomBytes(16);
+  return `${salt.toString('hex')}:${scryptSync(secret, salt, 32).toString('hex')}`;
+}
+function verifySecret(secret: string, stored: string) {
+  const [saltHex, hashHex] = stored.split(':');
+  if (!saltHex || !hashHex) return false;
+  const want = Buffer.from(hashHex, 'hex');
+  const got = scryptSync(secret, Buffer.from(saltHex, 'hex'), want.length);
+  return timingSafeEqual(want, got);
+}
+
+// Сессия — подписанный HMAC токен "payload.sig" (base64url), payload = { sub: userId, exp }
+function signToken(userId: string) {
+  const payload = Buffer.from(JSON.stringify({ sub: userId, exp: Date.now() + SESSION_TTL_MS })).toString('base64url');
+  const sig = createHmac('sha256', SESSION_SECRET).update(payload).digest('base64url');
+  return `${payload}.${sig}`;
+}
+function verifyToken(token: string): string | null {
+  const [payload, sig] = token.split('.');
+  if (!SESSION_SECRET || !payload || !sig) return null;
+  const want = createHmac('sha256', SESSION_SECRET).update(payload).digest();
+  const got = Buffer.from(sig, 'base64url');
+  if (got.length !== want.length || !timingSafeEqual(want, got)) return null;
+  try {
+    const { sub, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    return typeof sub === 'string' && typeof exp === 'number' && exp > Date.now() ? sub : null;
+  } catch { return null; }
+}
+
+// кто делает запрос и его роль в проекте из ?project= (архивный проект — без роли);
+// share — роль выдана ссылкой из заголовка X-Share и действует только на её доску
+type Access = { user: AuthUser | null; role: Role | null; share: { board: string; scope: ShareScope } | null };
+
+async function readUser(db: Db, event: { headers: Record<string, string | undefined> }): Promise<AuthUser | null> {
+  const h = pickHeader(event.headers, 'authorization') || '';
+  const userId = h.startsWith('Bearer ') ? verifyToken(h.slice(7)) : null;
+  return userId ? repo.userById(db, userId) : null;
+}
+
+async function findShare(db: Db, id: string) {
+  return BOARD_ID_RE.test(id) ? repo.findShare(db, id) : null;
+}
+
+async function access(db: Db, event: { headers: Record<string, string | undefined> }, project: string): Promise<Access> {
+  const user = await readUser(db, event);
+  const role = user ? await repo.projectRole(db, project, user.id) : null;
+  if (role) return { user, role, share: null };
+  const shareId = pickHeader(event.headers, 'x-share');
+  const s = shareId ? await findShare(db, shareId) : null;
+  if (!s || s.project !== project) return { user, role, share: null };
+  return { user, role: s.scope === 'comment' ? 'commenter' : 'viewer', share: { board: s.board, scope: s.scope } };
+}
+
+const roleAtLeast = (role: Role | null, min: Role) => !!role && ROLES.indexOf(role) >= ROLES.indexOf(min);
+
+// ответ-отказ, если прав не хватает; null — можно.
+// Доступ по ссылке годится только для операций над доской board этой ссылки
+function denied(a: Access, min: Role, board?: string) {
+  if (!a.user && !a.share) return err(401, 'Unauthorized');
+  if (!roleAtLeast(a.role, min)) return err(403, 'Forbidden');
+  if (a.share && a.share.board !== board) return err(403, 'Forbidden');
+  return null;
+}
+
+const ALTERNATIVES_MAX = 12; // как на клиенте
+const MOOD_MODES: MoodLayout['mode'][] = ['auto', 'rows', 'cols', 'combo'];
+
+function cleanLayout(v: any): MoodLayout | undefined {
+  const bias = num(v?.columnBias);
+  return MOOD_MODES.includes(v?.mode) && typeof v?.keepAspect === 'boolean' && bias !== null && bias >= 0 && bias <= 1
+    ? { mode: v.mode, keepAspect: v.keepAspect, columnBias: bias }
+    : undefined;
+}
+
+// настройки доски: только известные поля в допустимых пределах (как CANVAS_LIMITS на клиенте).
+// Камеру старых клиентов отбрасываем: она своя у каждого, общая перебивала бы вид другим
+function cleanSettings(v: any): BoardSettings {
+  const out: BoardSettings = {};
+  const w = num(v?.canvas?.w), h = num(v?.canvas?.h);
+  if (w !== null && h !== null && w >= 1000 && h >= 1000 && w <= 20000 && h <= 20000) out.canvas = { w: Math.round(w), h: Math.round(h) };
+  const i = num(v?.intensity);
+  if (i !== null && i >= 0 && i <= 100) out.intensity = Math.round(i);
+  const seed = num(v?.seed);
+  if (seed !== null && Number.isInteger(seed) && seed >= 0 && seed <= 0xffffffff) out.seed = seed;
+  const layout = cleanLayout(v?.layout);
+  if (layout) out.layout = layout;
+  if (Array.isArray(v?.alternatives)) {
+    out.alternatives = v.alternatives.slice(0, ALTERNATIVES_MAX).flatMap((a: any) => {
+      const s = num(a?.seed), k = num(a?.intensity), layout = cleanLayout(a?.layout);
+      return s !== null && Number.isInteger(s) && s >= 0 && s <= 0xffffffff && k !== null && k >= 0 && k <= 100
+        ? [{ seed: s, intensity: Math.round(k), ...(layout ? { layout } : {}) }]
+        : [];
+    });
+  }
+  return out;
+}
+
+// клиент новее функции: поля, которых сервер не знает, при записи потерялись бы
+function newerSchema(schema: unknown) {
+  return typeof schema === 'number' && schema > ITEMS_SCHEMA
+    ? err(400, `client schema v${schema} is newer than server v${ITEMS_SCHEMA}`)
+    : null;
+}
+
+function conflict(rev: number) {
+  return ok(409, JSON.stringify({ error: 'conflict', rev }), cors());
+}
+
+const PATCH_TYPES = ['upsert', 'move', 'delete', 'reorder'];
+
+// === Проверка айтемов на записи: те же правила, что у клиента (validateItems) ===
+// Ошибки — по айтему и полю: index — позиция в items (save) или в ops (patch)
+type ItemError = { index: number; id: string | null; field: string; message: string };
+const ITEM_KINDS = ['image', 'video', 'site'];
+const GRID = 16; // пикселей в клетке, как на клиенте
+// холст доски без сохранённого settings.canvas — стартовый для типа (DEFAULT_CANVAS на клиенте)
+const DEFAULT_CANVAS: Record<BoardType, { w: number; h: number }> = { mood: { w: 3840, h: 2160 }, style: { w: 12000, h: 12000 } };
+// idb:// — локальный блоб (ещё не загружен в S3), data: — вставка картинки/видео целиком
+const ITEM_URL_RE = /^(https?:\/\/|idb:\/\/|data:(image|video)\/)/i;
+const ITEM_ERRORS_MAX = 100;
+
+function rectErrors(it: any, index: number, id: string | null): ItemError[] {
+  const out: ItemError[] = [];
+  for (const k of ['gw', 'gh']) {
+    if (!Number.isInteger(it[k]) || it[k] < 1) out.push({ index, id, field: k, message: `${k} must be a positive integer` });
+  }
+  for (const k of ['gx', 'gy']) {
+    if (!Number.isInteger(it[k]) || it[k] < 0) out.push({ index, id, field: k, message: `${k} must be a non-negative integer` });
+  }
+  return out;
+}
+
+// границы — холст этой доски; проверяем уже в БД, где известны её тип и settings.canvas
+function canvasErrors(rects: { index: number; id: string; gx: number; gy: number; gw: number; gh: number }[], b: { type: BoardType; canvas: { w: number; h: number } | null }): ItemError[] {
+  const c = b.canvas ?? DEFAULT_CANVAS[b.type];
+  const W = Math.floor(c.w / GRID), H = Math.floor(c.h / GRID);
+  return rects
+    .filter(r => r.gx + r.gw > W || r.gy + r.gh > H)
+    .slice(0, ITEM_ERRORS_MAX)
+    .map(r => ({ index: r.index, id: r.id, field: 'gx', message: `item is outside the canvas (${W}×${H} cells)` }));
+}
+
+function itemErrors(it: any, index: number): ItemError[] {
+  if (!it || typeof it !== 'object') return [{ index, id: null, field: 'item', message: 'item must be an object' }];
+  const id = typeof it.id === 'string' && it.id && it.id.length <= 64 ? it.id : null;
+  const out: ItemError[] = [];
+  const bad = (field: string, message: string) => out.push({ index, id, field, message });
+  if (!id) bad('id', 'id must be a string of 1..64 chars');
+  if (!ITEM_KINDS.includes(it.kind)) bad('kind', `kind must be one of: ${ITEM_KINDS.join(', ')}`);
+  if (typeof it.url !== 'string' || !ITEM_URL_RE.test(it.url)) bad('url', 'url must be http(s), idb:// or data:image|video');
+  if (it.thumb != null && (typeof it.thumb !== 'string' || !ITEM_URL_RE.test(it.thumb))) bad('thumb', 'thumb must be http(s), idb:// or data:image');
+  // без status — старый клиент с одним approved (itemStatus)
+  if (it.status != null && !APPROVAL_STATUSES.includes(it.status)) bad('status', `status must be one of: ${APPROVAL_STATUSES.join(', ')}`);
+  for (const k of ['natW', 'natH', 'natR']) {
+    if (it[k] != null && !(num(it[k]) !== null && it[k] > 0)) bad(k, `${k} must be a positive number`);
+  }
+  if (it.locked != null && typeof it.locked !== 'boolean') bad('locked', 'locked must be a boolean');
+  return [...out, ...rectErrors(it, index, id)];
+}
+
+// наезды: only — айтемы, которые трогает запись (старые пересечения в доске не мешают её править)
+function overlapErrors(rects: Rect[], index: (id: string) => number, only?: Set<string>): ItemError[] {
+  const out: ItemError[] = [];
+  for (let i = 0; i < rects.length; i++) {
+    const a = rects[i];
+    for (let j = i + 1; j < rects.length; j++) {
+      const b = rects[j];
+      if (only && !only.has(a.id) && !only.has(b.id)) continue;
+      if (a.gx < b.gx + b.gw && b.gx < a.gx + a.gw && a.gy < b.gy + b.gh && b.gy < a.gy + a.gh) {
+        const [mine, other] = only && !only.has(a.id) ? [b, a] : [a, b];
+        out.push({ index: index(mine.id), id: mine.id, field: 'gx', message: `overlaps item ${other.id}` });
+        if (out.length >= ITEM_ERRORS_MAX) return out;
+      }
+    }
+  }
+  return out;
+}
+
+function saveErrors(items: any[]): ItemError[] {
+  const out = items.flatMap((it, i) => itemErrors(it, i));
+  const seen = new Map<string, number>();
+  items.forEach((it, i) => {
+    if (typeof it?.id !== 'string') return;
+    if (seen.has(it.id)) out.push({ index: i, id: it.id, field: 'id', message: `duplicate id (also at ${seen.get(it.id)})` });
+    else seen.set(it.id, i);
+  });
+  if (out.length) return out.slice(0, ITEM_ERRORS_MAX);
+  return overlapErrors(items, id => seen.get(id) ?? -1);
+}
+
+function patchOpErrors(ops: PatchOp[]): ItemError[] {
+  return ops.flatMap((p, i) =>
+    p.type === 'upsert' ? itemErrors(p.item, i)
+    : p.type === 'move' ? rectErrors(p, i, typeof p.id === 'string' ? p.id : null)
+    : []
+  ).slice(0, ITEM_ERRORS_MAX);
+}
+
+// форма самих операций (без неё запрос ушёл бы в SQL и вернулся 500): ошибки — того же вида, что у айтемов
+function patchShapeErrors(ops: any[]): ItemError[] {
+  const out: ItemError[] = [];
+  ops.forEach((p, index) => {
+    const id = typeof p.id === 'string' && p.id ? p.id : null;
+    if (p.type === 'upsert' && !(Number.isInteger(p.pos) && p.pos >= 0)) {
+      out.push({ index, id: typeof p.item?.id === 'string' ? p.item.id : null, field: 'pos', message: 'pos must be a non-negative integer' });
+    }
+    if (p.type === 'delete' && !id) out.push({ index, id: null, field: 'id', message: 'id must be a non-empty string' });
+    if (p.type === 'reorder' && !(Array.isArray(p.ids) && p.ids.every((x: unknown) => typeof x === 'string'))) {
+      out.push({ index, id: null, field: 'ids', message: 'ids must be an array of strings' });
+    }
+  });
+  return out.slice(0, ITEM_ERRORS_MAX);
+}
+
+// id занят айтемом другой доски: upsert такую строку не пишет (ON CONFLICT … WHERE board), без ошибки айтем молча пропал бы
+function takenIdErrors(indexes: number[], idAt: (index: number) => string): ItemError[] {
+  return indexes.slice(0, ITEM_ERRORS_MAX).map(index => ({ index, id: idAt(index), field: 'id', message: 'id is already used by another board' }));
+}
+
+// операции patch, которые не легли: upsert — id чужой доски, move — айтема на доске нет
+function lostOpErrors(ops: PatchOp[], lost: number[]): ItemError[] {
+  return lost.slice(0, ITEM_ERRORS_MAX).map(index => {
+    const p = ops[index];
+    return p.type === 'move'
+      ? { index, id: p.id, field: 'id', message: 'item is not on this board' }
+      : { index, id: p.type === 'upsert' ? p.item.id : null, field: 'id', message: 'id is already used by another board' };
+  });
+}
+
+function invalidItems(errors: ItemError[]) {
+  return ok(422, JSON.stringify({ error: 'invalid items', items: errors }), cors());
+}
+
+const COLOR_RE = /^#[0-9a-fA-F]{6}$/;
+const num = (v: any) => (typeof v === 'number' && Number.isFinite(v) ? v : null);
+// точка пина — доля размера тайла
+const frac = (v: any) => { const n = num(v); return n != null && n >= 0 && n <= 1 ? n : null; };
+const COMMENT_MAX = 4000;
 
 function pickHeader(headers: Record<string,string|undefined>, name: string) {
   const n = name.toLowerCase();
@@ -33,29 +289,37 @@ function pickHeader(headers: Record<string,string|undefined>, name: string) {
   return undefined;
 }
 
-function cryptoRandom() {
-  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
-  return `id_${Date.now().toString(36)}_${Math.random().toString(36).slice(2)}`;
+
+type Res = ReturnType<typeof ok>;
+
+// Ветка работы с БД: соединение из пула (вернётся в пул при любом исходе), схема на месте;
+// любой сбой БД — 500 с текстом ошибки
+function withDb<T>(fn: (db: Db) => Promise<T>): Promise<T | Res> {
+  return connect(async db => {
+    await repo.ensureSchema(db);
+    return fn(db);
+  }).catch(e => err(500, 'db error: ' + (e as Error).message));
 }
 
 export const handler: Handler = async (event) => {
   const url = new URL(event.rawUrl);
   const op = url.searchParams.get('op') || 'list';
+  const project = url.searchParams.get('project') || DEFAULT_PROJECT;
 
   // CORS
   if (event.httpMethod === 'OPTIONS') {
-    return ok(200, '', { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'Content-Type, x-pass', 'Access-Control-Allow-Methods': 'GET,POST,OPTIONS' });
+    return ok(200, '', { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Share', 'Access-Control-Allow-Methods': 'GET,POST,OPTIONS' });
   }
 
+  if (!BOARD_ID_RE.test(project)) return err(400, 'invalid project id');
+
   try {
     // ─────────────────────────────────────────────────────────────
     // 1) ПОДПИСЬ ЗАГРУЗКИ В S3 (Supabase Storage S3-совместимый)
     // ─────────────────────────────────────────────────────────────
     if (op === 'sign-upload' && event.httpMethod === 'POST') {
-      const pass = pickHeader(event.headers as any, 'x-pass') || '';
-      if (!process.env.WRITE_PASSWORD || pass !== process.env.WRITE_PASSWORD) {
-        return { statusCode: 401, headers: { ...cors(), 'Content-Type': 'application/json' }, body: JSON.stringify({ error: 'unauthorized' }) };
-      }
+      const no = await withDb(async db => denied(await access(db, event, project), 'editor'));
+      if (no) return no;
 
       // Проверяем, что S3 переменные определены
       if (!S3_ENDPOINT || !S3_ACCESS_KEY || !S3_SECRET_KEY || !S3_BUCKET || !SUPABASE_PROJECT_URL) {
@@ -63,11 +327,11 @@ export const handler: Handler = async (event) => {
       }
 
       const body = event.body ? JSON.parse(event.body) : {};
-      const board: BoardKey = body.board === 'styleboard' ? 'styleboard' : 'moodboard';
+      const board: BoardKey = typeof body.board === 'string' && BOARD_ID_RE.test(body.board) ? body.board : 'moodboard';
       const id: string = body.id || cryptoRandom();
       const mime: string = typeof body.mime === 'string' && body.mime ? body.mime : 'application/octet-stream';
       const ext = mime.startsWith('image/') ? mime.split('/')[1] : 'bin';
-      const objectKey = `${board}/${id}.${ext}`;
+      const objectKey = `${project}/${board}/${id}.${ext}`;
 
       // Подписываем однократный PUT на 5 минут
       const cmd = new PutObjectCommand({
@@ -89,82 +353,482 @@ export const handler: Handler = async (event) => {
     }
 
     // ─────────────────────────────────────────────────────────────
-    // 2) CRUD в БД (как и раньше)
+    // 2) АККАУНТЫ: регистрация/вход выдают подписанный токен сессии
+    // ─────────────────────────────────────────────────────────────
+    if (op === 'auth' && event.httpMethod === 'POST') {
+      const { action, email, password, name } = JSON.parse(event.body || '{}');
+      const mail = typeof email === 'string' ? email.trim().toLowerCase() : '';
+      if (!EMAIL_RE.test(mail)) return err(400, 'invalid email');
+      if (typeof password !== 'string' || password.length < 8) return err(400, 'password must be at least 8 characters');
+      if (!SESSION_SECRET) return err(500, 'SESSION_SECRET is not configured');
+
+      return withDb(async db => {
+        let user: AuthUser | null = null;
+
+        if (action === 'signup') {
+          if (typeof name !== 'string' || !name.trim()) return err(400, 'name is required');
+          const created = await tx(db, async () => {
+            const u = await repo.createUser(db, mail, name.trim().slice(0, 80), hashSecret(password));
+            if (!u) throw new Rollback(null);
+            // первый зарегистрированный становится владельцем default — иначе старые доски некому открыть
+            await repo.claimOwnerIfNone(db, DEFAULT_PROJECT, u.id);
+            return u;
+          });
+          if (!created) return err(409, 'email is already registered');
+          user = created;
+        } else if (action === 'signin') {
+          const row = await repo.userByEmail(db, mail);
+          if (!row || !verifySecret(password, row.passHash)) return err(401, 'wrong email or password');
+          user = { id: row.id, email: row.email, name: row.name };
+        } else {
+          return err(400, 'Unknown action');
+        }
+
+        return ok(200, JSON.stringify({ token: signToken(user.id), user }), cors());
+      });
+    }
+
+    // кто я и какая у меня роль в текущем проекте (user = null — токена нет или он протух)
+    if (op === 'me') {
+      return withDb(async db => ok(200, JSON.stringify(await access(db, event, project)), cors()));
+    }
+
+    // ─────────────────────────────────────────────────────────────
+    // 3) ПРОЕКТЫ: у каждого свой набор досок и свои участники с ролями
+    // ─────────────────────────────────────────────────────────────
+    if (op === 'projects' && event.httpMethod === 'GET') {
+      const withArchived = url.searchParams.get('archived') === '1';
+      return withDb(async db => {
+        const user = await readUser(db, event);
+        // видны только проекты, где ты участник
+        const projects = user ? await repo.listProjects(db, user.id, withArchived) : [];
+        return ok(200, JSON.stringify({ projects }), cors());
+      });
+    }
+
+    if (op === 'projects') {
+      const { action, id, name } = JSON.parse(event.body || '{}');
+      if (typeof id !== 'string' || !BOARD_ID_RE.test(id)) return err(400, 'invalid project id');
+
+      return withDb(async db => {
+        const user = await readUser(db, event);
+        if (!user) return err(401, 'Unauthorized');
+        let row: repo.Project | null = null;
+
+        if (action === 'create') {
+          // проект заводит любой вошедший — он же становится владельцем
+          if (typeof name !== 'string' || !name.trim()) return err(400, 'name is required');
+          row = await tx(db, async () => {
+            const created = await repo.createProject(db, id, name.trim(), user.id);
+            if (!created) throw new Rollback(null);
+            return created;
+          });
+          if (!row) return err(409, 'project already exists');
+        } else if (action === 'archive' || action === 'unarchive') {
+          if (id === DEFAULT_PROJECT) return err(400, 'default project cannot be archived');
+          if ((await repo.projectRole(db, id, user.id, true)) !== 'owner') return err(403, 'Forbidden');
+          row = await repo.setProjectArchived(db, id, action === 'archive');
+          if (!row) return err(404, 'project not found');
+        } else {
+          return err(400, 'Unknown action');
+        }
+
+        return ok(200, JSON.stringify({ project: row }), cors());
+      });
+    }
+
+    // Участники проекта: список видят все участники; роли раздаёт owner.
+    // join — вход по секрету проекта (проекты, заведённые до аккаунтов): editor, либо owner, если владельца ещё нет
+    if (op === 'members') {
+      return withDb(async db => {
+        const a = await access(db, event, project);
+
+        if (event.httpMethod === 'GET') {
+          const no = denied(a, 'viewer');
+          if (no) return no;
+          return ok(200, JSON.stringify({ members: await repo.listMembers(db, project) }), cors());
+        }
+
+        const { action, email, role, userId, secret } = JSON.parse(event.body || '{}');
+        if (!a.user) return err(401, 'Unauthorized');
+
+        if (action === 'join') {
+          const hash = await repo.projectSecretHash(db, project);
+          if (!hash || typeof secret !== 'string' || !verifySecret(secret, hash)) return err(403, 'Forbidden');
+          await repo.joinProject(db, project, a.user.id);
+          const joined = await repo.projectRole(db, project, a.user.id);
+          return ok(200, JSON.stringify({ role: joined }), cors());
+        }
+
+        const no = denied(a, 'owner');
+        if (no) return no;
+
+        // у проекта всегда должен остаться хотя бы один владелец
+        if (action === 'set') {
+          if (!ROLES.includes(role)) return err(400, 'invalid role');
+          const mail = typeof email === 'string' ? email.trim().toLowerCase() : '';
+          const target = await repo.userByEmail(db, mail);
+          if (!target) return err(404, 'no user with this email');
+          if (role !== 'owner' && await repo.isLastOwner(db, project, target.id)) return err(400, 'project needs at least one owner');
+          await repo.setMember(db, project, target.id, role);
+          return ok(200, JSON.stringify({ member: { userId: target.id, email: target.email, name: target.name, role } }), cors());
+        }
+
+        if (action === 'remove') {
+          if (typeof userId !== 'string') return err(400, 'userId is required');
+          if (await repo.isLastOwner(db, project, userId)) return err(400, 'project needs at least one owner');
+          await repo.removeMember(db, project, userId);
+          return ok(200, JSON.stringify({ ok: true }), cors());
+        }
+
+        return err(400, 'Unknown action');
+      });
+    }
+
+    // ─────────────────────────────────────────────────────────────
+    // 4) CRUD в БД — всё в рамках ?project=
     // ─────────────────────────────────────────────────────────────
+    if (op === 'boards' && event.httpMethod === 'GET') {
+      return withDb(async db => {
+        const no = denied(await access(db, event, project), 'viewer');
+        if (no) return no;
+        return ok(200, JSON.stringify({ boards: await repo.listBoards(db, project) }), cors());
+      });
+    }
+
+    if (op === 'boards') {
+      const { action, id, name, type, from } = JSON.parse(event.body || '{}');
+      if (typeof id !== 'string' || !BOARD_ID_RE.test(id)) return err(400, 'invalid board id');
+      if ((action === 'create' || action === 'rename' || action === 'duplicate') && (typeof name !== 'string' || !name.trim())) {
+        return err(400, 'name is required');
+      }
+      if (action === 'create' && !BOARD_TYPES.includes(type)) return err(400, 'type must be mood or style');
+      if (action === 'duplicate' && (typeof from !== 'string' || !BOARD_ID_RE.test(from))) return err(400, 'from is required');
+
+      return withDb(async db => {
+        // доски правит editor, удаляет — только owner
+        const a = await access(db, event, project);
+        const no = denied(a, action === 'delete' ? 'owner' : 'editor');
+        if (no) return no;
+        const userId = a.user!.id;
+        let row: repo.Board | null = null;
+
+        if (action === 'create') {
+          row = await repo.createBoard(db, { id, name: name.trim(), type, project }, userId);
+          if (!row) return err(409, 'board id is taken');
+        } else if (action === 'rename') {
+          row = await repo.renameBoard(db, id, project, name.trim());
+          if (!row) return err(404, 'board not found');
+        } else if (action === 'duplicate') {
+          row = await tx(db, async () => {
+            const copy = await repo.duplicateBoard(db, from, { id, name: name.trim(), project }, userId);
+            if (!copy) throw new Rollback(null);
+            return copy;
+          });
+          if (!row) return err(404, 'board not found');
+        } else if (action === 'delete') {
+          if (!(await repo.boardInProject(db, id, project))) return err(404, 'board not found');
+          await tx(db, () => repo.deleteBoard(db, id));
+        } else {
+          return err(400, 'Unknown action');
+        }
+
+        return ok(200, JSON.stringify({ board: row }), cors());
+      });
+    }
+
     if (op === 'list') {
       const board = url.searchParams.get('board');
       if (!board) return err(400, 'board is required');
 
-      const db = new Client({ connectionString: DATABASE_URL, ssl: { rejectUnauthorized: false } });
-      await db.connect();
-      const q = await db.query(
-        `SELECT id, board, url, kind, gx, gy, gw, gh, approved, natw AS "natW", nath AS "natH", natr AS "natR"
-         FROM sb_items
-         WHERE board = $1
-         ORDER BY id`,
-        [board]
-      );
-      await db.end();
-      return ok(200, JSON.stringify({ items: q.rows }), cors());
+      return withDb(async db => {
+        const no = denied(await access(db, event, project), 'viewer', board);
+        if (no) return no;
+        const b = await repo.boardState(db, board, project);
+        const items = await repo.loadItems(db, board, project);
+        return ok(200, JSON.stringify({ items, rev: b?.rev ?? 0, schema: ITEMS_SCHEMA, settings: b?.settings ?? {} }), cors());
+      });
     }
 
-    if (op === 'clear') {
-      const pass = event.headers['x-pass'] || (event.body && JSON.parse(event.body||'{}').pass);
-      if (pass !== WRITE_PASSWORD) return err(401, 'Unauthorized');
+    // Настройки доски: пишет editor, поля сливаются с сохранёнными (камера приходит отдельно от холста)
+    if (op === 'settings' && event.httpMethod === 'POST') {
+      const { board, settings } = JSON.parse(event.body || '{}');
+      if (typeof board !== 'string' || !BOARD_ID_RE.test(board)) return err(400, 'invalid board id');
+      const clean = cleanSettings(settings);
+
+      return withDb(async db => {
+        const no = denied(await access(db, event, project), 'editor', board);
+        if (no) return no;
+        const merged = await repo.mergeSettings(db, board, project, clean);
+        if (!merged) return err(404, 'board not found in project');
+        return ok(200, JSON.stringify({ settings: merged }), cors());
+      });
+    }
+
+    // Живая синхронизация опросом: отмечаем себя на доске (с курсором), отдаём остальных
+    // и items — только если ревизия ушла дальше той, что у клиента (since)
+    if (op === 'poll' && event.httpMethod === 'POST') {
+      const { board, client, since, color, x, y } = JSON.parse(event.body || '{}');
+      if (!board) return err(400, 'board is required');
+      if (typeof client !== 'string' || !BOARD_ID_RE.test(client)) return err(400, 'invalid client id');
+
+      return withDb(async db => {
+        const a = await access(db, event, project);
+        const no = denied(a, 'viewer', board);
+        if (no) return no;
+        const b = await repo.boardState(db, board, project);
+        if (!b) return err(404, 'board not found in project');
+
+        await repo.touchPresence(db, board, {
+          client,
+          name: a.user ? a.user.name.slice(0, 40) : 'Guest',
+          color: typeof color === 'string' && COLOR_RE.test(color) ? color : '#a3a3a3',
+          x: num(x), y: num(y),
+        });
+        const peers = await repo.listPeers(db, board, client);
+        const items = since === b.rev ? undefined : await repo.loadItems(db, board, project);
+        // метка последнего изменения обсуждений — клиент перечитывает треды, только если она сдвинулась
+        const commentsAt = await repo.commentsAt(db, board);
+        return ok(200, JSON.stringify({ rev: b.rev, items, schema: ITEMS_SCHEMA, settings: b.settings, peers, commentsAt }), cors());
+      });
+    }
 
+    if (op === 'clear') {
       const board = url.searchParams.get('board'); // можно указать конкретный
-      const db = new Client({ connectionString: DATABASE_URL, ssl: { rejectUnauthorized: false } });
-      await db.connect();
-      if (board) {
-        await db.query(`DELETE FROM sb_items WHERE board = $1`, [board]);
-      } else {
-        await db.query(`TRUNCATE sb_items`);
-      }
-      await db.end();
-      return ok(200, JSON.stringify({ ok: true }), cors());
+      return withDb(async db => {
+        const a = await access(db, event, project);
+        const no = denied(a, 'owner');
+        if (no) return no;
+        // без board — чистим только доски текущего проекта, а не всю таблицу
+        await repo.clearBoards(db, project, board, a.user!.id);
+        return ok(200, JSON.stringify({ ok: true }), cors());
+      });
     }
 
     if (op === 'save') {
-      const pass = event.headers['x-pass'] || (event.body && JSON.parse(event.body||'{}').pass);
-      if (pass !== WRITE_PASSWORD) return err(401, 'Unauthorized');
-
-      const { board, items } = JSON.parse(event.body || '{}');
+      const { board, items, baseRev, force, schema } = JSON.parse(event.body || '{}');
       if (!board) return err(400, 'board is required');
       if (!Array.isArray(items)) return err(400, 'items must be an array');
+      const newer = newerSchema(schema);
+      if (newer) return newer;
+      if (force !== true && typeof baseRev !== 'number') return err(400, 'baseRev is required (or force: true)');
+      const invalid = saveErrors(items);
+      if (invalid.length) return invalidItems(invalid);
+
+      return withDb(async db => {
+        const a = await access(db, event, project);
+        const no = denied(a, 'editor');
+        if (no) return no;
+        const userId = a.user!.id;
+        const b = await repo.boardCanvas(db, board, project);
+        if (!b) return err(404, 'board not found in project');
+        const outside = canvasErrors(items.map((it: any, index: number) => ({ index, ...it })), b);
+        if (outside.length) return invalidItems(outside);
+        return tx(db, async () => {
+          const r = await repo.bumpRev(db, board, force === true ? null : baseRev, userId);
+          if (r.conflict) throw new Rollback(conflict(r.rev));
+          // items пишем под board из body; pos — индекс в массиве
+          const taken = await repo.replaceItems(db, board, items, userId);
+          if (taken.length) throw new Rollback(invalidItems(takenIdErrors(taken, i => items[i].id)));
+          await repo.takeSnapshot(db, board, project, r.rev, null, userId);
+          return ok(200, JSON.stringify({ ok: true, rev: r.rev }), cors());
+        });
+      });
+    }
+
+    // Точечные изменения: трогаем только изменённые строки, всё — одной транзакцией
+    if (op === 'patch') {
+      const { board, ops, baseRev, schema } = JSON.parse(event.body || '{}');
+      if (!board) return err(400, 'board is required');
+      if (!Array.isArray(ops)) return err(400, 'ops must be an array');
+      const newer = newerSchema(schema);
+      if (newer) return newer;
+      if (typeof baseRev !== 'number') return err(400, 'baseRev is required');
+      const bad = ops.findIndex((p: any) => !p || !PATCH_TYPES.includes(p.type));
+      if (bad >= 0) return err(400, `unknown patch op at ${bad}`);
+      const malformed = patchShapeErrors(ops);
+      if (malformed.length) return ok(400, JSON.stringify({ error: 'invalid ops', items: malformed }), cors());
+      const invalid = patchOpErrors(ops);
+      if (invalid.length) return invalidItems(invalid);
 
-      const db = new Client({ connectionString: DATABASE_URL, ssl: { rejectUnauthorized: false } });
-      await db.connect();
-      try {
-        await db.query('BEGIN');
-        await db.query(`DELETE FROM sb_items WHERE board = $1`, [board]);
-
-        // Вставляем, ПОДСТАВЛЯЯ board из body:
-        for (const it of items) {
-          await db.query(
-            `INSERT INTO sb_items
-               (id, board, url, kind, gx, gy, gw, gh, approved, natw, nath, natr)
-             VALUES
-               ($1, $2, $3,  $4,  $5, $6, $7, $8, COALESCE($9,false), $10, $11, $12)`,
-            [
-              it.id,
-              board,               // ← НЕ it.board!
-              it.url,
-              it.kind,
-              it.gx, it.gy, it.gw, it.gh,
-              it.approved ?? false,
-              it.natW ?? null, it.natH ?? null, it.natR ?? null,
-            ]
-          );
+      return withDb(async db => {
+        const a = await access(db, event, project);
+        const no = denied(a, 'editor');
+        if (no) return no;
+        const userId = a.user!.id;
+        const b = await repo.boardCanvas(db, board, project);
+        if (!b) return err(404, 'board not found in project');
+        const outside = canvasErrors((ops as PatchOp[]).flatMap((p, index) =>
+          p.type === 'upsert' ? [{ ...p.item, index }] : p.type === 'move' ? [{ ...p, index }] : []
+        ), b);
+        if (outside.length) return invalidItems(outside);
+        return tx(db, async () => {
+          const r = await repo.bumpRev(db, board, baseRev, userId);
+          if (r.conflict) throw new Rollback(conflict(r.rev));
+          const lost: number[] = [];
+          for (const [i, p] of (ops as PatchOp[]).entries()) if (!(await repo.applyPatchOp(db, board, p, userId))) lost.push(i);
+          if (lost.length) throw new Rollback(invalidItems(lostOpErrors(ops, lost)));
+          // наезды видны только на итоговой доске: проверяем внутри транзакции и откатываем
+          const touched = new Set((ops as PatchOp[]).flatMap(p => p.type === 'upsert' ? [p.item.id] : p.type === 'move' ? [p.id] : []));
+          if (touched.size) {
+            const rects: Rect[] = await repo.itemRects(db, board);
+            const opIndex = (id: string) => (ops as PatchOp[]).findIndex(p => (p.type === 'upsert' ? p.item.id : p.type === 'move' ? p.id : null) === id);
+            const overlaps = overlapErrors(rects, opIndex, touched);
+            if (overlaps.length) throw new Rollback(invalidItems(overlaps));
+          }
+          await repo.takeSnapshot(db, board, project, r.rev, null, userId);
+          return ok(200, JSON.stringify({ ok: true, applied: ops.length, rev: r.rev }), cors());
+        });
+      });
+    }
+
+    // История версий: список (без items), один снимок целиком (?id=) или новый именованный (POST)
+    if (op === 'snapshots') {
+      return withDb(async db => {
+        const a = await access(db, event, project);
+        if (event.httpMethod === 'GET') {
+          const board = url.searchParams.get('board');
+          const id = url.searchParams.get('id');
+          if (!board) return err(400, 'board is required');
+          const no = denied(a, 'viewer');
+          if (no) return no;
+          if (!(await repo.boardInProject(db, board, project))) return err(404, 'board not found in project');
+          if (id) {
+            const snapshot = await repo.getSnapshot(db, id, board);
+            if (!snapshot) return err(404, 'snapshot not found');
+            return ok(200, JSON.stringify({ snapshot }), cors());
+          }
+          return ok(200, JSON.stringify({ snapshots: await repo.listSnapshots(db, board) }), cors());
         }
 
-        await db.query('COMMIT');
-      } catch (e) {
-        await db.query('ROLLBACK');
-        await db.end();
-        return err(500, 'db error: ' + (e as Error).message);
-      }
-      await db.end();
-      return ok(200, JSON.stringify({ ok: true }), cors());
+        const { board, name } = JSON.parse(event.body || '{}');
+        if (!board) return err(400, 'board is required');
+        if (typeof name !== 'string' || !name.trim()) return err(400, 'name is required');
+        const no = denied(a, 'editor');
+        if (no) return no;
+        if (!(await repo.boardInProject(db, board, project))) return err(404, 'board not found in project');
+        const snapshot = await repo.nameSnapshot(db, board, project, name.trim().slice(0, 120), a.user!.id);
+        return ok(200, JSON.stringify({ snapshot }), cors());
+      });
+    }
+
+    // Откат к снимку — обычная запись (новая ревизия + автоснимок), так что и её можно откатить
+    if (op === 'restore' && event.httpMethod === 'POST') {
+      const { board, id } = JSON.parse(event.body || '{}');
+      if (!board) return err(400, 'board is required');
+      if (typeof id !== 'string' || !id) return err(400, 'id is required');
+
+      return withDb(async db => {
+        const a = await access(db, event, project);
+        const no = denied(a, 'editor');
+        if (no) return no;
+        const userId = a.user!.id;
+        const b = await repo.boardCanvas(db, board, project);
+        if (!b) return err(404, 'board not found in project');
+        return tx(db, async () => {
+          const snap = await repo.getSnapshot(db, id, board);
+          if (!snap) throw new Rollback(err(404, 'snapshot not found'));
+          // снимок пишется как обычный save: старые данные могли не пройти нынешних правил (или холст с тех пор другой)
+          const invalid = saveErrors(snap.items);
+          const outside = invalid.length ? [] : canvasErrors(snap.items.map((it, index) => ({ index, ...it })), b);
+          if (invalid.length || outside.length) throw new Rollback(invalidItems(invalid.length ? invalid : outside));
+          const rev = (await repo.bumpRev(db, board, null, userId)).rev;
+          const taken = await repo.replaceItems(db, board, snap.items, userId);
+          if (taken.length) throw new Rollback(invalidItems(takenIdErrors(taken, i => snap.items[i].id)));
+          await repo.takeSnapshot(db, board, project, rev, null, userId);
+          const items = await repo.loadItems(db, board, project);
+          return ok(200, JSON.stringify({ ok: true, rev, items, schema: ITEMS_SCHEMA }), cors());
+        });
+      });
+    }
+
+    // Обсуждения доски: GET — все треды; POST create { item, px?, py?, body } / reply { thread, body } /
+    // resolve | unresolve { thread } — commenter и выше (и гость по ссылке с comment)
+    if (op === 'comments') {
+      return withDb(async db => {
+        const a = await access(db, event, project);
+
+        if (event.httpMethod === 'GET') {
+          const board = url.searchParams.get('board');
+          if (!board) return err(400, 'board is required');
+          const no = denied(a, 'viewer', board);
+          if (no) return no;
+          if (!(await repo.boardInProject(db, board, project))) return err(404, 'board not found in project');
+          return ok(200, JSON.stringify({ threads: await repo.loadThreads(db, board) }), cors());
+        }
+
+        const { action, board, item, px, py, thread, body } = JSON.parse(event.body || '{}');
+        if (!board) return err(400, 'board is required');
+        const no = denied(a, 'commenter', board);
+        if (no) return no;
+        if (!(await repo.boardInProject(db, board, project))) return err(404, 'board not found in project');
+        const text = typeof body === 'string' ? body.trim() : '';
+        const author = { id: a.user?.id ?? null, name: a.user ? a.user.name : 'Guest' };
+
+        if (action === 'create') {
+          if (!text) return err(400, 'body is required');
+          if (text.length > COMMENT_MAX) return err(400, 'comment is too long');
+          if (!(await repo.itemExists(db, item, board))) return err(404, 'item not found');
+          // пин — только парой координат
+          const x = frac(px), y = frac(py);
+          const pin = x != null && y != null ? { x, y } : null;
+          await tx(db, () => repo.createThread(db, board, item, pin, text, author));
+        } else if (action === 'reply' || action === 'resolve' || action === 'unresolve') {
+          if (!(await repo.threadExists(db, thread, board))) return err(404, 'thread not found');
+          if (action === 'reply') {
+            if (!text) return err(400, 'body is required');
+            if (text.length > COMMENT_MAX) return err(400, 'comment is too long');
+            await tx(db, () => repo.addComment(db, thread, text, author));
+          } else {
+            await repo.setThreadResolved(db, thread, action === 'resolve', author.id);
+          }
+        } else {
+          return err(400, 'Unknown action');
+        }
+
+        return ok(200, JSON.stringify({ threads: await repo.loadThreads(db, board) }), cors());
+      });
+    }
+
+    // Что открывает ссылка из X-Share: доска, проект и права — клиент по этому собирает режим показа
+    if (op === 'share' && event.httpMethod === 'GET') {
+      return withDb(async db => {
+        const s = await findShare(db, pickHeader(event.headers, 'x-share') || '');
+        const board = s ? await repo.getBoard(db, s.board, s.project) : null;
+        if (!s || !board) return err(404, 'share link is invalid or expired');
+        return ok(200, JSON.stringify({ share: { project: s.project, scope: s.scope, expiresAt: s.expiresAt, board } }), cors());
+      });
+    }
+
+    // Ссылки на доску: список действующих, create { board, scope, expiresAt? }, revoke { id } — editor
+    if (op === 'shares') {
+      return withDb(async db => {
+        const a = await access(db, event, project);
+        const no = denied(a, 'editor');
+        if (no) return no;
+
+        if (event.httpMethod === 'GET') {
+          const board = url.searchParams.get('board');
+          if (!board) return err(400, 'board is required');
+          return ok(200, JSON.stringify({ shares: await repo.listShares(db, board, project) }), cors());
+        }
+
+        const { action, board, scope, expiresAt, id } = JSON.parse(event.body || '{}');
+        if (action === 'create') {
+          if (!board) return err(400, 'board is required');
+          if (!SHARE_SCOPES.includes(scope)) return err(400, 'scope must be view or comment');
+          if (expiresAt != null && (typeof expiresAt !== 'number' || expiresAt <= Date.now())) return err(400, 'expiresAt must be in the future');
+          if (!(await repo.boardInProject(db, board, project))) return err(404, 'board not found in project');
+          const share = await repo.createShare(db, randomBytes(18).toString('base64url'), { board, project, scope, expiresAt: expiresAt ?? null }, a.user!.id);
+          return ok(200, JSON.stringify({ share }), cors());
+        }
+        if (action === 'revoke') {
+          if (typeof id !== 'string' || !id) return err(400, 'id is required');
+          if (!(await repo.revokeShare(db, id, project))) return err(404, 'share not found');
+          return ok(200, JSON.stringify({ ok: true }), cors());
+        }
+        return err(400, 'Unknown action');
+      });
     }
 
     return err(400, 'Unknown op');
@@ -174,7 +838,7 @@ export const handler: Handler = async (event) => {
 };
 
 function cors() {
-  return { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'Content-Type, x-pass', 'Access-Control-Allow-Methods': 'GET,POST,OPTIONS' };
+  return { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Share', 'Access-Control-Allow-Methods': 'GET,POST,OPTIONS' };
 }
 function ok(status: number, body = '', headers: Record<string,string> = {}) { return { statusCode: status, headers: { 'Content-Type': 'application/json', ...headers }, body }; }
 function err(status: number, msg: string) { return ok(status, JSON.stringify({ error: msg }), cors()); }
@@ -0,0 +1,69 @@
+// netlify/lib/db.ts
+// Соединения с Postgres: один пул на процесс функции — тёплые вызовы берут готовые соединения,
+// а не открывают новое на каждый запрос. Локальный Postgres (localhost или ?sslmode=disable
+// в DATABASE_URL) — без SSL, так функцию можно гонять против своей базы.
+import { Pool } from 'pg';
+import type { ClientBase } from 'pg';
+
+// всё, что нужно репозиторию: соединение из пула, отдельный Client в тестах — подходит любой
+export type Db = ClientBase;
+
+function sslFor(url: string) {
+  try {
+    const u = new URL(url);
+    if (u.searchParams.get('sslmode') === 'disable' || ['localhost', '127.0.0.1', '[::1]'].includes(u.hostname)) return false;
+  } catch {}
+  return { rejectUnauthorized: false };
+}
+
+let shared: Pool | null = null;
+
+export function pool() {
+  if (!shared) {
+    const url = process.env.DATABASE_URL!;
+    shared = new Pool({
+      connectionString: url,
+      ssl: sslFor(url),
+      // функций одновременно много, а соединений у Postgres мало — держим по чуть-чуть на процесс
+      max: Number(process.env.PG_POOL_MAX) || 3,
+      idleTimeoutMillis: 10_000,
+    });
+    // простаивающее соединение оборвалось (рестарт БД) — пул выкинет его сам, процесс не роняем
+    shared.on('error', (e: Error) => console.warn('[db] idle client error', e.message));
+  }
+  return shared;
+}
+
+// подменить пул (тесты против локальной базы); null — снова из DATABASE_URL
+export function setPool(p: Pool | null) {
+  shared = p;
+}
+
+// соединение на время fn; возвращается в пул при любом исходе
+export async function connect<T>(fn: (db: Db) => Promise<T>): Promise<T> {
+  const c = await pool().connect();
+  try {
+    return await fn(c);
+  } finally {
+    c.release();
+  }
+}
+
+// Результат, с которым транзакцию надо откатить (конфликт ревизии, 404 посреди записи):
+// throw new Rollback(x) внутри tx — и tx вернёт x
+export class Rollback<T> {
+  constructor(readonly result: T) {}
+}
+
+export async function tx<T>(db: Db, fn: () => Promise<T>): Promise<T> {
+  await db.query('BEGIN');
+  try {
+    const result = await fn();
+    await db.query('COMMIT');
+    return result;
+  } catch (e) {
+    await db.query('ROLLBACK').catch(() => {});
+    if (e instanceof Rollback) return e.result as T;
+    throw e;
+  }
+}
@@ -0,0 +1,788 @@
+// netlify/lib/repo.ts
+// Доступ к данным: весь SQL функции api.ts живёт здесь. Каждая функция принимает соединение
+// (транзакцию открывает вызывающий через tx из ./db) и отдаёт уже клиентские объекты —
+// строки таблиц (snake_case) переводятся в форму API типизированными мапперами.
+import type { Db } from './db';
+
+export type BoardType = 'mood' | 'style';
+
+// роли участника проекта по возрастанию прав: viewer читает, commenter — как viewer
+// (плюс обсуждение), editor пишет доски, owner ещё управляет участниками и проектом
+export type Role = 'viewer' | 'commenter' | 'editor' | 'owner';
+export const ROLES: Role[] = ['viewer', 'commenter', 'editor', 'owner'];
+
+// ссылка-приглашение на одну доску: view — только смотреть, comment — ещё и обсуждать
+export type ShareScope = 'view' | 'comment';
+
+export type ApprovalStatus = 'proposed' | 'review' | 'approved' | 'rejected';
+export const APPROVAL_STATUSES: ApprovalStatus[] = ['proposed', 'review', 'approved', 'rejected'];
+// старые клиенты и снимки присылают только approved
+export const itemStatus = (it: any): ApprovalStatus => APPROVAL_STATUSES.includes(it.status) ? it.status : it.approved ? 'approved' : 'proposed';
+
+// версия формы айтемов (клиентский SCHEMA_VERSION): 1 — флаг approved, 2 — статус согласования.
+// loadItems всегда отдаёт текущую; старые снимки помечены своей, клиент поднимает их миграциями
+export const ITEMS_SCHEMA = 2;
+
+// проект, в который попали все доски до появления проектов; его владелец — первый зарегистрированный
+export const DEFAULT_PROJECT = 'default';
+
+// автоснимков храним столько последних на доску; именованные не удаляются
+const AUTO_SNAPSHOTS_KEEP = 100;
+const PRESENCE_TTL = `interval '10 seconds'`;
+
+export function cryptoRandom() {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `id_${Date.now().toString(36)}_${Math.random().toString(36).slice(2)}`;
+}
+
+// timestamptz приходит Date; клиенту — миллисекунды
+const ms = (d: Date | null) => (d ? d.getTime() : null);
+
+// Таблицы создаются лениво; на пустой sb_boards заводим две исторические доски,
+// чтобы старые строки sb_items (board = 'moodboard' | 'styleboard') остались видны
+// (один раз на процесс: пул переживает вызовы)
+let schemaReady: Promise<void> | null = null;
+export function ensureSchema(db: Db) {
+  // не вышло (БД недоступна) — следующий запрос попробует заново
+  schemaReady ??= createSchema(db).catch(e => { schemaReady = null; throw e; });
+  return schemaReady;
+}
+
+async function createSchema(db: Db) {
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS sb_projects (
+       id text PRIMARY KEY,
+       name text NOT NULL,
+       secret_hash text,
+       archived boolean NOT NULL DEFAULT false,
+       created_at timestamptz NOT NULL DEFAULT now()
+     )`
+  );
+  await db.query(`INSERT INTO sb_projects (id, name) VALUES ($1, 'Default') ON CONFLICT (id) DO NOTHING`, [DEFAULT_PROJECT]);
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS sb_users (
+       id text PRIMARY KEY,
+       email text NOT NULL UNIQUE,
+       name text NOT NULL,
+       pass_hash text NOT NULL,
+       created_at timestamptz NOT NULL DEFAULT now()
+     )`
+  );
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS sb_members (
+       project text NOT NULL REFERENCES sb_projects(id),
+       user_id text NOT NULL REFERENCES sb_users(id),
+       role text NOT NULL CHECK (role IN ('viewer', 'commenter', 'editor', 'owner')),
+       PRIMARY KEY (project, user_id)
+     )`
+  );
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS sb_boards (
+       id text PRIMARY KEY,
+       name text NOT NULL,
+       type text NOT NULL CHECK (type IN ('mood', 'style')),
+       created_at timestamptz NOT NULL DEFAULT now()
+     )`
+  );
+  await db.query(`ALTER TABLE sb_boards ADD COLUMN IF NOT EXISTS project text NOT NULL DEFAULT 'default' REFERENCES sb_projects(id)`);
+  // rev — ревизия доски: растёт на каждой записи, по ней ловим запись поверх чужих правок
+  await db.query(`ALTER TABLE sb_boards ADD COLUMN IF NOT EXISTS rev integer NOT NULL DEFAULT 0`);
+  // кто и когда последним писал доску
+  await db.query(`ALTER TABLE sb_boards ADD COLUMN IF NOT EXISTS updated_by text`);
+  await db.query(`ALTER TABLE sb_boards ADD COLUMN IF NOT EXISTS updated_at timestamptz`);
+  // версия схемы, в которой доску записали последний раз
+  await db.query(`ALTER TABLE sb_boards ADD COLUMN IF NOT EXISTS schema integer NOT NULL DEFAULT 1`);
+  // настройки доски (холст, интенсивность, seed и режим раскладки Moodboard) — вне ревизии: не конфликтуют с items
+  await db.query(`ALTER TABLE sb_boards ADD COLUMN IF NOT EXISTS settings jsonb NOT NULL DEFAULT '{}'::jsonb`);
+  // камера раньше писалась сюда же и у всех участников перебивала друг друга; теперь она только в localStorage
+  await db.query(`UPDATE sb_boards SET settings = settings - 'camera' WHERE settings ? 'camera'`);
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS sb_items (
+       id text NOT NULL,
+       board text NOT NULL,
+       url text NOT NULL,
+       kind text NOT NULL,
+       gx integer NOT NULL, gy integer NOT NULL, gw integer NOT NULL, gh integer NOT NULL,
+       approved boolean NOT NULL DEFAULT false,
+       natw double precision, nath double precision, natr double precision
+     )`
+  );
+  // pos — порядок айтемов в доске (раньше порядок давал ORDER BY id); уникальный id нужен для upsert в op=patch
+  await db.query(`ALTER TABLE sb_items ADD COLUMN IF NOT EXISTS pos integer NOT NULL DEFAULT 0`);
+  const idx = await db.query<{ name: string | null }>(`SELECT to_regclass('sb_items_id_uniq')::text AS name`);
+  if (!idx.rows[0]?.name) await dedupeItemIds(db);
+  await db.query(`CREATE UNIQUE INDEX IF NOT EXISTS sb_items_id_uniq ON sb_items (id)`);
+  await db.query(`CREATE INDEX IF NOT EXISTS sb_items_board_idx ON sb_items (board, pos)`);
+  await db.query(`ALTER TABLE sb_items ADD COLUMN IF NOT EXISTS updated_by text`);
+  // статус согласования вместо флага approved (флаг держим в синхроне для старых клиентов)
+  await db.query(`ALTER TABLE sb_items ADD COLUMN IF NOT EXISTS status text`);
+  await db.query(`ALTER TABLE sb_items ADD COLUMN IF NOT EXISTS status_note text`);
+  await db.query(`ALTER TABLE sb_items ADD COLUMN IF NOT EXISTS status_by text`);
+  await db.query(`ALTER TABLE sb_items ADD COLUMN IF NOT EXISTS status_at timestamptz`);
+  await db.query(`UPDATE sb_items SET status = CASE WHEN approved THEN 'approved' ELSE 'proposed' END WHERE status IS NULL`);
+  // снимок сайта (iframe в canvas не нарисовать) — для экспорта доски
+  await db.query(`ALTER TABLE sb_items ADD COLUMN IF NOT EXISTS thumb text`);
+  // закреплённый тайл: клиентские раскладки его не двигают
+  await db.query(`ALTER TABLE sb_items ADD COLUMN IF NOT EXISTS locked boolean NOT NULL DEFAULT false`);
+  // кто сейчас на доске: строка на вкладку, живёт, пока вкладка опрашивает op=poll
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS sb_presence (
+       board text NOT NULL,
+       client text NOT NULL,
+       name text NOT NULL,
+       color text NOT NULL,
+       x double precision, y double precision,
+       seen_at timestamptz NOT NULL DEFAULT now(),
+       PRIMARY KEY (board, client)
+     )`
+  );
+  // версии доски: авто — после каждой записи, именованные — вручную
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS sb_snapshots (
+       id text PRIMARY KEY,
+       board text NOT NULL,
+       name text,
+       auto boolean NOT NULL DEFAULT true,
+       rev integer NOT NULL,
+       items jsonb NOT NULL,
+       created_at timestamptz NOT NULL DEFAULT now()
+     )`
+  );
+  await db.query(`CREATE INDEX IF NOT EXISTS sb_snapshots_board_idx ON sb_snapshots (board, created_at DESC)`);
+  await db.query(`ALTER TABLE sb_snapshots ADD COLUMN IF NOT EXISTS created_by text`);
+  // снимки до статусов хранят айтемы с одним approved — отсюда DEFAULT 1
+  await db.query(`ALTER TABLE sb_snapshots ADD COLUMN IF NOT EXISTS schema integer NOT NULL DEFAULT 1`);
+  // id ссылки и есть её токен; отзыв — флаг, чтобы в списке было видно, кто и когда делился
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS sb_shares (
+       id text PRIMARY KEY,
+       board text NOT NULL,
+       project text NOT NULL,
+       scope text NOT NULL CHECK (scope IN ('view', 'comment')),
+       expires_at timestamptz,
+       revoked boolean NOT NULL DEFAULT false,
+       created_by text,
+       created_at timestamptz NOT NULL DEFAULT now()
+     )`
+  );
+  await db.query(`CREATE INDEX IF NOT EXISTS sb_shares_board_idx ON sb_shares (board)`);
+  // обсуждения: тред на весь айтем (px/py = null) или на точку в нём (доли ширины/высоты тайла — переживают ресайз)
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS sb_threads (
+       id text PRIMARY KEY,
+       board text NOT NULL,
+       item text NOT NULL,
+       px double precision,
+       py double precision,
+       resolved boolean NOT NULL DEFAULT false,
+       resolved_by text,
+       created_by text,
+       created_at timestamptz NOT NULL DEFAULT now(),
+       updated_at timestamptz NOT NULL DEFAULT now()
+     )`
+  );
+  await db.query(`CREATE INDEX IF NOT EXISTS sb_threads_board_idx ON sb_threads (board)`);
+  // author_id = null — гость по ссылке с правом комментировать
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS sb_comments (
+       id text PRIMARY KEY,
+       thread text NOT NULL,
+       body text NOT NULL,
+       author_id text,
+       author_name text NOT NULL,
+       created_at timestamptz NOT NULL DEFAULT now()
+     )`
+  );
+  await db.query(`CREATE INDEX IF NOT EXISTS sb_comments_thread_idx ON sb_comments (thread, created_at)`);
+  await db.query(
+    `INSERT INTO sb_boards (id, name, type)
+     SELECT * FROM (VALUES ('moodboard', 'Moodboard', 'mood'), ('styleboard', 'Styleboard', 'style')) AS d(id, name, type)
+     WHERE NOT EXISTS (SELECT 1 FROM sb_boards)`
+  );
+}
+
+// Старые записи (delete-all-and-reinsert) могли оставить один id в нескольких строках — уникальный индекс
+// на них не создастся, и каждый запрос падал бы на ensureSchema. Первая строка (по доске и pos) id сохраняет,
+// остальным — новый; зовём один раз, пока индекса нет
+export async function dedupeItemIds(db: Db) {
+  await db.query(
+    `UPDATE sb_items SET id = id || '-' || substr(md5(random()::text), 1, 8)
+     WHERE ctid IN (SELECT ctid FROM (SELECT ctid, row_number() OVER (PARTITION BY id ORDER BY board, pos) AS n FROM sb_items) d WHERE n > 1)`
+  );
+}
+
+// ——— пользователи ———
+export type AuthUser = { id: string; email: string; name: string };
+
+export async function userById(db: Db, id: string): Promise<AuthUser | null> {
+  const q = await db.query<AuthUser>(`SELECT id, email, name FROM sb_users WHERE id = $1`, [id]);
+  return q.rows[0] ?? null;
+}
+
+type UserRow = { id: string; email: string; name: string; pass_hash: string };
+export async function userByEmail(db: Db, email: string): Promise<(AuthUser & { passHash: string }) | null> {
+  const r = (await db.query<UserRow>(`SELECT id, email, name, pass_hash FROM sb_users WHERE email = $1`, [email])).rows[0];
+  return r ? { id: r.id, email: r.email, name: r.name, passHash: r.pass_hash } : null;
+}
+
+// null — email уже занят
+export async function createUser(db: Db, email: string, name: string, passHash: string): Promise<AuthUser | null> {
+  const q = await db.query<AuthUser>(
+    `INSERT INTO sb_users (id, email, name, pass_hash) VALUES ($1, $2, $3, $4) ON CONFLICT (email) DO NOTHING RETURNING id, email, name`,
+    [cryptoRandom(), email, name, passHash]
+  );
+  return q.rows[0] ?? null;
+}
+
+// ——— проекты и участники ———
+type ProjectRow = { id: string; name: string; archived: boolean; created_at: Date };
+export type Project = { id: string; name: string; archived: boolean; createdAt: number | null; role?: Role };
+const PROJECT_COLS = `p.id, p.name, p.archived, p.created_at`;
+const toProject = (r: ProjectRow): Project => ({ id: r.id, name: r.name, archived: r.archived, createdAt: ms(r.created_at) });
+
+// видны только проекты, где пользователь участник
+export async function listProjects(db: Db, userId: string, withArchived: boolean): Promise<Project[]> {
+  const q = await db.query<ProjectRow & { role: Role }>(
+    `SELECT ${PROJECT_COLS}, m.role FROM sb_projects p JOIN sb_members m ON m.project = p.id AND m.user_id = $2
+     WHERE $1 OR NOT p.archived ORDER BY p.created_at, p.id`,
+    [withArchived, userId]
+  );
+  return q.rows.map(r => ({ ...toProject(r), role: r.role }));
+}
+
+// null — id занят. Пустой проект сразу получает пару досок, как default
+export async function createProject(db: Db, id: string, name: string, ownerId: string): Promise<Project | null> {
+  const r = (await db.query<ProjectRow>(
+    `INSERT INTO sb_projects AS p (id, name) VALUES ($1, $2) ON CONFLICT (id) DO NOTHING RETURNING ${PROJECT_COLS}`,
+    [id, name]
+  )).rows[0];
+  if (!r) return null;
+  await db.query(`INSERT INTO sb_members (project, user_id, role) VALUES ($1, $2, 'owner')`, [id, ownerId]);
+  await db.query(
+    `INSERT INTO sb_boards (id, name, type, project) VALUES ($1, 'Moodboard', 'mood', $3), ($2, 'Styleboard', 'style', $3)`,
+    [cryptoRandom(), cryptoRandom(), id]
+  );
+  return { ...toProject(r), role: 'owner' };
+}
+
+export async function setProjectArchived(db: Db, id: string, archived: boolean): Promise<Project | null> {
+  const r = (await db.query<ProjectRow>(
+    `UPDATE sb_projects AS p SET archived = $2 WHERE p.id = $1 RETURNING ${PROJECT_COLS}`,
+    [id, archived]
+  )).rows[0];
+  return r ? toProject(r) : null;
+}
+
+// хэш секрета проекта (проекты, заведённые до аккаунтов); архивный — как будто секрета нет
+export async function projectSecretHash(db: Db, id: string): Promise<string | null> {
+  const q = await db.query<{ secret_hash: string | null }>(`SELECT secret_hash FROM sb_projects WHERE id = $1 AND NOT archived`, [id]);
+  return q.rows[0]?.secret_hash ?? null;
+}
+
+export async function projectRole(db: Db, project: string, userId: string, withArchived = false): Promise<Role | null> {
+  const q = await db.query<{ role: Role }>(
+    `SELECT m.role FROM sb_members m JOIN sb_projects p ON p.id = m.project
+     WHERE m.project = $1 AND m.user_id = $2 AND ($3 OR NOT p.archived)`,
+    [project, userId, withArchived]
+  );
+  return q.rows[0]?.role ?? null;
+}
+
+export type Member = { userId: string; email: string; name: string; role: Role };
+
+export async function listMembers(db: Db, project: string): Promise<Member[]> {
+  const q = await db.query<{ user_id: string; email: string; name: string; role: Role }>(
+    `SELECT m.user_id, u.email, u.name, m.role FROM sb_members m JOIN sb_users u ON u.id = m.user_id
+     WHERE m.project = $1 ORDER BY u.name, u.email`,
+    [project]
+  );
+  return q.rows.map(r => ({ userId: r.user_id, email: r.email, name: r.name, role: r.role }));
+}
+
+// первый зарегистрированный становится владельцем проекта (default) — иначе старые доски некому открыть
+export async function claimOwnerIfNone(db: Db, project: string, userId: string) {
+  await db.query(
+    `INSERT INTO sb_members (project, user_id, role)
+     SELECT $1, $2, 'owner' WHERE NOT EXISTS (SELECT 1 FROM sb_members WHERE project = $1 AND role = 'owner')`,
+    [project, userId]
+  );
+}
+
+// вход по секрету: editor, либо owner, если владельца ещё нет; уже участник — роль не меняем
+export async function joinProject(db: Db, project: string, userId: string) {
+  await db.query(
+    `INSERT INTO sb_members (project, user_id, role)
+     SELECT $1, $2, CASE WHEN EXISTS (SELECT 1 FROM sb_members WHERE project = $1 AND role = 'owner') THEN 'editor' ELSE 'owner' END
+     ON CONFLICT (project, user_id) DO NOTHING`,
+    [project, userId]
+  );
+}
+
+// userId — единственный владелец проекта
+export async function isLastOwner(db: Db, project: string, userId: string) {
+  const q = await db.query<{ only: boolean | null }>(
+    `SELECT bool_and(user_id = $2) AS only FROM sb_members WHERE project = $1 AND role = 'owner'`,
+    [project, userId]
+  );
+  return q.rows[0]?.only === true;
+}
+
+export async function setMember(db: Db, project: string, userId: string, role: Role) {
+  await db.query(
+    `INSERT INTO sb_members (project, user_id, role) VALUES ($1, $2, $3)
+     ON CONFLICT (project, user_id) DO UPDATE SET role = EXCLUDED.role`,
+    [project, userId, role]
+  );
+}
+
+export async function removeMember(db: Db, project: string, userId: string) {
+  await db.query(`DELETE FROM sb_members WHERE project = $1 AND user_id = $2`, [project, userId]);
+}
+
+// ——— доски ———
+type BoardRow = { id: string; name: string; type: BoardType; created_at: Date };
+export type Board = { id: string; name: string; type: BoardType; createdAt: number | null };
+const BOARD_COLS = `id, name, type, created_at`;
+const toBoard = (r: BoardRow): Board => ({ id: r.id, name: r.name, type: r.type, createdAt: ms(r.created_at) });
+
+// настройки доски (холст, интенсивность shuffle, раскладка) — вне ревизии: не конфликтуют с items; камера — только у клиента
+export type MoodLayout = { mode: 'auto' | 'rows' | 'cols' | 'combo'; keepAspect: boolean; columnBias: number };
+export type BoardSettings = { canvas?: { w: number; h: number }; intensity?: number; seed?: number; layout?: MoodLayout; alternatives?: { seed: number; intensity: number; layout?: MoodLayout }[] };
+
+export async function listBoards(db: Db, project: string): Promise<Board[]> {
+  const q = await db.query<BoardRow>(`SELECT ${BOARD_COLS} FROM sb_boards WHERE project = $1 ORDER BY created_at, id`, [project]);
+  return q.rows.map(toBoard);
+}
+
+export async function getBoard(db: Db, id: string, project: string): Promise<Board | null> {
+  const r = (await db.query<BoardRow>(`SELECT ${BOARD_COLS} FROM sb_boards WHERE id = $1 AND project = $2`, [id, project])).rows[0];
+  return r ? toBoard(r) : null;
+}
+
+// доска должна принадлежать проекту из запроса — иначе можно писать в чужие доски
+export async function boardInProject(db: Db, board: string, project: string) {
+  const q = await db.query(`SELECT 1 FROM sb_boards WHERE id = $1 AND project = $2`, [board, project]);
+  return q.rows.length > 0;
+}
+
+// ревизия и настройки; null — доски нет в проекте
+export async function boardState(db: Db, board: string, project: string): Promise<{ rev: number; settings: BoardSettings } | null> {
+  const q = await db.query<{ rev: number; settings: BoardSettings }>(`SELECT rev, settings FROM sb_boards WHERE id = $1 AND project = $2`, [board, project]);
+  return q.rows[0] ?? null;
+}
+
+// тип и сохранённый холст — по ним проверяются границы айтемов; null — доски нет в проекте
+export async function boardCanvas(db: Db, board: string, project: string): Promise<{ type: BoardType; canvas: { w: number; h: number } | null } | null> {
+  const q = await db.query<{ type: BoardType; canvas: { w: number; h: number } | null }>(
+    `SELECT type, settings->'canvas' AS canvas FROM sb_boards WHERE id = $1 AND project = $2`, [board, project]
+  );
+  return q.rows[0] ?? null;
+}
+
+// идемпотентно: клиент может создать доску офлайн и досоздать её при первой записи.
+// null — id занят доской другого проекта
+export async function createBoard(db: Db, b: { id: string; name: string; type: BoardType; project: string }, userId: string) {
+  await db.query(
+    `INSERT INTO sb_boards (id, name, type, project, updated_by) VALUES ($1, $2, $3, $4, $5) ON CONFLICT (id) DO NOTHING`,
+    [b.id, b.name, b.type, b.project, userId]
+  );
+  return getBoard(db, b.id, b.project);
+}
+
+export async function renameBoard(db: Db, id: string, project: string, name: string): Promise<Board | null> {
+  const r = (await db.query<BoardRow>(`UPDATE sb_boards SET name = $2 WHERE id = $1 AND project = $3 RETURNING ${BOARD_COLS}`, [id, name, project])).rows[0];
+  return r ? toBoard(r) : null;
+}
+
+// копия доски с айтемами и настройками (вызывать внутри транзакции); id айтемов глобальные — копиям выдаём новые
+export async function duplicateBoard(db: Db, from: string, to: { id: string; name: string; project: string }, userId: string): Promise<Board | null> {
+  const r = (await db.query<BoardRow>(
+    `INSERT INTO sb_boards (id, name, type, project, updated_by, settings) SELECT $1, $2, type, project, $5, settings FROM sb_boards WHERE id = $3 AND project = $4 RETURNING ${BOARD_COLS}`,
+    [to.id, to.name, from, to.project, userId]
+  )).rows[0];
+  if (!r) return null;
+  const src = await db.query(
+    `SELECT url, kind, gx, gy, gw, gh, approved, natw, nath, natr, pos, status, status_note, status_by, status_at, thumb, locked FROM sb_items WHERE board = $1 ORDER BY pos, id`,
+    [from]
+  );
+  for (const it of src.rows) {
+    await db.query(
+      `INSERT INTO sb_items (id, board, url, kind, gx, gy, gw, gh, approved, natw, nath, natr, pos, updated_by, status, status_note, status_by, status_at, thumb, locked)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)`,
+      [cryptoRandom(), to.id, it.url, it.kind, it.gx, it.gy, it.gw, it.gh, it.approved, it.natw, it.nath, it.natr, it.pos, userId, it.status, it.status_note, it.status_by, it.status_at, it.thumb, it.locked]
+    );
+  }
+  return toBoard(r);
+}
+
+// доска со всем, что к ней привязано (внутри транзакции)
+export async function deleteBoard(db: Db, id: string) {
+  await db.query(`DELETE FROM sb_items WHERE board = $1`, [id]);
+  await db.query(`DELETE FROM sb_presence WHERE board = $1`, [id]);
+  await db.query(`DELETE FROM sb_snapshots WHERE board = $1`, [id]);
+  await db.query(`DELETE FROM sb_shares WHERE board = $1`, [id]);
+  await db.query(`DELETE FROM sb_comments WHERE thread IN (SELECT id FROM sb_threads WHERE board = $1)`, [id]);
+  await db.query(`DELETE FROM sb_threads WHERE board = $1`, [id]);
+  await db.query(`DELETE FROM sb_boards WHERE id = $1`, [id]);
+}
+
+// поля сливаются с сохранёнными (камера приходит отдельно от холста); null — доски нет в проекте
+export async function mergeSettings(db: Db, board: string, project: string, settings: BoardSettings): Promise<BoardSettings | null> {
+  const q = await db.query<{ settings: BoardSettings }>(
+    `UPDATE sb_boards SET settings = settings || $3::jsonb WHERE id = $1 AND project = $2 RETURNING settings`,
+    [board, project, JSON.stringify(settings)]
+  );
+  return q.rows[0]?.settings ?? null;
+}
+
+// Оптимистичная блокировка (вызывать внутри транзакции): пишем, только если клиент видел текущую
+// ревизию доски; baseRev = null — осознанная перезапись. При конфликте отдаём актуальную ревизию.
+export async function bumpRev(db: Db, board: string, baseRev: number | null, userId: string) {
+  const cur: number = (await db.query(`SELECT rev FROM sb_boards WHERE id = $1 FOR UPDATE`, [board])).rows[0].rev;
+  if (baseRev !== null && baseRev !== cur) return { conflict: true, rev: cur };
+  // айтемы пишутся через upsertItem — уже в форме ITEMS_SCHEMA
+  const q = await db.query(
+    `UPDATE sb_boards SET rev = rev + 1, updated_by = $2, updated_at = now(), schema = ${ITEMS_SCHEMA} WHERE id = $1 RETURNING rev`,
+    [board, userId]
+  );
+  return { conflict: false, rev: q.rows[0].rev as number };
+}
+
+// Очистка айтемов досок проекта (board = null — всех). Ревизия растёт:
+// открытые у других клиентов копии теперь устарели
+export async function clearBoards(db: Db, project: string, board: string | null, userId: string) {
+  await db.query(
+    `DELETE FROM sb_items WHERE board IN (SELECT id FROM sb_boards WHERE project = $1 AND ($2::text IS NULL OR id = $2))`,
+    [project, board]
+  );
+  await db.query(
+    `UPDATE sb_boards SET rev = rev + 1, updated_by = $3, updated_at = now() WHERE project = $1 AND ($2::text IS NULL OR id = $2)`,
+    [project, board, userId]
+  );
+}
+
+// ——— айтемы ———
+type ItemRow = {
+  id: string; board: string; url: string; kind: string;
+  gx: number; gy: number; gw: number; gh: number;
+  natw: number | null; nath: number | null; natr: number | null;
+  status: ApprovalStatus; status_note: string | null; thumb: string | null; locked: boolean;
+  status_by_name: string | null; status_at: Date | null; updated_by: string | null;
+};
+export type Item = {
+  id: string; board: string; url: string; kind: string;
+  gx: number; gy: number; gw: number; gh: number;
+  natW: number | null; natH: number | null; natR: number | null;
+  status: ApprovalStatus; statusNote: string | null; thumb: string | null;
+  statusBy: string | null; statusAt: number | null; updatedBy: string | null;
+  locked?: true; // только если закреплён — как на клиенте
+};
+const toItem = (r: ItemRow): Item => ({
+  id: r.id, board: r.board, url: r.url, kind: r.kind,
+  gx: r.gx, gy: r.gy, gw: r.gw, gh: r.gh,
+  natW: r.natw, natH: r.nath, natR: r.natr,
+  status: r.status, statusNote: r.status_note, thumb: r.thumb,
+  statusBy: r.status_by_name, statusAt: ms(r.status_at), updatedBy: r.updated_by,
+  ...(r.locked ? { locked: true as const } : {}),
+});
+
+export async function loadItems(db: Db, board: string, project: string): Promise<Item[]> {
+  const q = await db.query<ItemRow>(
+    `SELECT i.id, i.board, i.url, i.kind, i.gx, i.gy, i.gw, i.gh, i.natw, i.nath, i.natr,
+            i.status, i.status_note, i.thumb, i.locked, i.status_at, i.updated_by,
+            (SELECT name FROM sb_users u WHERE u.id = i.status_by) AS status_by_name
+     FROM sb_items i
+     JOIN sb_boards b ON b.id = i.board AND b.project = $2
+     WHERE i.board = $1
+     ORDER BY i.pos, i.id`,
+    [board, project]
+  );
+  return q.rows.map(toItem);
+}
+
+export type Rect = { id: string; gx: number; gy: number; gw: number; gh: number };
+export async function itemRects(db: Db, board: string): Promise<Rect[]> {
+  return (await db.query<Rect>(`SELECT id, gx, gy, gw, gh FROM sb_items WHERE board = $1 ORDER BY pos, id`, [board])).rows;
+}
+
+export async function itemExists(db: Db, id: string, board: string) {
+  return (await db.query(`SELECT 1 FROM sb_items WHERE id = $1 AND board = $2`, [id, board])).rows.length > 0;
+}
+
+// false — id уже занят айтемом другой доски: строка не записана
+export async function upsertItem(db: Db, board: string, it: any, pos: number, userId: string): Promise<boolean> {
+  const status = itemStatus(it);
+  const note = typeof it.statusNote === 'string' && it.statusNote.trim() ? it.statusNote.trim().slice(0, 500) : null;
+  // WHERE в DO UPDATE: айтем с тем же id из другой доски не перехватываем.
+  // Кто и когда поставил статус — не со слов клиента: автор записи, если статус или заметка поменялись
+  const q = await db.query(
+    `INSERT INTO sb_items
+       (id, board, url, kind, gx, gy, gw, gh, approved, natw, nath, natr, pos, updated_by, status, status_note, status_by, status_at, thumb, locked)
+     VALUES
+       ($1, $2, $3,  $4,  $5, $6, $7, $8, $15 = 'approved', $9, $10, $11, $12, $13, $15, $14,
+        CASE WHEN $15 = 'proposed' AND $14::text IS NULL THEN NULL ELSE $13 END,
+        CASE WHEN $15 = 'proposed' AND $14::text IS NULL THEN NULL ELSE now() END, $16, $17)
+     ON CONFLICT (id) DO UPDATE SET
+       url = EXCLUDED.url, kind = EXCLUDED.kind,
+       gx = EXCLUDED.gx, gy = EXCLUDED.gy, gw = EXCLUDED.gw, gh = EXCLUDED.gh,
+       approved = EXCLUDED.approved, natw = EXCLUDED.natw, nath = EXCLUDED.nath, natr = EXCLUDED.natr,
+       pos = EXCLUDED.pos, updated_by = EXCLUDED.updated_by, thumb = EXCLUDED.thumb, locked = EXCLUDED.locked,
+       status = EXCLUDED.status, status_note = EXCLUDED.status_note,
+       status_by = CASE WHEN (sb_items.status, sb_items.status_note) IS DISTINCT FROM (EXCLUDED.status, EXCLUDED.status_note)
+                        THEN EXCLUDED.updated_by ELSE sb_items.status_by END,
+       status_at = CASE WHEN (sb_items.status, sb_items.status_note) IS DISTINCT FROM (EXCLUDED.status, EXCLUDED.status_note)
+                        THEN now() ELSE sb_items.status_at END
+     WHERE sb_items.board = EXCLUDED.board`,
+    [
+      it.id,
+      board,               // ← НЕ it.board!
+      it.url,
+      it.kind,
+      it.gx, it.gy, it.gw, it.gh,
+      it.natW ?? null, it.natH ?? null, it.natR ?? null,
+      pos,
+      userId,
+      note,
+      status,
+      typeof it.thumb === 'string' && it.thumb ? it.thumb : null,
+      it.locked === true,
+    ]
+  );
+  return (q.rowCount ?? 0) > 0;
+}
+
+// доска целиком — ровно эти айтемы; pos — индекс в массиве (внутри транзакции).
+// Возвращает индексы айтемов, чей id занят другой доской (они не записаны — транзакцию надо откатить)
+export async function replaceItems(db: Db, board: string, items: any[], userId: string): Promise<number[]> {
+  await db.query(`DELETE FROM sb_items WHERE board = $1`, [board]);
+  const taken: number[] = [];
+  for (let i = 0; i < items.length; i++) {
+    if (!(await upsertItem(db, board, items[i], i, userId))) taken.push(i);
+  }
+  return taken;
+}
+
+export type PatchOp =
+  | { type: 'upsert'; item: any; pos: number }
+  | { type: 'move'; id: string; gx: number; gy: number; gw: number; gh: number }
+  | { type: 'delete'; id: string }
+  | { type: 'reorder'; ids: string[] };
+
+// false — операция не легла: upsert с id чужой доски или move айтема, которого на доске нет
+export async function applyPatchOp(db: Db, board: string, p: PatchOp, userId: string): Promise<boolean> {
+  if (p.type === 'upsert') {
+    return upsertItem(db, board, p.item, p.pos, userId);
+  } else if (p.type === 'move') {
+    const q = await db.query(
+      `UPDATE sb_items SET gx = $3, gy = $4, gw = $5, gh = $6, updated_by = $7 WHERE id = $1 AND board = $2`,
+      [p.id, board, p.gx, p.gy, p.gw, p.gh, userId]
+    );
+    return (q.rowCount ?? 0) > 0;
+  } else if (p.type === 'delete') {
+    await db.query(`DELETE FROM sb_items WHERE id = $1 AND board = $2`, [p.id, board]);
+  } else {
+    await db.query(
+      `UPDATE sb_items AS i SET pos = o.ord - 1
+       FROM unnest($2::text[]) WITH ORDINALITY AS o(id, ord)
+       WHERE i.id = o.id AND i.board = $1`,
+      [board, p.ids]
+    );
+  }
+  return true;
+}
+
+// ——— снимки ———
+type SnapshotRow = {
+  id: string; name: string | null; auto: boolean; rev: number; schema: number;
+  count: number; created_at: Date; author: string | null;
+};
+export type Snapshot = {
+  id: string; name: string | null; auto: boolean; rev: number; schema: number;
+  count: number; createdAt: number | null; author: string | null;
+};
+const SNAPSHOT_COLS = `id, name, auto, rev, schema, jsonb_array_length(items) AS count, created_at,
+  (SELECT u.name FROM sb_users u WHERE u.id = sb_snapshots.created_by) AS author`;
+const toSnapshot = (r: SnapshotRow): Snapshot => ({
+  id: r.id, name: r.name, auto: r.auto, rev: r.rev, schema: r.schema,
+  count: r.count, createdAt: ms(r.created_at), author: r.author,
+});
+
+// снимок текущего состояния доски (внутри транзакции записи — уже с новыми items)
+export async function takeSnapshot(db: Db, board: string, project: string, rev: number, name: string | null, userId: string): Promise<Snapshot> {
+  const items = await loadItems(db, board, project);
+  const q = await db.query<SnapshotRow>(
+    `INSERT INTO sb_snapshots (id, board, name, auto, rev, items, created_by, schema) VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7, ${ITEMS_SCHEMA}) RETURNING ${SNAPSHOT_COLS}`,
+    [cryptoRandom(), board, name, name === null, rev, JSON.stringify(items), userId]
+  );
+  if (name === null) {
+    await db.query(
+      `DELETE FROM sb_snapshots WHERE board = $1 AND auto AND id NOT IN
+         (SELECT id FROM sb_snapshots WHERE board = $1 AND auto ORDER BY created_at DESC LIMIT ${AUTO_SNAPSHOTS_KEEP})`,
+      [board]
+    );
+  }
+  return toSnapshot(q.rows[0]);
+}
+
+// именованный снимок на текущей ревизии
+export async function nameSnapshot(db: Db, board: string, project: string, name: string, userId: string) {
+  const rev: number = (await db.query(`SELECT rev FROM sb_boards WHERE id = $1`, [board])).rows[0].rev;
+  return takeSnapshot(db, board, project, rev, name, userId);
+}
+
+export async function listSnapshots(db: Db, board: string): Promise<Snapshot[]> {
+  const q = await db.query<SnapshotRow>(`SELECT ${SNAPSHOT_COLS} FROM sb_snapshots WHERE board = $1 ORDER BY created_at DESC, id`, [board]);
+  return q.rows.map(toSnapshot);
+}
+
+// items снимка — в той форме (schema), в которой его записали
+export async function getSnapshot(db: Db, id: string, board: string): Promise<(Snapshot & { items: any[] }) | null> {
+  const r = (await db.query<SnapshotRow & { items: any[] }>(`SELECT ${SNAPSHOT_COLS}, items FROM sb_snapshots WHERE id = $1 AND board = $2`, [id, board])).rows[0];
+  return r ? { ...toSnapshot(r), items: r.items } : null;
+}
+
+// ——— кто на доске ———
+export type Peer = { client: string; name: string; color: string; x: number | null; y: number | null };
+
+// отметка вкладки на доске; закрытые вкладки отваливаются сами
+export async function touchPresence(db: Db, board: string, p: Peer) {
+  await db.query(
+    `INSERT INTO sb_presence (board, client, name, color, x, y, seen_at)
+     VALUES ($1, $2, $3, $4, $5, $6, now())
+     ON CONFLICT (board, client) DO UPDATE SET
+       name = EXCLUDED.name, color = EXCLUDED.color, x = EXCLUDED.x, y = EXCLUDED.y, seen_at = now()`,
+    [board, p.client, p.name, p.color, p.x, p.y]
+  );
+  await db.query(`DELETE FROM sb_presence WHERE seen_at < now() - ${PRESENCE_TTL} * 3`);
+}
+
+export async function listPeers(db: Db, board: string, exceptClient: string): Promise<Peer[]> {
+  const q = await db.query<Peer>(
+    `SELECT client, name, color, x, y FROM sb_presence
+     WHERE board = $1 AND client <> $2 AND seen_at > now() - ${PRESENCE_TTL}
+     ORDER BY name, client`,
+    [board, exceptClient]
+  );
+  return q.rows;
+}
+
+// ——— обсуждения ———
+type ThreadRow = {
+  id: string; item: string; px: number | null; py: number | null; resolved: boolean;
+  resolved_by_name: string | null; created_at: Date; updated_at: Date; comments: any[];
+};
+export type Thread = {
+  id: string; item: string; px: number | null; py: number | null; resolved: boolean;
+  resolvedBy: string | null; createdAt: number | null; updatedAt: number | null; comments: any[];
+};
+const toThread = (r: ThreadRow): Thread => ({
+  id: r.id, item: r.item, px: r.px, py: r.py, resolved: r.resolved,
+  resolvedBy: r.resolved_by_name, createdAt: ms(r.created_at), updatedAt: ms(r.updated_at), comments: r.comments,
+});
+
+// треды доски вместе с комментариями (по порядку написания); комментарии собираются в JSON уже в форме API
+export async function loadThreads(db: Db, board: string): Promise<Thread[]> {
+  const q = await db.query<ThreadRow>(
+    `SELECT t.id, t.item, t.px, t.py, t.resolved, t.created_at, t.updated_at,
+            (SELECT name FROM sb_users u WHERE u.id = t.resolved_by) AS resolved_by_name,
+            COALESCE((
+              SELECT json_agg(json_build_object(
+                       'id', c.id, 'body', c.body, 'author', c.author_name, 'authorId', c.author_id,
+                       'createdAt', floor(extract(epoch from c.created_at) * 1000)
+                     ) ORDER BY c.created_at, c.id)
+              FROM sb_comments c WHERE c.thread = t.id
+            ), '[]'::json) AS comments
+     FROM sb_threads t WHERE t.board = $1
+     ORDER BY t.created_at, t.id`,
+    [board]
+  );
+  return q.rows.map(toThread);
+}
+
+// метка последнего изменения обсуждений доски (мс), 0 — тредов нет
+export async function commentsAt(db: Db, board: string): Promise<number> {
+  const q = await db.query<{ at: Date | null }>(`SELECT max(updated_at) AS at FROM sb_threads WHERE board = $1`, [board]);
+  return ms(q.rows[0]?.at ?? null) ?? 0;
+}
+
+export async function threadExists(db: Db, id: string, board: string) {
+  return (await db.query(`SELECT 1 FROM sb_threads WHERE id = $1 AND board = $2`, [id, board])).rows.length > 0;
+}
+
+type Author = { id: string | null; name: string };
+
+// тред с первым комментарием (внутри транзакции); pin = null — на весь айтем
+export async function createThread(db: Db, board: string, item: string, pin: { x: number; y: number } | null, body: string, author: Author) {
+  const id = cryptoRandom();
+  await db.query(
+    `INSERT INTO sb_threads (id, board, item, px, py, created_by) VALUES ($1, $2, $3, $4, $5, $6)`,
+    [id, board, item, pin?.x ?? null, pin?.y ?? null, author.id]
+  );
+  await db.query(
+    `INSERT INTO sb_comments (id, thread, body, author_id, author_name) VALUES ($1, $2, $3, $4, $5)`,
+    [cryptoRandom(), id, body, author.id, author.name]
+  );
+}
+
+// ответ в тред (внутри транзакции) — тред «сдвигается» для опроса
+export async function addComment(db: Db, thread: string, body: string, author: Author) {
+  await db.query(
+    `INSERT INTO sb_comments (id, thread, body, author_id, author_name) VALUES ($1, $2, $3, $4, $5)`,
+    [cryptoRandom(), thread, body, author.id, author.name]
+  );
+  await db.query(`UPDATE sb_threads SET updated_at = now() WHERE id = $1`, [thread]);
+}
+
+export async function setThreadResolved(db: Db, thread: string, resolved: boolean, userId: string | null) {
+  await db.query(
+    `UPDATE sb_threads SET resolved = $2, resolved_by = $3, updated_at = now() WHERE id = $1`,
+    [thread, resolved, resolved ? userId : null]
+  );
+}
+
+// ——— ссылки на доску ———
+type ShareRow = { id: string; board: string; scope: ShareScope; expires_at: Date | null; created_at: Date; author: string | null };
+export type Share = { id: string; board: string; scope: ShareScope; expiresAt: number | null; createdAt: number | null; author: string | null };
+const SHARE_COLS = `id, board, scope, expires_at, created_at,
+  (SELECT name FROM sb_users u WHERE u.id = sb_shares.created_by) AS author`;
+const toShare = (r: ShareRow): Share => ({
+  id: r.id, board: r.board, scope: r.scope, expiresAt: ms(r.expires_at), createdAt: ms(r.created_at), author: r.author,
+});
+
+// живая (не отозвана, не истекла) ссылка в неархивном проекте
+export async function findShare(db: Db, id: string) {
+  const r = (await db.query<{ board: string; project: string; scope: ShareScope; expires_at: Date | null }>(
+    `SELECT s.board, s.project, s.scope, s.expires_at
+     FROM sb_shares s JOIN sb_projects p ON p.id = s.project
+     WHERE s.id = $1 AND NOT s.revoked AND (s.expires_at IS NULL OR s.expires_at > now()) AND NOT p.archived`,
+    [id]
+  )).rows[0];
+  return r ? { board: r.board, project: r.project, scope: r.scope, expiresAt: ms(r.expires_at) } : null;
+}
+
+export async function listShares(db: Db, board: string, project: string): Promise<Share[]> {
+  const q = await db.query<ShareRow>(
+    `SELECT ${SHARE_COLS} FROM sb_shares
+     WHERE board = $1 AND project = $2 AND NOT revoked AND (expires_at IS NULL OR expires_at > now())
+     ORDER BY created_at DESC, id`,
+    [board, project]
+  );
+  return q.rows.map(toShare);
+}
+
+// id ссылки и есть её токен
+export async function createShare(db: Db, id: string, s: { board: string; project: string; scope: ShareScope; expiresAt: number | null }, userId: string): Promise<Share> {
+  const q = await db.query<ShareRow>(
+    `INSERT INTO sb_shares (id, board, project, scope, expires_at, created_by)
+     VALUES ($1, $2, $3, $4, CASE WHEN $5::float8 IS NULL THEN NULL ELSE to_timestamp($5::float8 / 1000) END, $6)
+     RETURNING ${SHARE_COLS}`,
+    [id, s.board, s.project, s.scope, s.expiresAt, userId]
+  );
+  return toShare(q.rows[0]);
+}
+
+// false — такой ссылки в проекте нет
+export async function revokeShare(db: Db, id: string, project: string) {
+  const q = await db.query(`UPDATE sb_shares SET revoked = true WHERE id = $1 AND project = $2`, [id, project]);
+  return !!q.rowCount;
+}
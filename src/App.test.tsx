@@ -0,0 +1,318 @@
+// @vitest-environment jsdom
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_MOOD_LAYOUT, MIN_TILE_CELLS, SeedInput, VariationsPanel, computeStyleResize, coverCrop, cropLoss, cropQuality, exportFrame, exportScale, fileBase, freeRects, migrateItems, moveItems, reflowMoodboard, shuffleMoodboard, validateItems } from './App';
+import type { MoodLayout, SBItem } from './App';
+
+afterEach(cleanup);
+
+const tile = (id: string, gx: number, gy: number, gw: number, gh: number, extra: Partial<SBItem> = {}): SBItem =>
+  ({ id, url: `https://example.com/${id}.jpg`, kind: 'image', gx, gy, gw, gh, status: 'proposed', ...extra });
+const rects = (items: SBItem[]) => Object.fromEntries(items.map(i => [i.id, [i.gx, i.gy, i.gw, i.gh]]));
+
+function typeSeed(value: string) {
+  const input = screen.getByLabelText('Seed') as HTMLInputElement;
+  act(() => input.focus());
+  fireEvent.change(input, { target: { value } });
+  return input;
+}
+
+describe('SeedInput', () => {
+  it('applies the typed seed on Enter', () => {
+    const onCommit = vi.fn();
+    render(<SeedInput seed={0x1234} onCommit={onCommit} />);
+    const input = typeSeed('beef');
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onCommit).toHaveBeenCalledTimes(1);
+    expect(onCommit).toHaveBeenCalledWith(0xbeef);
+  });
+
+  it('drops the typed seed on Escape without re-laying the board', () => {
+    const onCommit = vi.fn();
+    render(<SeedInput seed={0x1234} onCommit={onCommit} />);
+    const input = typeSeed('beef');
+    fireEvent.keyDown(input, { key: 'Escape' });
+    expect(onCommit).not.toHaveBeenCalled();
+    expect(input.value).toBe('00001234');
+    expect(document.activeElement).not.toBe(input);
+  });
+
+  it('ignores an invalid seed', () => {
+    const onCommit = vi.fn();
+    render(<SeedInput seed={0x1234} onCommit={onCommit} />);
+    const input = typeSeed('xyz');
+    act(() => input.blur());
+    expect(onCommit).not.toHaveBeenCalled();
+    expect(input.value).toBe('00001234');
+  });
+});
+
+describe('migrateItems / validateItems', () => {
+  it('turns the v1 approved flag into an approval status', () => {
+    const v1 = [{ ...tile('a', 0, 0, 4, 4), status: undefined, approved: true }, { ...tile('b', 5, 0, 4, 4), status: undefined }];
+    expect(migrateItems(v1, 1).map(i => i.status)).toEqual(['approved', 'proposed']);
+    // уже v2 — не трогаем
+    const v2 = [tile('a', 0, 0, 4, 4, { status: 'rejected' })];
+    expect(migrateItems(v2, 2)).toBe(v2);
+  });
+
+  it('leaves valid items alone', () => {
+    const board = [tile('a', 0, 0, 4, 4), tile('b', 5, 0, 4, 4, { locked: true })];
+    const r = validateItems(board, 40, 40);
+    expect(r).toMatchObject({ repaired: 0, dropped: 0 });
+    expect(r.items).toEqual(board);
+  });
+
+  it('gives a fresh id to items without one or with a repeated one, and drops items without url', () => {
+    const { items, repaired, dropped } = validateItems([
+      tile('a', 0, 0, 4, 4), { ...tile('', 5, 0, 4, 4) }, tile('a', 10, 0, 4, 4), { id: 'x', gx: 0, gy: 10 }, null,
+    ], 40, 40);
+    expect([repaired, dropped]).toEqual([2, 2]);
+    expect(items).toHaveLength(3);
+    expect(new Set(items.map(i => i.id)).size).toBe(3);
+    expect(items[0].id).toBe('a');
+    expect(rects(items)[items[2].id]).toEqual([10, 0, 4, 4]);
+  });
+
+  it('re-places tiles with a broken rect, outside the board or on top of a neighbour', () => {
+    const { items, repaired } = validateItems([
+      tile('a', 0, 0, 4, 4),
+      tile('nan', NaN, 0, 4, 4),
+      tile('over', 1, 1, 4, 4),
+      tile('out', 98, 0, 4, 4),
+      tile('size', 10, 10, Infinity, 0),
+    ], 100, 50);
+    expect(repaired).toBe(4);
+    expect(items.map(i => i.id)).toEqual(['a', 'nan', 'over', 'out', 'size']);
+    expect(items.find(i => i.id === 'size')).toMatchObject({ gw: 45, gh: 30 });
+    for (const it of items) {
+      expect(Number.isInteger(it.gx) && Number.isInteger(it.gy)).toBe(true);
+      expect(it.gx >= 0 && it.gy >= 0 && it.gx + it.gw <= 100 && it.gy + it.gh <= 50).toBe(true);
+    }
+    items.forEach((a, i) => items.slice(i + 1).forEach(b => {
+      expect(a.gx < b.gx + b.gw && b.gx < a.gx + a.gw && a.gy < b.gy + b.gh && b.gy < a.gy + a.gh).toBe(false);
+    }));
+  });
+
+  it('repairs against the board canvas, not the largest possible one', () => {
+    // тайл, который влез бы в самый большой холст, но не в этот, возвращается внутрь
+    const { items } = validateItems([tile('a', 0, 0, 4, 4), tile('far', 1000, 1000, 4, 4)], 60, 34);
+    const far = items.find(i => i.id === 'far')!;
+    expect(far.gx + far.gw <= 60 && far.gy + far.gh <= 34).toBe(true);
+  });
+});
+
+describe('moveItems', () => {
+  const board = [tile('a', 0, 0, 4, 4), tile('b', 10, 0, 4, 4), tile('c', 0, 10, 4, 4)];
+
+  it('moves the whole selection by the same offset', () => {
+    const next = moveItems(board, ['a', 'c'], 2, 1, 40, 40)!;
+    expect(rects(next)).toEqual({ a: [2, 1, 4, 4], b: [10, 0, 4, 4], c: [2, 11, 4, 4] });
+  });
+
+  it('refuses to leave the canvas, touch a neighbour or move a locked tile', () => {
+    expect(moveItems(board, ['a'], -1, 0, 40, 40)).toBeNull();
+    expect(moveItems(board, ['b'], 27, 0, 40, 40)).toBeNull();
+    // между тайлами держится GUTTER
+    expect(moveItems(board, ['a'], 5, 0, 40, 40)).toBeNull();
+    expect(moveItems(board, ['a'], 1, 0, 40, 40)).not.toBeNull();
+    const locked = board.map(i => i.id === 'c' ? { ...i, locked: true } : i);
+    expect(moveItems(locked, ['a', 'c'], 1, 0, 40, 40)).toBeNull();
+  });
+});
+
+describe('computeStyleResize', () => {
+  it('grows into free space without touching anyone', () => {
+    const next = computeStyleResize([tile('a', 0, 0, 4, 4), tile('b', 20, 0, 4, 4)], 'a', 'e', 6, 0, false, 40, 40)!;
+    expect(rects(next)).toEqual({ a: [0, 0, 10, 4], b: [20, 0, 4, 4] });
+  });
+
+  it('pushes neighbours in the direction of growth, as a chain', () => {
+    const next = computeStyleResize([tile('a', 0, 0, 4, 4), tile('b', 5, 0, 4, 4), tile('c', 10, 0, 4, 4)], 'a', 'e', 3, 0, false, 40, 40)!;
+    // a до 7, b — сразу за ним через GUTTER, c — за b
+    expect(rects(next)).toEqual({ a: [0, 0, 7, 4], b: [8, 0, 4, 4], c: [13, 0, 4, 4] });
+  });
+
+  it('refuses when a pushed neighbour is locked or would leave the canvas', () => {
+    const row = [tile('a', 0, 0, 4, 4), tile('b', 5, 0, 4, 4)];
+    expect(computeStyleResize(row.map(i => i.id === 'b' ? { ...i, locked: true } : i), 'a', 'e', 2, 0, false, 40, 40)).toBeNull();
+    expect(computeStyleResize(row, 'a', 'e', 2, 0, false, 10, 40)).toBeNull();
+    expect(computeStyleResize(row, 'a', 'w', 1, 0, false, 40, 40)).not.toBeNull();
+    expect(computeStyleResize(row, 'a', 'n', 0, -1, false, 40, 40)).toBeNull();
+    // сам закреплённый не тянется
+    expect(computeStyleResize([tile('a', 0, 0, 4, 4, { locked: true })], 'a', 'e', 2, 0, false, 40, 40)).toBeNull();
+  });
+
+  it('keeps tiles at least MIN_TILE_CELLS and holds the aspect when locked', () => {
+    const [shrunk] = computeStyleResize([tile('a', 0, 0, 8, 8)], 'a', 'se', -20, -20, false, 40, 40)!;
+    expect([shrunk.gw, shrunk.gh]).toEqual([MIN_TILE_CELLS, MIN_TILE_CELLS]);
+    // nw-угол: противоположный угол стоит на месте
+    const [nw] = computeStyleResize([tile('a', 10, 10, 8, 4)], 'a', 'nw', -4, 0, true, 40, 40)!;
+    expect([nw.gx, nw.gy, nw.gw, nw.gh]).toEqual([6, 8, 12, 6]);
+  });
+});
+
+// медиа мудборда с разными аспектами, изначально стопкой в углу
+const media = (n: number) => Array.from({ length: n }, (_, k) =>
+  tile(`m${k}`, 0, 0, 1, 1, { natR: [16 / 9, 9 / 16, 1, 4 / 3, 3 / 4, 21 / 9][k % 6] }));
+const MODES: MoodLayout['mode'][] = ['auto', 'rows', 'cols', 'combo'];
+
+describe('moodboard seeds', () => {
+  it('lays out the same set of items the same way whatever their order', () => {
+    for (const mode of MODES) {
+      const layout = { ...DEFAULT_MOOD_LAYOUT, mode };
+      const items = media(9);
+      const once = shuffleMoodboard(items, 240, 135, 60, 0xc0ffee, layout);
+      // айтемы возвращаются в том же порядке, что пришли
+      expect(once.map(i => i.id)).toEqual(items.map(i => i.id));
+      expect(rects(shuffleMoodboard([...items].reverse(), 240, 135, 60, 0xc0ffee, layout))).toEqual(rects(once));
+    }
+  });
+
+  it('replays a seed after another shuffle', () => {
+    for (const mode of MODES) {
+      const layout = { ...DEFAULT_MOOD_LAYOUT, mode };
+      const first = shuffleMoodboard(media(7), 240, 135, 60, 1, layout);
+      const other = shuffleMoodboard(first, 240, 135, 60, 2, layout);
+      expect(rects(shuffleMoodboard(other, 240, 135, 60, 1, layout))).toEqual(rects(first));
+      // перекладка (после добавления, ресайза) — тоже от seed, а не от порядка
+      expect(rects(reflowMoodboard([...other].reverse(), 240, 135, 60, 1, layout))).toEqual(rects(reflowMoodboard(other, 240, 135, 60, 1, layout)));
+    }
+  });
+
+  it('keeps strip tiles at least two cells wide even with extreme aspects on a small canvas', () => {
+    const items = Array.from({ length: 30 }, (_, k) => tile(`m${k}`, 0, 0, 1, 1, { natR: [1 / 10, 10, 21 / 9, 9 / 16][k % 4] }));
+    for (const [W, H] of [[60, 34], [100, 20]])
+      for (const mode of ['rows', 'cols', 'combo'] as const)
+        for (const keepAspect of [true, false])
+          for (const seed of [1, 2, 3]) {
+            const out = shuffleMoodboard(items, W, H, 100, seed, { mode, keepAspect, columnBias: 1 });
+            expect(Math.min(...out.map(i => Math.min(i.gw, i.gh)))).toBeGreaterThanOrEqual(2);
+            out.forEach(a => {
+              expect(a.gx >= 0 && a.gy >= 0 && a.gx + a.gw <= W && a.gy + a.gh <= H).toBe(true);
+              out.forEach(b => {
+                if (a !== b) expect(a.gx < b.gx + b.gw && b.gx < a.gx + a.gw && a.gy < b.gy + b.gh && b.gy < a.gy + a.gh).toBe(false);
+              });
+            });
+          }
+  });
+});
+
+describe('locked tiles on a moodboard', () => {
+  type Rect = { gx: number; gy: number; gw: number; gh: number };
+  const overlaps = (a: Rect, b: Rect) => a.gx < b.gx + b.gw && b.gx < a.gx + a.gw && a.gy < b.gy + b.gh && b.gy < a.gy + a.gh;
+  const pins = [tile('p1', 10, 5, 30, 20, { locked: true }), tile('p2', 150, 60, 40, 50, { locked: true }), tile('p3', 0, 120, 240, 15, { locked: true })];
+
+  it('splits the free space into rects that, with the obstacles, cover the canvas exactly once', () => {
+    const W = 240, H = 135;
+    const cells = new Uint8Array(W * H);
+    const paint = (r: Rect) => {
+      for (let y = r.gy; y < r.gy + r.gh; y++) for (let x = r.gx; x < r.gx + r.gw; x++) cells[y * W + x]++;
+    };
+    pins.forEach(paint);
+    freeRects(W, H, pins).forEach(r => paint({ gx: r.x, gy: r.y, gw: r.w, gh: r.h }));
+    expect(cells.every(c => c === 1)).toBe(true);
+    // без препятствий — весь холст одним прямоугольником
+    expect(freeRects(W, H, [])).toEqual([{ x: 0, y: 0, w: W, h: H }]);
+  });
+
+  it('keeps locked tiles in place and lays the rest around them without overlaps', () => {
+    for (const mode of MODES) {
+      const layout = { ...DEFAULT_MOOD_LAYOUT, mode };
+      const board = [...media(12), ...pins];
+      const shuffled = shuffleMoodboard(board, 240, 135, 60, 7, layout);
+      const reflowed = reflowMoodboard(shuffled, 240, 135, 60, 3, layout);
+      for (const out of [shuffled, reflowed]) {
+        expect(rects(out.filter(i => i.locked))).toEqual(rects(pins));
+        out.forEach((a, i) => {
+          expect(a.gx >= 0 && a.gy >= 0 && a.gx + a.gw <= 240 && a.gy + a.gh <= 135).toBe(true);
+          out.slice(i + 1).forEach(b => expect(overlaps(a, b)).toBe(false));
+        });
+      }
+    }
+  });
+});
+
+describe('crop quality', () => {
+  it('measures how much of the source object-cover cuts away', () => {
+    // 9:16 в тайле 16:9: видно (9/16)/(16/9) = 81/256 исходника, срезано ≈ 68%
+    expect(cropLoss(tile('a', 0, 0, 16, 9, { natR: 9 / 16 }))).toBeCloseTo(1 - 81 / 256, 6);
+    expect(cropLoss(tile('a', 0, 0, 9, 16, { natR: 16 / 9 }))).toBeCloseTo(1 - 81 / 256, 6);
+    expect(cropLoss(tile('a', 0, 0, 16, 9, { natR: 16 / 9 }))).toBe(0);
+    // без natR — по natW×natH; аспект не клампится, как в раскладке
+    expect(cropLoss(tile('a', 0, 0, 4, 4, { natW: 400, natH: 300 }))).toBeCloseTo(0.25, 6);
+    expect(cropLoss(tile('a', 0, 0, 4, 4, { natR: 1 / 10 }))).toBeCloseTo(0.9, 6);
+  });
+
+  it('skips items whose source size is unknown', () => {
+    expect(cropLoss(tile('a', 0, 0, 4, 4))).toBeNull();
+    expect(cropLoss(tile('a', 0, 0, 4, 4, { kind: 'site', natR: 1 }))).toBeNull();
+    expect(cropLoss(tile('a', 0, 0, 0, 4, { natR: 1 }))).toBeNull();
+    expect(cropQuality([tile('a', 0, 0, 4, 4)])).toBeNull();
+  });
+
+  it('averages what stays visible weighted by tile area', () => {
+    const q = cropQuality([
+      tile('a', 0, 0, 16, 9, { natR: 16 / 9 }),
+      tile('b', 16, 0, 16, 9, { natR: 9 / 16 }),
+      tile('c', 0, 9, 32, 18, { natR: 16 / 9 }),
+      tile('d', 32, 0, 4, 4),
+    ])!;
+    expect(q.measured).toBe(3);
+    // площади 144 + 144 + 576: первый и третий целиком, второй — на 81/256
+    expect(q.quality).toBeCloseTo((144 + 144 * 81 / 256 + 576) / 864, 6);
+  });
+});
+
+describe('VariationsPanel', () => {
+  const panel = (items: SBItem[]) => (
+    <VariationsPanel
+      items={items} W={240} H={135} intensity={60} seed={1} layout={DEFAULT_MOOD_LAYOUT}
+      pinned={[1, 2, 3].map(seed => ({ seed, intensity: 60, layout: DEFAULT_MOOD_LAYOUT }))}
+      busy={false} onApply={() => {}} onTogglePin={() => {}} onClose={() => {}}
+    />
+  );
+
+  it('lays out previews one at a time after the panel opens and keeps them when only the order changes', async () => {
+    const items = media(8);
+    const { rerender } = render(panel(items));
+    // первый кадр — без расчёта раскладок
+    expect(screen.getAllByLabelText('Раскладка считается')).toHaveLength(3);
+    await vi.waitFor(() => expect(screen.queryAllByLabelText('Раскладка считается')).toHaveLength(0));
+    const scores = screen.getAllByText(/^\d+\.\d%$/).map(e => e.textContent);
+    expect(scores).toHaveLength(3);
+
+    // тот же набор в другом порядке (пришёл с опросом) — превью не пересчитываются и не меняются
+    rerender(panel([...items].reverse()));
+    expect(screen.queryAllByLabelText('Раскладка считается')).toHaveLength(0);
+    expect(screen.getAllByText(/^\d+\.\d%$/).map(e => e.textContent)).toEqual(scores);
+  });
+});
+
+describe('board export', () => {
+  it('exports the whole artboard for moodboards and a padded frame around styleboard items', () => {
+    expect(exportFrame([], 'mood', 1920, 1080)).toEqual({ x0: 0, y0: 0, w: 1920, h: 1080 });
+    // styleboard: от крайних тайлов плюс по две клетки (32px) с каждой стороны
+    expect(exportFrame([tile('a', 10, 5, 4, 4), tile('b', 20, 20, 2, 2)], 'style', 20000, 20000))
+      .toEqual({ x0: 10 * 16 - 32, y0: 5 * 16 - 32, w: 12 * 16 + 64, h: 17 * 16 + 64 });
+    expect(() => exportFrame([], 'style', 20000, 20000)).toThrow('empty board');
+  });
+
+  it('scales down only when the raster would exceed the canvas limits', () => {
+    expect(exportScale(1920, 1080, 2)).toBe(2);
+    const k = exportScale(20000, 20000, 4);
+    expect(20000 * k).toBeLessThanOrEqual(16384);
+    expect(20000 * 20000 * k * k).toBeLessThanOrEqual(16384 * 8192 + 1);
+  });
+
+  it('crops images like object-fit: cover, centred', () => {
+    // 16:9 источник в квадрат — режем бока
+    expect(coverCrop(1600, 900, 100, 100)).toEqual({ sx: 350, sy: 0, sw: 900, sh: 900 });
+    expect(coverCrop(900, 1600, 200, 100)).toEqual({ sx: 0, sy: 575, sw: 900, sh: 450 });
+  });
+
+  it('turns board names into safe file names', () => {
+    expect(fileBase(' Spring: look/book? ')).toBe('Spring_ look_book_');
+    expect(fileBase('  ')).toBe('board');
+  });
+});
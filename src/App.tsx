@@ -1,5 +1,10 @@
-import React, { useEffect, useRef, useState, useLayoutEffect } from "react";
-import { remoteLoad, remoteSave, blobToDataURL, uploadBlobToS3 } from './remote';
+import React, { useEffect, useMemo, useRef, useState, useLayoutEffect } from "react";
+import { remoteLoad, remoteSave, remoteSaveSettings, blobToDataURL, uploadBlobToS3, remoteListBoards, remoteBoardAction, remoteListProjects, remoteProjectAction, setRemoteProject, remoteSaveNow, onRemoteConflict, onRemoteRejected, resolveRemoteConflict, subscribeBoard, CLIENT_ID, remoteListSnapshots, remoteGetSnapshot, remoteCreateSnapshot, remoteRestoreSnapshot, setRemoteToken, remoteAuth, remoteMe, remoteListMembers, remoteMemberAction, remoteJoinProject, setRemoteShare, setRemoteSchema, setRemoteOutbox, onSyncStatus, retrySync, remoteResolveShare, remoteListShares, remoteCreateShare, remoteRevokeShare, remoteListThreads, remoteCommentAction, roleAtLeast, ROLES, HttpError, DEFAULT_PROJECT } from './remote';
+import type { BoardKey, BoardType, BoardMeta, BoardSettings, OutboxEntry, OutboxStore, SyncStatus, ProjectMeta, ConflictResolution, Peer, SnapshotMeta, Role, Session, Member, ShareLink, ShareScope, SharedBoard, Thread, CommentAction } from './remote';
+import { buildPdf } from './pdf';
+import type { PdfLink, PdfPage } from './pdf';
+import { zipStore, unzipStore } from './zip';
+import type { ZipEntry } from './zip';
 // inline CSS для прогресс-бара
 const SBProgressCSS = (
   <style>{`
@@ -23,7 +28,8 @@ const SBProgressCSS = (
 
 /**
  * Website Styleboard — Local (React + TS + Tailwind)
- * - Two boards (Moodboard / Styleboard)
+ * - Projects, each with its own boards and write secret
+ * - Any number of named boards, each either mood (BSP artboard) or style (packed canvas)
  * - URL input + add +
  * - Zoom +/- (buttons + kbd), Ctrl/Cmd + wheel (cursor-centered)
  * - Space + drag panning (Miro-like)
@@ -34,12 +40,25 @@ const SBProgressCSS = (
  * - localStorage per board
  */
 
-const BOARD_KEYS = ["moodboard", "styleboard"] as const;
-type BoardKey = typeof BOARD_KEYS[number];
+// доски проекта default: id совпадают со старыми ключами localStorage и значениями sb_items.board
+const DEFAULT_BOARDS: BoardMeta[] = [
+  { id: "moodboard",  name: "Moodboard",  type: "mood" },
+  { id: "styleboard", name: "Styleboard", type: "style" },
+];
 type ItemKind = "image" | "video" | "site";
+// согласование материала: предложен → на ревью → утверждён / отклонён
+type ApprovalStatus = "proposed" | "review" | "approved" | "rejected";
+const APPROVAL_STATUSES: ApprovalStatus[] = ["proposed", "review", "approved", "rejected"];
+// ribbon / ring — styleboard, inset — обводка внутри тайла на moodboard; у proposed оформления нет
+const STATUS_META: Record<ApprovalStatus, { label: string; ribbon: string; ring: string; inset: string; text: string }> = {
+  proposed: { label: "Proposed", ribbon: "", ring: "", inset: "", text: "text-neutral-300" },
+  review: { label: "In review", ribbon: "bg-amber-400 text-amber-950", ring: "ring-4 ring-amber-400", inset: "rgba(251,191,36,1)", text: "text-amber-300" },
+  approved: { label: "Approved", ribbon: "bg-emerald-500 text-emerald-950", ring: "ring-4 ring-emerald-500", inset: "rgba(16,185,129,1)", text: "text-emerald-400" },
+  rejected: { label: "Rejected", ribbon: "bg-red-500 text-red-950", ring: "ring-4 ring-red-500", inset: "rgba(239,68,68,1)", text: "text-red-400" },
+};
 
 // NEW: натуральные размеры для точного аспекта (используются в moodboard)
-interface SBItem {
+export interface SBItem {
   id: string;
   url: string;
   kind: ItemKind;
@@ -47,10 +66,15 @@ interface SBItem {
   gy: number;
   gw: number;
   gh: number;
-  approved: boolean;
+  status: ApprovalStatus;
+  statusBy?: string | null;   // кто поставил статус (сервер подставляет автора записи)
+  statusAt?: number | null;   // когда, мс
+  statusNote?: string | null; // почему — необязательная заметка
   natW?: number;       // пиксельная ширина исходного изображения
   natH?: number;       // пиксельная высота исходного изображения
   natR?: number;       // нат. аспект = natW / natH (кэш)
+  thumb?: string | null; // снимок сайта (iframe не экспортируется): http(s) или idb://
+  locked?: boolean;    // закреплён: Shuffle, Collect, ресайз холста и вставка его не двигают
   board?: BoardKey;    // опционально для дебага и будущих миграций
 }
 
@@ -81,14 +105,14 @@ const MOOD_ASPECTS_EXT = [
 ].map(r => clamp(r, R_MIN, R_MAX));
 
 // слегка «вкуснее» распределение размеров строк: короткая/высокая
-function pickRowHeight(baseMin:number, baseMax:number, rowIndex:number){
+function pickRowHeight(rng:Rng, baseMin:number, baseMax:number, rowIndex:number){
   // чётные строки — «короче», нечётные — «выше», чтобы получалась «стяжка» как в Picasa
   const shortMin = Math.max(baseMin, Math.floor((baseMin*1.0)));
   const shortMax = Math.max(shortMin, Math.floor((baseMax*0.78)));
   const tallMin  = Math.max(baseMin, Math.floor((baseMin*1.1)));
   const tallMax  = Math.min(baseMax, Math.floor((baseMax*1.15)));
   const [lo, hi] = (rowIndex % 2 === 0) ? [shortMin, shortMax] : [tallMin, tallMax];
-  return randInt(lo, hi);
+  return randInt(rng, lo, hi);
 }
 
 // NEW: «фаза» ослабления аспектов, чтобы гарантированно заполнить строку/артборд
@@ -134,9 +158,36 @@ function sanitizeMoodFromHeight(hStr:string){
   return { w: snap16(HD.BASE_W * k), h: snap16(HD.BASE_H * k) };
 }
 
-function randInt(min:number, max:number){ return Math.floor(Math.random()*(max-min+1))+min; }
-function randChoice<T>(arr:T[]){ return arr[Math.floor(Math.random()*arr.length)]; }
-function shuffleInPlace<T>(a:T[]){ for(let i=a.length-1;i>0;i--){ const j=Math.floor(Math.random()*(i+1)); [a[i],a[j]]=[a[j],a[i]]; } return a; }
+// Раскладка Moodboard детерминирована: вся случайность — из генератора с seed (mulberry32),
+// поэтому тот же seed на тех же айтемах и холсте даёт ту же доску на любой машине
+type Rng = () => number; // [0, 1)
+function makeRng(seed:number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+// новый seed для Shuffle — он сам случайный
+function newSeed(){ return crypto.getRandomValues(new Uint32Array(1))[0]; }
+// seed показываем и принимаем 8 hex-символами
+const formatSeed = (seed:number) => (seed >>> 0).toString(16).padStart(8, '0');
+function parseSeed(s:string): number | null {
+  const v = s.trim().toLowerCase();
+  return /^[0-9a-f]{1,8}$/.test(v) ? parseInt(v, 16) >>> 0 : null;
+}
+
+// seed по умолчанию — от id доски (FNV-1a), чтобы у доски без Shuffle раскладка тоже была постоянной
+function boardSeed(id:string){ let h = 0x811c9dc5; for (let i=0;i<id.length;i++) h = Math.imul(h ^ id.charCodeAt(i), 0x01000193); return h >>> 0; }
+const SEED_HISTORY = 20;
+const ALTERNATIVES_MAX = 12; // закреплённых вариантов на доску (столько же принимает сервер)
+
+function randInt(rng:Rng, min:number, max:number){ return Math.floor(rng()*(max-min+1))+min; }
+function randChoice<T>(rng:Rng, arr:T[]){ return arr[Math.floor(rng()*arr.length)]; }
+function shuffleInPlace<T>(rng:Rng, a:T[]){ for(let i=a.length-1;i>0;i--){ const j=Math.floor(rng()*(i+1)); [a[i],a[j]]=[a[j],a[i]]; } return a; }
 
 // NEW: извлечение натуральных размеров из Blob (используйте при добавлении изображений)
 async function readImageBlobSize(blob: Blob): Promise<{w:number; h:number}> {
@@ -243,6 +294,23 @@ async function maybeDeleteIdb(url: string) {
   }
 }
 
+// копия айтемов для другой доски: новые id и собственные копии idb-блобов,
+// чтобы удаление в одной доске не стирало картинку в другой
+async function cloneItemsForBoard(arr: SBItem[], boardId: BoardKey): Promise<SBItem[]> {
+  const out: SBItem[] = [];
+  const copy = async (u: string) => {
+    if (!isIdbUrl(u)) return u;
+    const blob = await idbGetBlob(idFromIdbUrl(u)).catch(() => null);
+    return blob ? IDB_URL_PREFIX + await idbPutBlob(blob) : u;
+  };
+  for (const it of arr) {
+    const url = await copy(it.url);
+    const thumb = it.thumb ? await copy(it.thumb) : it.thumb;
+    out.push({ ...it, id: uid(), url, thumb, board: boardId });
+  }
+  return out;
+}
+
 // permissions + validation
 async function ensureClipboardReadPermission(): Promise<void> {
   try {
@@ -284,16 +352,180 @@ async function validateUrl(u: string): Promise<boolean> {
 
 function round2(n:number){ return Math.round(n*100)/100 }
 
-function loadBoard(key: BoardKey): SBItem[] {
+// служебные ключи с "_" — uid() его не генерирует, с id досок не пересекутся.
+// Ключи default-проекта оставлены как были до появления проектов.
+const PROJECT_LS_KEY = 'styleboard:_project';
+const boardsLsKey = (project: string) => project === DEFAULT_PROJECT ? 'styleboard:_boards' : `styleboard:_boards:${project}`;
+const activeLsKey = (project: string) => project === DEFAULT_PROJECT ? 'styleboard:_active' : `styleboard:_active:${project}`;
+// сессия (токен + пользователь) одна на все проекты; роль в каждом проекте своя
+const SESSION_LS_KEY = 'sb:session';
+function loadSession(): Session | null {
+  try {
+    const s = JSON.parse(localStorage.getItem(SESSION_LS_KEY) || 'null');
+    return s && typeof s.token === 'string' && s.user ? s : null;
+  } catch { return null; }
+}
+
+// до какого комментария дочитан каждый тред (время последнего просмотренного) — для метки непрочитанного
+const COMMENTS_SEEN_LS_KEY = 'sb:commentsSeen';
+function loadCommentsSeen(): Record<string, number> {
+  try { return JSON.parse(localStorage.getItem(COMMENTS_SEEN_LS_KEY) || '{}') || {}; } catch { return {}; }
+}
+// непрочитан, если после просмотра в треде написал кто-то другой
+function threadUnread(t: Thread, seen: Record<string, number>, me: string | null) {
+  return t.comments.some(c => c.createdAt > (seen[t.id] ?? 0) && (!me || c.authorId !== me));
+}
+
+function loadBoardList(project: string): BoardMeta[] {
+  try {
+    const raw = localStorage.getItem(boardsLsKey(project));
+    const arr = raw ? JSON.parse(raw) : null;
+    if (Array.isArray(arr) && arr.length) return arr;
+  } catch {}
+  if (project === DEFAULT_PROJECT) return DEFAULT_BOARDS.slice();
+  // у нового проекта реальные доски придут с сервера; пустые локальные заглушки потом отбросим
+  return [
+    { id: uid(), name: "Moodboard",  type: "mood" },
+    { id: uid(), name: "Styleboard", type: "style" },
+  ];
+}
+function saveBoardList(project: string, boards: BoardMeta[]) {
+  try { localStorage.setItem(boardsLsKey(project), JSON.stringify(boards)); } catch {}
+}
+function loadActiveBoard(project: string, boards: BoardMeta[]): BoardKey {
+  const id = localStorage.getItem(activeLsKey(project));
+  return boards.some(b => b.id === id) ? id! : boards[0].id;
+}
+
+// стартовые размеры холста — по типу доски
+const DEFAULT_CANVAS: Record<BoardType, {w:number; h:number}> = {
+  mood:  { w: 3840, h: 2160 },  // чётная кратность 1920×1080
+  style: { w: 12000, h: 12000 },
+};
+const DEFAULT_CAMERA = { scale: 1, tx: 0, ty: 0 };
+
+// как нас видят другие на доске: имя — из аккаунта, цвет — от id вкладки
+const PEER_COLORS = ['#f87171', '#fb923c', '#facc15', '#4ade80', '#2dd4bf', '#60a5fa', '#a78bfa', '#f472b6'];
+function peerColor(id: string) {
+  let h = 0;
+  for (let i = 0; i < id.length; i++) h = (h * 31 + id.charCodeAt(i)) >>> 0;
+  return PEER_COLORS[h % PEER_COLORS.length];
+}
+function initials(name: string) {
+  return name.split(/\s+/).filter(Boolean).slice(0, 2).map(w => w[0]!.toUpperCase()).join('') || '?';
+}
+
+// === Схема сохранённых айтемов ===
+// Версия пишется вместе с доской: в localStorage ({ schema, items }), в sb_boards/sb_snapshots, в архив.
+// Старые данные поднимаем цепочкой: MIGRATIONS[v] переводит из v в v + 1
+const SCHEMA_VERSION = 2;
+const MIGRATIONS: Record<number, (items: any[]) => any[]> = {
+  // 1 → 2: флаг approved → статус согласования
+  1: arr => arr.map(it => APPROVAL_STATUSES.includes(it?.status) ? it : { ...it, status: it?.approved ? 'approved' : 'proposed' }),
+};
+
+export function migrateItems(arr: any[], from: number): any[] {
+  if (from > SCHEMA_VERSION) console.warn(`[schema] data v${from} is newer than app v${SCHEMA_VERSION}`);
+  let out = arr;
+  for (let v = Math.max(1, from); v < SCHEMA_VERSION; v++) out = MIGRATIONS[v](out);
+  return out;
+}
+
+// всё, что приходит с сервера, remote.ts поднимает этими же миграциями
+setRemoteSchema(SCHEMA_VERSION, migrateItems);
+
+const ITEM_KINDS: ItemKind[] = ['image', 'video', 'site'];
+
+// холст доски в клетках: сохранённый размер, а без него — стартовый для типа
+function boardCells(canvas: { w: number; h: number }) {
+  return { W: Math.floor(canvas.w / GRID), H: Math.floor(canvas.h / GRID) };
+}
+
+// Проверка айтемов до раскладки: чиним, что можно, остальное отбрасываем.
+//  - нет url / не объект — выбрасываем;
+//  - нет id или повтор, неизвестный kind/status, битые natW/natH/natR — чиним;
+//  - размер не число или < 1 клетки — размер по умолчанию для вида;
+//  - позиция не число, за пределами холста или наезд на соседа — ставим заново в свободное место.
+// Границы — холст этой доски (W×H клеток): на мудборде за его краем тайл никто не увидит
+export function validateItems(raw: unknown[], W: number, H: number): { items: SBItem[]; repaired: number; dropped: number } {
+  const seen = new Set<string>();
+  const out: (SBItem | null)[] = [];
+  const placed: SBItem[] = [];
+  const homeless: number[] = [];
+  let repaired = 0, dropped = 0;
+
+  for (const r of raw) {
+    const src = r as any;
+    if (!src || typeof src !== 'object' || typeof src.url !== 'string' || !src.url) { dropped++; continue; }
+    const it: SBItem = { ...src };
+    let fixed = false;
+    if (typeof it.id !== 'string' || !it.id || seen.has(it.id)) { it.id = uid(); fixed = true; }
+    seen.add(it.id);
+    if (!ITEM_KINDS.includes(it.kind)) { it.kind = detectKind(it.url); fixed = true; }
+    if (!APPROVAL_STATUSES.includes(it.status)) { it.status = 'proposed'; fixed = true; }
+    for (const k of ['natW', 'natH', 'natR'] as const) {
+      if (it[k] != null && !(Number.isFinite(it[k]) && it[k]! > 0)) { delete it[k]; fixed = true; }
+    }
+    // locked хранится только как true: отсутствие — не закреплён (иначе false и undefined различались бы при сравнении)
+    if (it.locked !== undefined && it.locked !== true) { if (it.locked !== false) fixed = true; delete it.locked; }
+    const size = (v: unknown, def: number) => typeof v === 'number' && Number.isFinite(v) && v >= 1 ? Math.round(v) : def;
+    const gw = Math.min(W, size(it.gw, it.kind === 'site' ? TILE_IFRAME_W : TILE_W));
+    const gh = Math.min(H, size(it.gh, it.kind === 'site' ? TILE_IFRAME_H : TILE_H));
+    const gx = Number.isFinite(it.gx) ? Math.round(it.gx) : NaN;
+    const gy = Number.isFinite(it.gy) ? Math.round(it.gy) : NaN;
+    if (gw !== it.gw || gh !== it.gh || gx !== it.gx || gy !== it.gy) fixed = true;
+    Object.assign(it, { gx, gy, gw, gh });
+    const inside = gx >= 0 && gy >= 0 && gx + gw <= W && gy + gh <= H;
+    const clash = inside && placed.some(o => gx < o.gx + o.gw && o.gx < gx + gw && gy < o.gy + o.gh && o.gy < gy + gh);
+    if (inside && !clash) placed.push(it);
+    else { homeless.push(out.length); fixed = true; }
+    if (fixed) repaired++;
+    out.push(it);
+  }
+
+  // бездомных — в свободные места, порядок айтемов не меняем
+  for (const idx of homeless) {
+    const it = out[idx]!;
+    const pos = findPlacementSnakePacked(placed, it.gw, it.gh, W, H);
+    if (!pos) { out[idx] = null; dropped++; repaired--; continue; }
+    it.gx = pos.gx;
+    it.gy = pos.gy;
+    placed.push(it);
+  }
+
+  if (repaired || dropped) console.warn(`[schema] repaired ${repaired}, dropped ${dropped} item(s)`);
+  return { items: out.filter((i): i is SBItem => i !== null), repaired, dropped };
+}
+
+// старый формат — голый массив айтемов (v1)
+function loadBoard(key: BoardKey, type: BoardType): SBItem[] {
   try {
     const raw = localStorage.getItem(`styleboard:${key}`);
     if (!raw) return [];
-    const arr = JSON.parse(raw);
-    return Array.isArray(arr) ? arr : [];
+    const data = JSON.parse(raw);
+    const arr = Array.isArray(data) ? data : data?.items;
+    if (!Array.isArray(arr)) return [];
+    const from = Array.isArray(data) ? 1 : Number(data.schema) || 1;
+    const { W, H } = boardCells(loadSettings(key).canvas ?? DEFAULT_CANVAS[type]);
+    return validateItems(migrateItems(arr, from), W, H).items;
   } catch { return []; }
 }
 function saveBoard(key: BoardKey, items: SBItem[]) {
-  try { localStorage.setItem(`styleboard:${key}`, JSON.stringify(items)); } catch {}
+  try { localStorage.setItem(`styleboard:${key}`, JSON.stringify({ schema: SCHEMA_VERSION, items })); } catch {}
+}
+
+// настройки доски (холст, интенсивность, seed, раскладка) — отдельным ключом; в БД — sb_boards.settings.
+// Камера лежит там же, но только локально: вид у каждого участника свой
+type LocalSettings = BoardSettings & { camera?: { scale: number; tx: number; ty: number } };
+const settingsLsKey = (key: BoardKey) => `styleboard:settings:${key}`;
+function loadSettings(key: BoardKey): LocalSettings {
+  try {
+    const s = JSON.parse(localStorage.getItem(settingsLsKey(key)) || '{}');
+    return s && typeof s === 'object' ? s : {};
+  } catch { return {}; }
+}
+function saveSettings(key: BoardKey, s: LocalSettings) {
+  try { localStorage.setItem(settingsLsKey(key), JSON.stringify(s)); } catch {}
 }
 
 
@@ -424,8 +656,17 @@ function* centerOut1D(anchor:number, lo:number, hi:number){
 // === IndexedDB for media blobs ===
 const IDB_NAME = 'styleboard';
 const IDB_STORE = 'media';
-// было: 1
-const IDB_VERSION = 2; // ← чтобы не «даунгрейдить» существующую БД
+const IDB_OUTBOX = 'outbox'; // неотправленные в БД правки (очередь remote.ts)
+// миграции IndexedDB: IDB_MIGRATIONS[v] поднимает базу с версии v до v + 1
+const IDB_MIGRATIONS: ((db: IDBDatabase) => void)[] = [
+  // 0 → 1: хранилище медиа
+  db => { db.createObjectStore(IDB_STORE, { keyPath: 'id' }); },
+  // 1 → 2: схема та же (версию подняли вслед за старой сборкой); пустые базы той поры добиваем хранилищем
+  db => { if (!db.objectStoreNames.contains(IDB_STORE)) db.createObjectStore(IDB_STORE, { keyPath: 'id' }); },
+  // 2 → 3: офлайн-очередь записи; seq задаёт порядок отправки
+  db => { db.createObjectStore(IDB_OUTBOX, { keyPath: 'seq', autoIncrement: true }); },
+];
+const IDB_VERSION = IDB_MIGRATIONS.length;
 type SBMediaRow = { id: string; blob: Blob; mime: string; createdAt: number };
 
 // helper для полного удаления БД (используем при ?sb=clear)
@@ -442,16 +683,14 @@ function idbOpen(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
     const req = indexedDB.open(IDB_NAME, IDB_VERSION);
 
-    req.onupgradeneeded = () => {
-      const db = req.result;
-      if (!db.objectStoreNames.contains(IDB_STORE)) {
-        db.createObjectStore(IDB_STORE, { keyPath: 'id' });
-      }
+    req.onupgradeneeded = (e) => {
+      for (let v = e.oldVersion; v < IDB_VERSION; v++) IDB_MIGRATIONS[v](req.result);
     };
 
     req.onsuccess = () => resolve(req.result);
 
-    // NEW: аккуратно обрабатываем «даунгрейд» — открываем без указания версии
+    // база новее кода (открыли старую сборку после новой): открываем как есть — новые версии
+    // обязаны оставлять хранилище медиа совместимым
     req.onerror = () => {
       const err = req.error;
       if (err && (err as any).name === 'VersionError') {
@@ -505,6 +744,28 @@ async function idbDeleteBlob(id: string): Promise<void> {
   db.close();
 }
 
+// очередь записи в БД — в той же базе, что и медиа
+async function idbOutboxTx<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest | void): Promise<T> {
+  const db = await idbOpen();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(IDB_OUTBOX, mode);
+      const req = fn(tx.objectStore(IDB_OUTBOX));
+      tx.oncomplete = () => resolve(req ? req.result : undefined);
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+const idbOutbox: OutboxStore = {
+  list: () => idbOutboxTx<OutboxEntry[]>('readonly', s => s.getAll()),
+  add: e => idbOutboxTx('readwrite', s => { s.add(e); }),
+  remove: seq => idbOutboxTx('readwrite', s => { s.delete(seq); }),
+};
+setRemoteOutbox(idbOutbox);
+
 // === fast occupancy: grid + prefix sums (O(1) проверка прямоугольника) ===
 
 type OccPS = { grid: Uint8Array; ps: Uint32Array };
@@ -1013,7 +1274,20 @@ function colRangesForRatios(ratios:number[], w:number, eps:number, minCell:numbe
 }
 
 type MoodLayoutMode = 'rows' | 'cols' | 'combo';
-type MoodShuffleMode = 'auto' | 'rows' | 'cols' | 'combo';
+type MoodShuffleMode = 'auto' | 'rows' | 'cols' | 'combo'; // auto — BSP
+// выбор раскладки на доске: режим, держать ли аспекты, прилипание швов соседних полос
+export type MoodLayout = { mode: MoodShuffleMode; keepAspect: boolean; columnBias: number };
+export const DEFAULT_MOOD_LAYOUT: MoodLayout = { mode: 'auto', keepAspect: true, columnBias: COLUMN_BIAS };
+const MOOD_MODES: { mode: MoodShuffleMode; label: string; title: string }[] = [
+  { mode: 'auto', label: 'BSP', title: 'Рекурсивные разрезы холста' },
+  { mode: 'rows', label: 'Rows', title: 'Justified-строки' },
+  { mode: 'cols', label: 'Cols', title: 'Masonry-колонки' },
+  { mode: 'combo', label: 'Combo', title: '2–3 блока: в каждом строки или колонки' },
+];
+// вариант раскладки целиком задают seed, интенсивность и режим (при тех же айтемах и холсте)
+type MoodAlternative = NonNullable<BoardSettings['alternatives']>[number];
+const layoutKey = (l: MoodLayout) => `${l.mode}:${l.keepAspect ? 1 : 0}:${l.columnBias}`;
+const altKey = (a: MoodAlternative) => `${a.seed}:${a.intensity}:${layoutKey(a.layout ?? DEFAULT_MOOD_LAYOUT)}`;
 type MoodOpts = {
   fullFill: boolean;
   keepAspect: boolean;
@@ -1022,23 +1296,166 @@ type MoodOpts = {
   columnBias: number;  // 0..1
 };
 
-function layoutMoodboardCombo(itemsIn: SBItem[], W:number, H:number, optsBase: MoodOpts): SBItem[] {
+// целые части total пропорционально weights (наибольшие остатки); nonEmpty — каждая не меньше 1
+function splitInt(total:number, weights:number[], nonEmpty:boolean = true) {
+  const sum = weights.reduce((a,b)=>a+b,0) || 1;
+  const raw = weights.map(w => w / sum * total);
+  const out = raw.map(Math.floor);
+  let rest = total - out.reduce((a,b)=>a+b,0);
+  const byFrac = raw.map((v,i)=>({i, f: v - Math.floor(v)})).sort((a,b)=>b.f-a.f);
+  for (let k=0; rest>0; k++, rest--) out[byFrac[k % byFrac.length].i]++;
+  // нулевые части добираем у самой большой
+  for (let i=0;i<out.length && nonEmpty;i++) {
+    if (out[i] > 0) continue;
+    const big = out.indexOf(Math.max(...out));
+    if (out[big] < 2) break;
+    out[big]--; out[i]++;
+  }
+  return out;
+}
+
+// как splitInt, но каждая часть не меньше min: кому по весу досталось бы меньше, получает ровно min,
+// остаток делится между прочими. Не влезают все по min — обычный splitInt
+function splitIntMin(total:number, weights:number[], min:number) {
+  if (weights.length * min > total) return splitInt(total, weights);
+  const low = new Set<number>();
+  for (;;) {
+    const rest = total - low.size * min;
+    const sum = weights.reduce((a,w,i)=> low.has(i) ? a : a + w, 0) || 1;
+    const more = weights.flatMap((w,i)=> !low.has(i) && w / sum * rest < min ? [i] : []);
+    if (!more.length) break;
+    more.forEach(i => low.add(i));
+  }
+  const out = splitInt(total - low.size * min, weights.map((w,i)=> low.has(i) ? 0 : w), false);
+  return out.map((v,i)=> low.has(i) ? min : v);
+}
+
+// длины тайлов в полосе толщиной th так, чтобы сумма была ровно span и каждая не меньше minCell:
+// допуск аспекта растёт от RATIO_EPS_BASE шагами RATIO_EPS_STEP до cap; не влезли — тянем пропорционально
+function fitStrip(ratios:number[], th:number, span:number, rows:boolean, cap:number, minCell:number) {
+  for (let eps = RATIO_EPS_BASE; eps <= cap + 1e-9; eps += RATIO_EPS_STEP) {
+    const { mins, maxs } = rows
+      ? rowRangesForRatios(ratios, th, eps, minCell, span)
+      : colRangesForRatios(ratios, th, eps, minCell, span);
+    const lo = mins.reduce((a,b)=>a+b,0), hi = maxs.reduce((a,b)=>a+b,0);
+    if (lo > span || hi < span) continue;
+    const k = hi > lo ? (span - lo) / (hi - lo) : 0;
+    return splitIntMin(span, mins.map((m,i)=> m + (maxs[i]-m)*k), minCell);
+  }
+  return splitIntMin(span, ratios.map(r => rows ? r : 1/r), minCell);
+}
+
+// Полосы без отступов: rows — justified-строки (айтемы подряд, строка набирается до своей доли),
+// cols — masonry-колонки (айтем в самую короткую колонку). keepAspect — толщина полосы по её айтемам,
+// чтобы аспекты сошлись; иначе полосы равные, а тайлы тянутся. columnBias — швы соседних полос
+// прилипают друг к другу (до половины толщины полосы при 1)
+function layoutMoodboardStrips(itemsIn: SBItem[], W:number, H:number, opts: MoodOpts, rng: Rng): SBItem[] {
+  const items = itemsIn.filter(Boolean).map(i => ({ ...i }));
+  if (!items.length || W <= 0 || H <= 0) return items;
+  if (opts.fullFill) shuffleInPlace(rng, items);
+
+  const rows = opts.mode !== 'cols';
+  const span = rows ? W : H, depth = rows ? H : W;
+  const ratios = items.map(getAspect);
+  const f = ratios.map(r => rows ? r : 1/r); // длина тайла вдоль полосы на единицу толщины
+  const total = f.reduce((a,b)=>a+b,0);
+
+  const group = (K:number) => {
+    const strips: number[][] = Array.from({ length: K }, () => []);
+    const sums = new Array<number>(K).fill(0);
+    if (rows) {
+      let k = 0, acc = 0;
+      items.forEach((_, i) => {
+        const left = items.length - i;
+        if (k < K-1 && strips[k].length && (acc + f[i]/2 > total * (k+1) / K || left <= K-1-k)) k++;
+        strips[k].push(i); sums[k] += f[i]; acc += f[i];
+      });
+    } else {
+      items.forEach((_, i) => {
+        const k = sums.indexOf(Math.min(...sums));
+        strips[k].push(i); sums[k] += f[i];
+      });
+    }
+    return { strips, sums };
+  };
+  // насколько полосы натуральной толщины (span/Σf) не совпадают с depth: 0 — сходятся без искажений
+  const misfit = (sums:number[]) => Math.abs(Math.log(sums.reduce((a, s) => a + span / s, 0) / depth));
+
+  // тот же нижний предел стороны, что у BSP на последней попытке: без него полосы и тайлы
+  // с крайними аспектами схлопывались в щели шириной в клетку
+  let minC = computeMinSideCells(W, H, items.length, opts.intensity, 3);
+  // при натуральных аспектах K полос толщиной depth/K закрывают span, когда K ≈ √(Σf·depth/span)
+  const k0 = Math.sqrt(total * depth / span);
+  const kMax = Math.max(1, Math.min(items.length, Math.floor(depth / minC)));
+  const kJ = clamp(Math.round(k0 * (1 + (rng()*2 - 1) * 0.3 * opts.intensity)), 1, kMax);
+  // полоса годится, если все её тайлы по minC вдоль неё помещаются в span
+  const fits = (g: ReturnType<typeof group>) => g.strips.every(s => s.length * minC <= span);
+  // ближайший к kJ годный K; keepAspect — из соседних годных берём тот, где полосы сходятся лучше
+  let best = group(kJ);
+  for (let d = 1; !fits(best) && d < kMax; d++) {
+    const g = [kJ + d, kJ - d].filter(K => K >= 1 && K <= kMax).map(group).find(fits);
+    if (g) best = g;
+  }
+  if (!fits(best)) { best = group(kJ); minC = 1; }
+  if (opts.keepAspect) {
+    for (let K = Math.max(1, kJ - 2); K <= Math.min(kMax, kJ + 2); K++) {
+      const g = group(K);
+      if (fits(g) && misfit(g.sums) < misfit(best.sums)) best = g;
+    }
+  }
+  const { strips, sums } = best;
+
+  const thick = splitIntMin(depth, opts.keepAspect ? sums.map(s => 1 / s) : sums.map(() => 1), minC);
+  const cap = opts.keepAspect ? RATIO_EPS_MAX : Math.max(RATIO_EPS_MAX, 0.5 * opts.intensity);
+
+  let off = 0;
+  let prevSeams: number[] = [];
+  strips.forEach((idxs, k) => {
+    const th = thick[k];
+    const lens = fitStrip(idxs.map(i => ratios[i]), th, span, rows, cap, minC);
+    const seams: number[] = [];
+    lens.slice(0, -1).reduce((a, l) => { seams.push(a + l); return a + l; }, 0);
+
+    if (opts.columnBias > 0 && prevSeams.length) {
+      const tol = Math.round(opts.columnBias * th / 2);
+      seams.forEach((sPos, j) => {
+        const near = prevSeams.reduce((b, p) => Math.abs(p - sPos) < Math.abs(b - sPos) ? p : b, prevSeams[0]);
+        const lo = (j ? seams[j-1] : 0) + minC, hi = (j < seams.length-1 ? seams[j+1] : span) - minC;
+        if (Math.abs(near - sPos) <= tol && near >= lo && near <= hi) seams[j] = near;
+      });
+    }
+
+    const edges = [0, ...seams, span];
+    idxs.forEach((i, j) => {
+      const it = items[i];
+      const a = edges[j], len = edges[j+1] - edges[j];
+      if (rows) { it.gx = a; it.gy = off; it.gw = len; it.gh = th; }
+      else { it.gx = off; it.gy = a; it.gw = th; it.gh = len; }
+    });
+    prevSeams = seams;
+    off += th;
+  });
+
+  return items;
+}
+
+function layoutMoodboardCombo(itemsIn: SBItem[], W:number, H:number, optsBase: MoodOpts, rng: Rng): SBItem[] {
   const items = itemsIn.filter(Boolean).map(i => ({ ...i }));
   if (!items.length) return items;
 
   const fullFill = !!optsBase.fullFill;
-  if (fullFill) shuffleInPlace(items);
+  if (fullFill) shuffleInPlace(rng, items);
 
-  // разбиваем на 2 или 3 блока
-  const blocks = (Math.random() < (0.5 + 0.4*optsBase.intensity)) ? 3 : 2;
+  // разбиваем на 2 или 3 блока (но не больше, чем айтемов)
+  const blocks = Math.min(items.length, (rng() < (0.5 + 0.4*optsBase.intensity)) ? 3 : 2);
   // случайно — вертикальные (делим W) или горизонтальные (делим H)
-  const vertical = Math.random() < 0.5;
+  const vertical = rng() < 0.5;
 
   // пропорции (мягкие, чтобы не было «узких» полос)
   const parts:number[] = [];
   let rest = 1;
   for (let i=0;i<blocks-1;i++){
-    const p = clamp(Math.random()*0.5 + 0.25, 0.2, 0.6); // 0.25..0.75
+    const p = clamp(rng()*0.5 + 0.25, 0.2, 0.6); // 0.25..0.75
     const take = (i===blocks-1) ? rest : clamp(p*rest, 0.2, rest - 0.2*(blocks-1-i));
     parts.push(take); rest -= take;
   }
@@ -1065,14 +1482,16 @@ function layoutMoodboardCombo(itemsIn: SBItem[], W:number, H:number, optsBase: M
     const batch = items.slice(cursor, cursor + cnt).map(i => ({ ...i }));
     cursor += cnt;
 
-    const wPart = vertical ? Math.max(1, Math.floor(W * parts[bi])) : W;
-    const hPart = vertical ? H : Math.max(1, Math.floor(H * parts[bi]));
+    // последний блок забирает остаток — без щели от округления
+    const last = bi === blocks-1;
+    const wPart = vertical ? (last ? W - offX : Math.max(1, Math.floor(W * parts[bi]))) : W;
+    const hPart = vertical ? H : (last ? H - offY : Math.max(1, Math.floor(H * parts[bi])));
 
     // иногда в блоке — строки, иногда — колонки
-    const mode: MoodLayoutMode = Math.random() < 0.5 ? 'rows' : 'cols';
+    const mode: MoodLayoutMode = rng() < 0.5 ? 'rows' : 'cols';
     const opts: MoodOpts = { ...optsBase, mode, fullFill: true };
 
-    const laid = layoutMoodboard(batch, wPart, hPart, { fullFill: true, intensity: opts.intensity });
+    const laid = layoutMoodboardStrips(batch, wPart, hPart, opts, rng);
 
     // сдвигаем координаты блоком
     for (const it of laid) {
@@ -1111,7 +1530,7 @@ function computeMinSideCells(W:number, H:number, count:number, t:number, attempt
   return Math.max(minClamp, Math.min(maxClamp, minC));
 }
 
-function bspTile(count:number, W:number, H:number, t:number, attempt:number=0): Region[] {
+function bspTile(count:number, W:number, H:number, t:number, rng:Rng, attempt:number=0): Region[] {
   // динамический минимум
   const MINC = computeMinSideCells(W, H, count, t, attempt);
   const RMIN = R_MIN, RMAX = R_MAX;
@@ -1135,7 +1554,7 @@ function bspTile(count:number, W:number, H:number, t:number, attempt:number=0):
     const idxs = regions.map((r,i)=>({i, a:r.w*r.h, ar:r.w/r.h, n:r.n}))
                         .filter(r=>r.n>1);
     if (!idxs.length) return -1;
-    if (t > 0.6) return idxs[randInt(0, idxs.length-1)].i;
+    if (t > 0.6) return idxs[randInt(rng, 0, idxs.length-1)].i;
     idxs.sort((A,B)=>{
       const fa = Math.abs(Math.log(A.ar));
       const fb = Math.abs(Math.log(B.ar));
@@ -1171,18 +1590,18 @@ function bspTile(count:number, W:number, H:number, t:number, attempt:number=0):
 
     // ориентация разреза
     const preferV = r.w > r.h;
-    const coin = Math.random();
+    const coin = rng();
     let tryV = coin < (0.5 + (preferV ? (0.15*(1-t)) : -(0.15*(1-t))));
     if (tryV && !vr && hr) tryV = false;
     if (!tryV && !hr && vr) tryV = true;
 
     // сколько элементов отправить в первую часть (с учётом возможного долга, который прилепим позже)
     const n = r.n;
-    const k = randInt(1, n-1);
+    const k = randInt(rng, 1, n-1);
 
     // целевая доля площади
     const jitter = 0.1 + 0.35*t;
-    const wantP = clamp(k / n + (Math.random()*2 - 1)*jitter, 0.15, 0.85);
+    const wantP = clamp(k / n + (rng()*2 - 1)*jitter, 0.15, 0.85);
 
     if (tryV) {
       const [wMin, wMax] = vr!;
@@ -1222,13 +1641,13 @@ function bspTile(count:number, W:number, H:number, t:number, attempt:number=0):
         const hr = hRange(r.w, r.h);
         if (!vr && !hr) { r.n = 1; continue; }
         const preferV = r.w > r.h;
-        const coin = Math.random();
+        const coin = rng();
         let tryV = coin < (0.5 + (preferV ? (0.15*(1-t)) : -(0.15*(1-t))));
         if (tryV && !vr && hr) tryV = false;
         if (!tryV && !hr && vr) tryV = true;
-        const k = randInt(1, r.n-1);
+        const k = randInt(rng, 1, r.n-1);
         const jitter = 0.1 + 0.35*t;
-        const wantP = clamp(k / r.n + (Math.random()*2 - 1)*jitter, 0.15, 0.85);
+        const wantP = clamp(k / r.n + (rng()*2 - 1)*jitter, 0.15, 0.85);
 
         if (tryV) {
           const [wMin, wMax] = vr!;
@@ -1255,20 +1674,20 @@ function bspTile(count:number, W:number, H:number, t:number, attempt:number=0):
   return leaves;
 }
 
-function layoutMoodboard(itemsIn: SBItem[], W:number, H:number, opts: { fullFill: boolean; intensity: number }): SBItem[] {
+function layoutMoodboard(itemsIn: SBItem[], W:number, H:number, opts: { fullFill: boolean; intensity: number }, rng: Rng): SBItem[] {
   if (!itemsIn?.length) return [];
   if (!Number.isFinite(W) || !Number.isFinite(H) || W <= 0 || H <= 0) {
     return itemsIn.filter(Boolean).map(i => ({ ...i }));
   }
 
   const items = itemsIn.filter(Boolean).map(i => ({ ...i }));
-  if (opts.fullFill) shuffleInPlace(items);
+  if (opts.fullFill) shuffleInPlace(rng, items);
 
   const count = items.length;
   let leaves: Region[] = [];
   // до 4 попыток: каждый раз динамический мин.размер ещё меньше
   for (let attempt = 0; attempt < 4; attempt++) {
-    leaves = bspTile(count, W, H, opts.intensity, attempt);
+    leaves = bspTile(count, W, H, opts.intensity, rng, attempt);
     if (leaves.length === count) break;
   }
 
@@ -1276,14 +1695,14 @@ function layoutMoodboard(itemsIn: SBItem[], W:number, H:number, opts: { fullFill
   // остальным отдадим самые большие листья по два (но это практически не случится с п.1–2)
   if (leaves.length !== count) {
     console.warn('[moodboard] bsp produced', leaves.length, 'of', count, '— retrying with minimal cells');
-    leaves = bspTile(count, W, H, opts.intensity, 99); // максимально агрессивно: min side → 2
+    leaves = bspTile(count, W, H, opts.intensity, rng, 99); // максимально агрессивно: min side → 2
   }
 
   // сортировки по аспекту
   const byLeafRatio = leaves.map((r,idx)=>({idx, ratio: r.w / r.h})).sort((a,b)=>a.ratio-b.ratio);
   const withNat = items.map((it,idx)=>({idx, ratio: getAspect(it)}));
   if (opts.intensity < 0.2) withNat.sort((a,b)=>a.ratio-b.ratio);
-  else shuffleInPlace(withNat);
+  else shuffleInPlace(rng, withNat);
 
   const out = items.slice();
   const N = Math.min(leaves.length, out.length);
@@ -1313,43 +1732,164 @@ function getAspect(it?: SBItem): number {
     return 4/3;
 }
 
-function reflowMoodboard(prev: SBItem[], W:number, H:number, intensity100:number=40) {
-  const t = Math.min(1, Math.max(0, intensity100/100));
-  const laid = layoutMoodboard(prev.filter(i=>i.kind==='image' || i.kind==='video'), W, H, { fullFill:false, intensity:t });
-  return hasOverlapExact(laid, W, H) ? layoutMoodboard(prev.filter(i=>i.kind==='image' || i.kind==='video'), W, H, { fullFill:true, intensity:t }) : laid;
+// Искажение аспекта раскладки: насколько тайлы (gw/gh) отходят от натурального аспекта getAspect.
+// Среднее |ln(тайл/натура)| с весом по площади тайла, в долях: 0 — без кропа, 0.25 — в среднем на 25%
+function aspectDistortion(items: SBItem[]) {
+  let sum = 0, area = 0;
+  for (const it of items) {
+    if ((it.kind !== 'image' && it.kind !== 'video') || it.gw <= 0 || it.gh <= 0) continue;
+    const a = it.gw * it.gh;
+    sum += a * Math.abs(Math.log((it.gw / it.gh) / getAspect(it)));
+    area += a;
+  }
+  return area ? Math.exp(sum / area) - 1 : 0;
 }
 
-function shuffleMoodboard(prev: SBItem[], W:number, H:number, intensity100:number) {
-  try {
-    const t = Math.min(1, Math.max(0, intensity100/100));
+// Свободное место холста за вычетом закреплённых тайлов — непересекающимися прямоугольниками:
+// режем на полосы по верхним/нижним краям препятствий, в полосе берём промежутки между ними,
+// одинаковые промежутки соседних полос склеиваем по вертикали
+export function freeRects(W:number, H:number, obstacles: SBItem[]) {
+  const ys = [...new Set([0, H, ...obstacles.flatMap(o => [o.gy, o.gy + o.gh]).map(y => clamp(y, 0, H))])].sort((a,b)=>a-b);
+  const done: { x:number; y:number; w:number; h:number }[] = [];
+  let open = new Map<string, { x:number; y:number; w:number; h:number }>();
+  for (let k=0; k<ys.length-1; k++) {
+    const y0 = ys[k], y1 = ys[k+1];
+    const cover = obstacles.filter(o => o.gy < y1 && o.gy + o.gh > y0).sort((a,b)=>a.gx-b.gx);
+    const gaps: [number, number][] = [];
+    let x = 0;
+    for (const o of cover) {
+      if (o.gx > x) gaps.push([x, Math.min(o.gx, W)]);
+      x = Math.max(x, o.gx + o.gw);
+    }
+    if (x < W) gaps.push([x, W]);
+    const next = new Map<string, { x:number; y:number; w:number; h:number }>();
+    for (const [a, b] of gaps) {
+      const key = `${a}:${b}`;
+      const r = open.get(key);
+      if (r) { r.h += y1 - y0; open.delete(key); next.set(key, r); }
+      else next.set(key, { x: a, y: y0, w: b - a, h: y1 - y0 });
+    }
+    done.push(...open.values());
+    open = next;
+  }
+  return [...done, ...open.values()];
+}
 
-    // 1) базовая BSP-раскладка
-    let laid = layoutMoodboard(prev.filter(i=>i.kind==='image' || i.kind==='video'), W, H, { fullFill:true, intensity:t });
-    // 2) пост-дотяжка к краям
-    laid = stretchToCanvasEdges(laid, W, H);
+// Закреплённые тайлы — неподвижные препятствия: остальные раскладываем fn в свободных прямоугольниках,
+// айтемы делим между ними по площади
+function layoutAroundLocked(items: SBItem[], W:number, H:number, fullFill:boolean, rng: Rng,
+  fn: (batch: SBItem[], w:number, h:number) => SBItem[]): SBItem[] {
+  const fixed = items.filter(i => i.locked);
+  if (!fixed.length) return fn(items, W, H);
+  const free = items.filter(i => !i.locked);
+  const rects = freeRects(W, H, fixed).filter(r => r.w >= 2 && r.h >= 2);
+  if (!free.length || !rects.length) return items.map(i => ({ ...i }));
+  if (fullFill) shuffleInPlace(rng, free);
+
+  const counts = splitInt(free.length, rects.map(r => r.w * r.h), false);
+  const laid = new Map<string, SBItem>();
+  let cursor = 0;
+  rects.forEach((r, k) => {
+    if (!counts[k]) return;
+    const batch = free.slice(cursor, cursor + counts[k]);
+    cursor += counts[k];
+    for (const it of fn(batch, r.w, r.h)) laid.set(it.id, { ...it, gx: it.gx + r.x, gy: it.gy + r.y });
+  });
+  return items.map(i => laid.get(i.id) ?? { ...i });
+}
 
-    // 3) sanity-check: пересечения запрещены
-    if (hasOverlapExact(laid, W, H)) {
-      console.warn('[moodboard/shuffle] overlap after stretch — re-layout once');
-      // однократный перешафл без stretch (обычно конфликт даёт именно растяжка)
-      const retry = layoutMoodboard(prev.filter(i=>i.kind==='image' || i.kind==='video'), W, H, { fullFill:true, intensity:t });
-      if (!hasOverlapExact(retry, W, H)) return retry;
+// раскладка выбранным на доске режимом: auto — BSP, rows/cols — полосы, combo — блоки из полос
+function layoutMoodboardAs(items: SBItem[], W:number, H:number, t:number, fullFill:boolean, layout: MoodLayout, rng: Rng) {
+  return layoutAroundLocked(items, W, H, fullFill, rng, (batch, w, h) => {
+    const opts = (mode: MoodLayoutMode): MoodOpts => ({ fullFill, keepAspect: layout.keepAspect, mode, intensity: t, columnBias: layout.columnBias });
+    if (layout.mode === 'combo') return layoutMoodboardCombo(batch, w, h, opts('combo'), rng);
+    if (layout.mode !== 'auto') return layoutMoodboardStrips(batch, w, h, opts(layout.mode), rng);
+    // BSP не режет узкие полосы (аспект листа ограничен R_MIN..R_MAX) — где он не справился, кладём полосами
+    const laid = layoutMoodboard(batch, w, h, { fullFill, intensity:t }, rng);
+    return hasOverlapExact(laid, w, h) ? layoutMoodboardStrips(batch, w, h, opts(w >= h ? 'rows' : 'cols'), rng) : laid;
+  });
+}
 
-      // на всякий случай 2-й вариант: BSP+stretch, вдруг другой раскрой ок
-      const retry2 = stretchToCanvasEdges(retry, W, H);
-      if (!hasOverlapExact(retry2, W, H)) return retry2;
+// Потеря на кроп: какую долю исходника object-cover срезает в тайле gw×gh. Аспект — настоящий
+// (natR / natW×natH, без клампа getAspect): 9:16 в тайле 16:9 теряет 68%. null — размер исходника неизвестен
+export function cropLoss(it: SBItem): number | null {
+  if (it.kind !== 'image' && it.kind !== 'video') return null;
+  const r = typeof it.natR === 'number' && it.natR > 0.01 ? it.natR
+    : Number(it.natW) > 0 && Number(it.natH) > 0 ? Number(it.natW) / Number(it.natH) : null;
+  if (!r || !isFinite(r) || it.gw <= 0 || it.gh <= 0) return null;
+  const q = it.gw / it.gh;
+  return 1 - Math.min(r, q) / Math.max(r, q);
+}
 
-      // крайний fallback: вернём вариант без растяжки
-      console.warn('[moodboard/shuffle] overlap persists — return non-stretched layout');
-      return retry;
-    }
-    return laid;
+// качество доски: сколько исходников видно в среднем, с весом по площади тайла (1 — без кропа)
+export function cropQuality(items: SBItem[]): { quality: number; measured: number } | null {
+  let kept = 0, area = 0, measured = 0;
+  for (const it of items) {
+    const loss = cropLoss(it);
+    if (loss === null) continue;
+    const a = it.gw * it.gh;
+    kept += a * (1 - loss);
+    area += a;
+    measured++;
+  }
+  return area ? { quality: kept / area, measured } : null;
+}
+
+// Раскладка зависит только от набора айтемов, seed, интенсивности и режима, но не от порядка массива
+// (его меняет сама раскладка, запись и чужие правки): внутрь — медиа в порядке id, наружу — в порядке prev
+function seededLayout(prev: SBItem[], fn: (media: SBItem[]) => SBItem[]): SBItem[] {
+  const media = prev.filter(i=>i.kind==='image' || i.kind==='video');
+  const byId = new Map(fn([...media].sort((a,b)=> a.id < b.id ? -1 : a.id > b.id ? 1 : 0)).map(i => [i.id, i]));
+  return media.map(i => byId.get(i.id) ?? { ...i });
+}
+
+// seed — тот же, что у доски: перекладка после добавления или ресайза холста тоже воспроизводима
+export function reflowMoodboard(prev: SBItem[], W:number, H:number, intensity100:number, seed:number, layout: MoodLayout) {
+  const t = Math.min(1, Math.max(0, intensity100/100));
+  const rng = makeRng(seed);
+  return seededLayout(prev, media => {
+    const laid = layoutMoodboardAs(media, W, H, t, false, layout, rng);
+    return hasOverlapExact(laid, W, H) ? layoutMoodboardAs(media, W, H, t, true, layout, rng) : laid;
+  });
+}
+
+export function shuffleMoodboard(prev: SBItem[], W:number, H:number, intensity100:number, seed:number, layout: MoodLayout) {
+  try {
+    return seededLayout(prev, media => shuffleMedia(media, W, H, intensity100, seed, layout));
   } catch (e) {
     console.error('[moodboard/shuffle] layout failed:', e);
     return Array.isArray(prev) ? prev.slice() : prev;
   }
 }
 
+function shuffleMedia(media: SBItem[], W:number, H:number, intensity100:number, seed:number, layout: MoodLayout) {
+  const t = Math.min(1, Math.max(0, intensity100/100));
+  // ретраи ниже тянут числа из того же генератора — результат всё равно определяется seed
+  const rng = makeRng(seed);
+
+  // 1) базовая раскладка выбранным режимом
+  let laid = layoutMoodboardAs(media, W, H, t, true, layout, rng);
+  // 2) пост-дотяжка к краям
+  laid = stretchToCanvasEdges(laid, W, H);
+
+  // 3) sanity-check: пересечения запрещены
+  if (hasOverlapExact(laid, W, H)) {
+    console.warn('[moodboard/shuffle] overlap after stretch — re-layout once');
+    // однократный перешафл без stretch (обычно конфликт даёт именно растяжка)
+    const retry = layoutMoodboardAs(media, W, H, t, true, layout, rng);
+    if (!hasOverlapExact(retry, W, H)) return retry;
+
+    // на всякий случай 2-й вариант: BSP+stretch, вдруг другой раскрой ок
+    const retry2 = stretchToCanvasEdges(retry, W, H);
+    if (!hasOverlapExact(retry2, W, H)) return retry2;
+
+    // крайний fallback: вернём вариант без растяжки
+    console.warn('[moodboard/shuffle] overlap persists — return non-stretched layout');
+    return retry;
+  }
+  return laid;
+}
+
 type Dir = 'right'|'left'|'down'|'up';
 
 function stretchToCanvasEdges(arrIn: SBItem[], W:number, H:number): SBItem[] {
@@ -1358,6 +1898,7 @@ function stretchToCanvasEdges(arrIn: SBItem[], W:number, H:number): SBItem[] {
 
   const tryGrow = (i: number, dir: Dir) => {
     const it = arr[i];
+    if (it.locked) return false; // закреплённый не растёт, но держит соседей
     const others = arr.filter((_,j)=>j!==i);
 
     if (dir === 'right') {
@@ -1441,6 +1982,8 @@ function computeEdgeShift(
     const rightIdxs = items.map((v,j)=>({v,j})).filter(o => o.v.gx === x0).map(o=>o.j);
 
     if (!leftIdxs.length || !rightIdxs.length) return { next: prev, applied: 0 };
+    // линия у закреплённого тайла стоит на месте
+    if ([...leftIdxs, ...rightIdxs].some(j => items[j].locked)) return { next: prev, applied: 0 };
 
     // допустимый диапазон delta (чтобы ни у кого не стало gw < 1 и не вылезли за мир)
     let lo = -Infinity, hi = Infinity;
@@ -1474,6 +2017,7 @@ function computeEdgeShift(
     const bottomIdxs = items.map((v,j)=>({v,j})).filter(o => o.v.gy === y0).map(o=>o.j);
 
     if (!topIdxs.length || !bottomIdxs.length) return { next: prev, applied: 0 };
+    if ([...topIdxs, ...bottomIdxs].some(j => items[j].locked)) return { next: prev, applied: 0 };
 
     // Верх: gh' = gh + d → d ≥ 1 - gh; gy + gh + d ≤ H → d ≤ H - (gy + gh)
     let lo = -Infinity, hi = Infinity;
@@ -1500,12 +2044,190 @@ function computeEdgeShift(
   }
 }
 
+// Сдвиг выделения на dx/dy клеток целиком: null — кто-то упёрся в холст, в соседа (с GUTTER) или закреплён
+export function moveItems(arr: SBItem[], ids: string[], dx: number, dy: number, W: number, H: number): SBItem[] | null {
+  const sel = new Set(ids);
+  const others = arr.filter(i => !sel.has(i.id));
+  if (arr.some(i => sel.has(i.id) && i.locked)) return null;
+  for (const it of arr) {
+    if (sel.has(it.id) && !canPlaceRect(it.gx + dx, it.gy + dy, it.gw, it.gh, others, W, H)) return null;
+  }
+  return arr.map(i => sel.has(i.id) ? { ...i, gx: i.gx + dx, gy: i.gy + dy } : i);
+}
+
+// === свободный ресайз тайлов styleboard ===
+// ручки: стороны света; у угла двигаются обе прилегающие стороны, противоположный угол стоит на месте
+type ResizeHandle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+export const MIN_TILE_CELLS = 4; // 64px
+
+// ближе GUTTER друг к другу — то же правило, что держит buildOccPS
+function tooClose(a: SBItem, b: SBItem) {
+  return !(a.gx + a.gw + GUTTER <= b.gx || b.gx + b.gw + GUTTER <= a.gx ||
+           a.gy + a.gh + GUTTER <= b.gy || b.gy + b.gh + GUTTER <= a.gy);
+}
+
+// новый прямоугольник тайла после сдвига ручки на dx/dy клеток; lock — держать пропорции исходного тайла
+function resizeRect(it: SBItem, h: ResizeHandle, dx: number, dy: number, lock: boolean) {
+  const horiz = h.includes('e') || h.includes('w');
+  const vert = h.includes('n') || h.includes('s');
+  let gw = Math.max(MIN_TILE_CELLS, it.gw + (h.includes('e') ? dx : h.includes('w') ? -dx : 0));
+  let gh = Math.max(MIN_TILE_CELLS, it.gh + (h.includes('s') ? dy : h.includes('n') ? -dy : 0));
+  if (lock) {
+    const r = it.gw / it.gh;
+    // на углу ведёт та сторона, что изменилась сильнее
+    if (horiz && (!vert || Math.abs(gw / it.gw - 1) >= Math.abs(gh / it.gh - 1))) gh = Math.max(MIN_TILE_CELLS, Math.round(gw / r));
+    else gw = Math.max(MIN_TILE_CELLS, Math.round(gh * r));
+  }
+  return {
+    gx: h.includes('w') ? it.gx + it.gw - gw : it.gx,
+    gy: h.includes('n') ? it.gy + it.gh - gh : it.gy,
+    gw, gh,
+  };
+}
+
+// Ресайз одного тайла: есть место — просто ставим; упёрлись в соседей — отодвигаем их
+// (цепочкой) в сторону роста; если кого-то пришлось бы вытолкнуть за холст — null, ресайз не проходит
+export function computeStyleResize(
+  prev: SBItem[], id: string, h: ResizeHandle, dx: number, dy: number, lock: boolean,
+  W: number, H: number // в клетках
+): SBItem[] | null {
+  const it = prev.find(i => i.id === id);
+  if (!it || it.locked) return null;
+  const r = resizeRect(it, h, dx, dy, lock);
+  if (r.gx < 0 || r.gy < 0 || r.gx + r.gw > W || r.gy + r.gh > H) return null;
+  const me: SBItem = { ...it, ...r };
+  const others = prev.filter(i => i.id !== id);
+
+  const { ps } = buildOccPS(others, W, H);
+  if (canPlacePS(r.gx, r.gy, r.gw, r.gh, ps, W, H)) return prev.map(i => i.id === id ? me : i);
+
+  const orig = new Map(prev.map(i => [i.id, i]));
+  const moved = new Map<string, SBItem>([[id, me]]);
+  const queue: SBItem[] = [me];
+  let guard = prev.length * 8;
+  while (queue.length) {
+    if (--guard < 0) return null;
+    const p = queue.shift()!;
+    const p0 = orig.get(p.id)!;
+    for (const o0 of others) {
+      const o = moved.get(o0.id) ?? o0;
+      if (o.id === p.id || !tooClose(p, o)) continue;
+      if (o.locked) return null; // закреплённого не отодвигаем
+      // толкаем по той оси, где сосед изначально лежал отдельно от толкающего; из двух — где сдвиг меньше
+      const cands: { gx: number; gy: number; cost: number }[] = [];
+      if (o0.gx >= p0.gx + p0.gw) cands.push({ gx: p.gx + p.gw + GUTTER, gy: o.gy, cost: p.gx + p.gw + GUTTER - o.gx });
+      if (o0.gx + o0.gw <= p0.gx) cands.push({ gx: p.gx - GUTTER - o.gw, gy: o.gy, cost: o.gx - (p.gx - GUTTER - o.gw) });
+      if (o0.gy >= p0.gy + p0.gh) cands.push({ gx: o.gx, gy: p.gy + p.gh + GUTTER, cost: p.gy + p.gh + GUTTER - o.gy });
+      if (o0.gy + o0.gh <= p0.gy) cands.push({ gx: o.gx, gy: p.gy - GUTTER - o.gh, cost: o.gy - (p.gy - GUTTER - o.gh) });
+      const c = cands.filter(c => c.cost > 0).sort((a, b) => a.cost - b.cost)[0];
+      if (!c) return null;
+      if (c.gx < 0 || c.gy < 0 || c.gx + o.gw > W || c.gy + o.gh > H) return null;
+      const next = { ...o, gx: c.gx, gy: c.gy };
+      moved.set(o.id, next);
+      queue.push(next);
+    }
+  }
+
+  const out = prev.map(i => moved.get(i.id) ?? i);
+  for (const a of moved.values()) {
+    if (out.some(b => b.id !== a.id && tooClose(a, b))) return null;
+  }
+  return out;
+}
+
 
-function AppInner() {
-  const [board, setBoard] = useState<BoardKey>("moodboard");
-  const [items, setItems] = useState<SBItem[]>(() => loadBoard("moodboard"));
-  // Только интенсивность для Moodboard
-  const [moodShuffleIntensity, setMoodShuffleIntensity] = useState<number>(40); // 0..100
+function AppInner({ project, session, shared, onSwitchProject, onSignIn, onSignOut }: {
+  project: string;
+  session: Session | null;
+  // открыто по ссылке: одна доска, только просмотр, без правки и панелей проекта
+  shared?: SharedBoard;
+  onSwitchProject: (id: string) => void;
+  onSignIn: (s: Session) => void;
+  onSignOut: () => void;
+}) {
+  const [boards, setBoards] = useState<BoardMeta[]>(() => shared ? [shared.board] : loadBoardList(project));
+  const [board, setBoard] = useState<BoardKey>(() => shared ? shared.board.id : loadActiveBoard(project, boards));
+  const [items, setItems] = useState<SBItem[]>(() => shared ? [] : loadBoard(board, boards.find(b => b.id === board)!.type));
+  const boardMeta = boards.find(b => b.id === board) ?? boards[0];
+  const boardType: BoardType = boardMeta.type;
+  // список проектов приходит с сервера; офлайн видим только текущий
+  const [projects, setProjects] = useState<ProjectMeta[]>([]);
+  // Только интенсивность для Moodboard — своя у каждой доски
+  const [intensityByBoard, setIntensityByBoard] = useState<Record<BoardKey, number>>(() => {
+    const s = loadSettings(board);
+    return s.intensity != null ? { [board]: s.intensity } : {};
+  });
+  const moodShuffleIntensity = intensityByBoard[board] ?? 40; // 0..100
+  function setMoodShuffleIntensity(v: number) {
+    setIntensityByBoard(prev => ({ ...prev, [board]: v }));
+    persistSettings({ intensity: v });
+  }
+  // seed раскладки Moodboard — тоже свой у доски; пока Shuffle не нажимали, берём от id доски
+  const [seedByBoard, setSeedByBoard] = useState<Record<BoardKey, number>>(() => {
+    const s = loadSettings(board);
+    return s.seed != null ? { [board]: s.seed } : {};
+  });
+  const moodSeed = seedByBoard[board] ?? boardSeed(board);
+  // прошлые seed за сессию — для «назад»; в настройки не пишем
+  const [seedHistory, setSeedHistory] = useState<Record<BoardKey, number[]>>({});
+  const prevSeeds = seedHistory[board] ?? [];
+
+  // режим раскладки Moodboard — свой у доски
+  const [layoutByBoard, setLayoutByBoard] = useState<Record<BoardKey, MoodLayout>>(() => {
+    const s = loadSettings(board);
+    return s.layout ? { [board]: s.layout } : {};
+  });
+  const moodLayout = layoutByBoard[board] ?? DEFAULT_MOOD_LAYOUT;
+  function setMoodLayout(patch: Partial<MoodLayout>) {
+    const next = { ...moodLayout, ...patch };
+    setLayoutByBoard(prev => ({ ...prev, [board]: next }));
+    persistSettings({ layout: next });
+    return next;
+  }
+  // правка из тулбара: сразу перекладываем доску новым режимом с тем же seed
+  function relayMoodLayout(patch: Partial<MoodLayout>) {
+    shuffleWithSeed(moodSeed, false, moodShuffleIntensity, setMoodLayout(patch));
+  }
+
+  // закреплённые варианты раскладки (seed, интенсивность, режим) — хранятся с доской, видны всем
+  const [alternativesByBoard, setAlternativesByBoard] = useState<Record<BoardKey, MoodAlternative[]>>(() => {
+    const s = loadSettings(board);
+    return s.alternatives ? { [board]: s.alternatives } : {};
+  });
+  const alternatives = alternativesByBoard[board] ?? [];
+  function toggleAlternative(a: MoodAlternative) {
+    const key = altKey(a);
+    const has = alternatives.some(x => altKey(x) === key);
+    if (!has && alternatives.length >= ALTERNATIVES_MAX) { showToast(`Не больше ${ALTERNATIVES_MAX} вариантов`, 'err'); return; }
+    const next = has ? alternatives.filter(x => altKey(x) !== key) : [...alternatives, { seed: a.seed, intensity: a.intensity, layout: a.layout }];
+    setAlternativesByBoard(prev => ({ ...prev, [board]: next }));
+    persistSettings({ alternatives: next });
+  }
+  const [variationsOpen, setVariationsOpen] = useState(false);
+
+  // раскладка из seed; remember — текущий seed уходит в историю
+  function shuffleWithSeed(seed: number, remember: boolean, intensity: number = moodShuffleIntensity, layout: MoodLayout = moodLayout) {
+    const id = board, from = moodSeed;
+    if (remember && seed !== from) setSeedHistory(prev => ({ ...prev, [id]: [...(prev[id] ?? []), from].slice(-SEED_HISTORY) }));
+    setSeedByBoard(prev => ({ ...prev, [id]: seed }));
+    persistSettings({ seed });
+    runHeavy('shuffle', () =>
+      setItemsUndo(prev => shuffleMoodboard(prev, WRef.current, HRef.current, intensity, seed, layout))
+    );
+  }
+  // вариант из галереи: раскладка та же, что в превью, — её задают seed, интенсивность и режим
+  function applyVariation(a: MoodAlternative) {
+    const layout = a.layout ?? DEFAULT_MOOD_LAYOUT;
+    if (a.intensity !== moodShuffleIntensity) setMoodShuffleIntensity(a.intensity);
+    if (altKey({ ...a, layout }) !== altKey({ ...a, layout: moodLayout })) setMoodLayout(layout);
+    shuffleWithSeed(a.seed, true, a.intensity, layout);
+  }
+  function shuffleBack() {
+    const seed = prevSeeds[prevSeeds.length - 1];
+    if (seed == null) return;
+    setSeedHistory(prev => ({ ...prev, [board]: prevSeeds.slice(0, -1) }));
+    shuffleWithSeed(seed, false);
+  }
 
   async function pasteLinkFromClipboard() {
     try {
@@ -1556,8 +2278,8 @@ function AppInner() {
     let url: string;
     const id = uid(); // используем ваш ID элемента
     
-    if (remoteReadyRef.current && passRef.current) {
-      const { publicUrl } = await uploadBlobToS3(board as any, id, blob, passRef.current);
+    if (canWrite()) {
+      const { publicUrl } = await uploadBlobToS3(board, id, blob);
       url = publicUrl; // ← http(s) ссылка, без data:
     } else {
       const idbId = await idbPutBlob(blob);
@@ -1565,11 +2287,10 @@ function AppInner() {
     }
 
     setItemsUndo(prev => {
-      const curBoard = boardRef.current;
       const curW = WRef.current, curH = HRef.current;
-      if (curBoard === 'moodboard') {
-        const it: SBItem = { id, url, kind: 'image', gx: 0, gy: 0, gw, gh, approved: false, board: boardRef.current };
-        const laid = reflowMoodboard([...prev, it], curW, curH, moodShuffleIntensity);
+      if (boardTypeRef.current === 'mood') {
+        const it: SBItem = { id, url, kind: 'image', gx: 0, gy: 0, gw, gh, status: 'proposed', board: boardRef.current };
+        const laid = reflowMood([...prev, it], curW, curH);
         showToast('Added', 'ok');
         // Добавляем натуральные размеры для moodboard
         assignNatSizeToItem(it, blob);
@@ -1581,7 +2302,7 @@ function AppInner() {
       const pos = findPlacementSnakePacked(prev, gw, gh, curW, curH);
       console.timeEnd('place');
       if (!pos) { showToast('Canvas size is limited', 'err'); return prev; }
-      const it: SBItem = { id, url, kind: 'image', gx: pos.gx, gy: pos.gy, gw, gh, approved: false, board: boardRef.current };
+      const it: SBItem = { id, url, kind: 'image', gx: pos.gx, gy: pos.gy, gw, gh, status: 'proposed', board: boardRef.current };
       showToast('Added', 'ok');
       if (LOG.placement) {
         const idx = prev.length + 1;
@@ -1591,56 +2312,81 @@ function AppInner() {
     });
   }
 
+  // закреплённый тайл раскладки и пакер обходят как препятствие
+  function toggleLock(id: string) {
+    if (blockedReadOnly()) return;
+    setItemsUndo(arr => arr.map(i => {
+      if (i.id !== id) return i;
+      const { locked, ...rest } = i;
+      return locked ? rest : { ...i, locked: true };
+    }));
+  }
+
+  // снимок сайта для экспорта: скриншот страницы из буфера (iframe чужого домена в canvas не нарисовать)
+  async function captureThumb(id: string) {
+    if (blockedReadOnly()) return;
+    try {
+      await ensureClipboardReadPermission();
+      // @ts-ignore
+      const clip: ClipboardItem[] = await navigator.clipboard.read();
+      for (const c of clip) {
+        const type = c.types.find(t => t.startsWith('image/'));
+        if (!type) continue;
+        const blob = await c.getType(type);
+        const thumb = canWrite()
+          ? (await uploadBlobToS3(board, `${id}-thumb`, blob)).publicUrl
+          : IDB_URL_PREFIX + await idbPutBlob(blob);
+        setItemsUndo(arr => arr.map(i => i.id === id ? { ...i, thumb } : i));
+        showToast('Thumbnail saved', 'ok');
+        return;
+      }
+      showToast('Copy a screenshot of the site first', 'err');
+    } catch {
+      showToast('Clipboard permission required', 'err');
+    }
+  }
+
   // ——— репакет "как при авто-подстановке" (в текущем порядке items) ———
+  // закреплённые стоят где стояли, остальные пакуются вокруг них
   function repackLikeAuto(prev: SBItem[], W:number, H:number): SBItem[] {
-    const placed: SBItem[] = [];
+    const placed: SBItem[] = prev.filter(i => i.locked);
+    const moved = new Map<string, SBItem>();
     for (const it of prev) {
+      if (it.locked) continue;
       const pos = findPlacementSnakePacked(placed, it.gw, it.gh, W, H) ?? spawnFor(it.gw, it.gh, W, H);
-      placed.push({ ...it, gx: pos.gx, gy: pos.gy });
+      const next = { ...it, gx: pos.gx, gy: pos.gy };
+      placed.push(next);
+      moved.set(it.id, next);
     }
-    return placed;
+    return prev.map(i => moved.get(i.id) ?? i);
   }
 
   // Преобразуем локальные idb:// ссылки в S3 URLs (чтобы шарились между браузерами)
   async function upgradeIdbUrls(arr: SBItem[]): Promise<SBItem[]> {
+    const upload = async (it: SBItem, u: string, key: string) => {
+      if (!isIdbUrl(u) || !canWrite()) return u;
+      const blob = await idbGetBlob(idFromIdbUrl(u));
+      if (!blob) return u;
+      return (await uploadBlobToS3(it.board ?? boardRef.current, key, blob)).publicUrl;
+    };
     const next: SBItem[] = [];
     for (const it of arr) {
-      if (isIdbUrl(it.url) && passRef.current) {
-        const blob = await idbGetBlob(idFromIdbUrl(it.url));
-        if (blob) {
-          const { publicUrl } = await uploadBlobToS3(it.board as any, it.id, blob, passRef.current);
-          next.push({ ...it, url: publicUrl });
-        } else {
-          next.push(it);
-        }
-      } else {
-        next.push(it);
-      }
+      const url = await upload(it, it.url, it.id);
+      const thumb = it.thumb ? await upload(it, it.thumb, `${it.id}-thumb`) : it.thumb;
+      next.push(url === it.url && thumb === it.thumb ? it : { ...it, url, thumb });
     }
     return next;
   }
 
-  // Мгновенная отправка без дебаунса (используем тот же API, что и в remote.ts)
-  async function flushToCloudNow(pass: string) {
-    const API = (import.meta as any).env?.VITE_API_BASE || '/api';
-    const payload = { board: boardRef.current, items: itemsRef.current, pass };
-    const r = await fetch(`${API}?op=save`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', 'x-pass': pass },
-      body: JSON.stringify(payload)
-    });
-    if (!r.ok) throw new Error(`${r.status} ${await r.text()}`);
-  }
-
-  // Принудительная запись пустого списка в БД (для любого борда)
-  async function flushBoardToCloud(boardKey: BoardKey, itemsNow: SBItem[], pass: string) {
-    const API = (import.meta as any).env?.VITE_API_BASE || '/api';
-    const r = await fetch(`${API}?op=save`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', 'x-pass': pass },
-      body: JSON.stringify({ board: boardKey, items: itemsNow })
-    });
-    if (!r.ok) throw new Error(await r.text());
+  // Доска, созданная офлайн, после входа уезжает в БД целиком: create идемпотентен,
+  // а сама доска на сервере ещё пустая — пишем без проверки ревизии
+  async function pushLocalBoard(meta: BoardMeta) {
+    const isCurrent = meta.id === boardRef.current;
+    const upgraded = await upgradeIdbUrls(isCurrent ? itemsRef.current : loadBoard(meta.id, meta.type));
+    await remoteBoardAction('create', meta);
+    await remoteSaveNow(meta.id, upgraded);
+    if (isCurrent && boardRef.current === meta.id) setItemsLoaded(upgraded);
+    else saveBoard(meta.id, upgraded);
   }
 
   function collectFill() {
@@ -1660,8 +2406,10 @@ function AppInner() {
 
     type Dir = 'right'|'left'|'down'|'up';
     const dirs: Dir[] = ['right','left','down','up'];
+    // закреплённые не растягиваем — они только препятствия
     const order = arr
       .map((it, idx) => ({ idx, key: it.gx * 100000 + it.gy }))
+      .filter(o => !arr[o.idx].locked)
       .sort((a,b)=>a.key - b.key)
       .map(o => o.idx);
 
@@ -1711,6 +2459,7 @@ function AppInner() {
 
   // прием Ctrl/Cmd+V без поля ввода
   useEffect(() => {
+    if (shared) return;
     const onPaste = async (e: ClipboardEvent) => {
       const dt = e.clipboardData;
       if (!dt) return;
@@ -1742,15 +2491,24 @@ function AppInner() {
   }, [board]); // ← теперь хэндлер перевешивается при смене борда
 
   // camera
-  const [cameraByBoard, setCameraByBoard] = useState<{[K in BoardKey]: {scale:number; tx:number; ty:number}}>(() => ({
-    moodboard:  { scale: 1, tx: 0, ty: 0 },
-    styleboard: { scale: 1, tx: 0, ty: 0 },
-  }));
-  const cam = cameraByBoard[board];
+  const [cameraByBoard, setCameraByBoard] = useState<Record<BoardKey, {scale:number; tx:number; ty:number}>>(() => {
+    const s = loadSettings(board);
+    return s.camera ? { [board]: s.camera } : {};
+  });
+  const cam = cameraByBoard[board] ?? DEFAULT_CAMERA;
   const scale = cam.scale, tx = cam.tx, ty = cam.ty;
 
+  // камеру запоминаем с паузой: панорама и зум дёргают её на каждый кадр. Только в localStorage —
+  // в общих настройках доски она перебивала бы вид другим участникам
+  const camSaveTimer = useRef<number | null>(null);
   function setCam(patch: Partial<{scale:number;tx:number;ty:number}>) {
-    setCameraByBoard(prev => ({ ...prev, [board]: { ...prev[board], ...patch }}));
+    const id = board;
+    setCameraByBoard(prev => {
+      const next = { ...(prev[id] ?? DEFAULT_CAMERA), ...patch };
+      if (camSaveTimer.current) window.clearTimeout(camSaveTimer.current);
+      camSaveTimer.current = window.setTimeout(() => { if (!shared) saveSettings(id, { ...loadSettings(id), camera: next }); }, 300);
+      return { ...prev, [id]: next };
+    });
   }
 
   const [spaceHeld, setSpaceHeld] = useState(false);
@@ -1766,11 +2524,48 @@ function AppInner() {
   useEffect(()=>{ itemsRef.current = items; }, [items]);
 
   // remote functionality refs
-  const passRef = useRef<string | null>(sessionStorage.getItem('sb:pass'));
   const remoteReadyRef = useRef<boolean>(false);
+  // роль в текущем проекте (null — не вошли или не участник); пишем в БД только с editor и выше
+  const [role, setRole] = useState<Role | null>(null);
+  const roleRef = useRef<Role | null>(null);
+  // вошли, но прав на запись нет — доска только для просмотра (без входа всё локально и редактируемо)
+  const [readOnly, setReadOnly] = useState(false);
+  const readOnlyRef = useRef(false);
+  const canWrite = () => remoteReadyRef.current && roleAtLeast(roleRef.current, 'editor');
+  function blockedReadOnly() {
+    if (readOnlyRef.current) showToast('View only', 'err');
+    return readOnlyRef.current;
+  }
+  const [signInOpen, setSignInOpen] = useState(false);
+  const [membersOpen, setMembersOpen] = useState(false);
+  const [sharesOpen, setSharesOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  // дошли ли правки до БД: saved / saving / offline / error
+  const [sync, setSync] = useState<SyncStatus>('saved');
+  useEffect(() => onSyncStatus(setSync), []);
+  // очередь в IndexedDB переживёт закрытие вкладки, а отложенная (ещё не отправленная) запись — нет
+  useEffect(() => {
+    if (sync !== 'saving') return;
+    const onBeforeUnload = (e: BeforeUnloadEvent) => { e.preventDefault(); e.returnValue = ''; };
+    window.addEventListener('beforeunload', onBeforeUnload);
+    return () => window.removeEventListener('beforeunload', onBeforeUnload);
+  }, [sync]);
+  const archiveInputRef = useRef<HTMLInputElement | null>(null);
 
   // единичный пуш в историю на старте перетаскивания
   const resizingRef = useRef(false);
+
+  // совместная работа: кто ещё на доске и где наш курсор (в координатах холста)
+  const [peers, setPeers] = useState<Peer[]>([]);
+  const cursorRef = useRef<{x:number; y:number} | null>(null);
+  const canvasRef = useRef<HTMLDivElement | null>(null);
+
+  function trackCursor(e: React.MouseEvent) {
+    const el = canvasRef.current;
+    if (!el) return;
+    const r = el.getBoundingClientRect();
+    cursorRef.current = { x: (e.clientX - r.left) / scale, y: (e.clientY - r.top) / scale };
+  }
   function onEdgeDragStart() {
     if (!resizingRef.current) {
       // один снимок в undo перед серией live-апдейтов
@@ -1784,12 +2579,120 @@ function AppInner() {
 
   // live-сдвиг линии; возвращает реально применённый delta (0, если упёрлись)
   function onEdgeDrag(id: string, edge: Dir, delta: number): number {
-    if (!delta) return 0;
+    if (!delta || readOnlyRef.current) return 0;
     const { next, applied } = computeEdgeShift(itemsRef.current, id, edge, delta, W, H);
     if (applied) setItems(next);
     return applied;
   }
 
+  // ресайз тайла на styleboard: каждый шаг считаем от состояния на старте жеста —
+  // отодвинутые соседи возвращаются на место, если тайл снова уменьшили
+  const resizeBaseRef = useRef<SBItem[] | null>(null);
+  const [aspectLock, setAspectLock] = useState(true);
+
+  function onResizeStart() {
+    if (readOnlyRef.current) return;
+    resizeBaseRef.current = itemsRef.current;
+    resizingRef.current = true;
+  }
+  // invert — Shift во время жеста меняет режим пропорций на противоположный
+  function onResize(id: string, handle: ResizeHandle, dx: number, dy: number, invert: boolean) {
+    const base = resizeBaseRef.current;
+    if (!base) return;
+    const next = computeStyleResize(base, id, handle, dx, dy, aspectLock !== invert, WRef.current, HRef.current);
+    if (next) setItems(next);
+  }
+  function onResizeEnd() {
+    const base = resizeBaseRef.current;
+    resizeBaseRef.current = null;
+    resizingRef.current = false;
+    if (base && itemsRef.current !== base) pushHistory(base);
+  }
+
+  // выделение: клик, Shift+клик, рамка по пустому месту. Выделенное двигается мышью и стрелками —
+  // только на styleboard: moodboard раскладывается целиком и свободных мест в нём нет
+  const [selected, setSelected] = useState<string[]>([]);
+  const [marquee, setMarquee] = useState<{ x1:number; y1:number; x2:number; y2:number } | null>(null);
+
+  // точка экрана → пиксели холста
+  function toCanvas(clientX: number, clientY: number) {
+    const r = canvasRef.current!.getBoundingClientRect();
+    return { x: (clientX - r.left) / scale, y: (clientY - r.top) / scale };
+  }
+
+  // группа сдвигается на dx/dy клеток, только если каждый встаёт без пересечений с остальными (с GUTTER)
+  function moveSelection(arr: SBItem[], ids: string[], dx: number, dy: number) {
+    return moveItems(arr, ids, dx, dy, WRef.current, HRef.current);
+  }
+
+  function onCanvasMouseDown(e: React.MouseEvent) {
+    if (e.button !== 0 || spaceHeld || ctrlHeld || e.ctrlKey || e.metaKey || preview || pinMode || !canvasRef.current) return;
+    const t = e.target as HTMLElement;
+    // кнопки HUD, пины, поля меню статуса живут своей жизнью
+    if (t.closest('button, input, textarea, select')) return;
+    const tile = t.closest<HTMLElement>('[data-item-id]');
+    if (tile) startTileDrag(e, tile.dataset.itemId!);
+    else startMarquee(e);
+  }
+
+  function startTileDrag(e: React.MouseEvent, id: string) {
+    if (e.shiftKey) {
+      setSelected(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+      return;
+    }
+    const ids = selected.includes(id) ? selected : [id];
+    setSelected(ids);
+    if (boardTypeRef.current !== 'style' || readOnlyRef.current) return;
+    e.preventDefault();
+
+    const startX = e.clientX, startY = e.clientY;
+    const base = itemsRef.current;
+    let last = { dx: 0, dy: 0 };
+    const onMove = (ev: MouseEvent) => {
+      const dx = Math.round((ev.clientX - startX) / (GRID * scale));
+      const dy = Math.round((ev.clientY - startY) / (GRID * scale));
+      if (dx === last.dx && dy === last.dy) return;
+      // упёрлись — остаёмся на последней допустимой позиции
+      const next = moveSelection(base, ids, dx, dy);
+      if (!next) return;
+      // один снимок в undo на весь жест; пока тянем, чужие правки не накатываем
+      if (!resizingRef.current) { pushHistory(base); resizingRef.current = true; }
+      last = { dx, dy };
+      setItems(next);
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+      resizingRef.current = false;
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  }
+
+  function startMarquee(e: React.MouseEvent) {
+    e.preventDefault();
+    const p0 = toCanvas(e.clientX, e.clientY);
+    const base = e.shiftKey ? selected : [];
+    const visible = itemsRef.current.filter(tileVisible);
+    setSelected(base);
+    const onMove = (ev: MouseEvent) => {
+      const p = toCanvas(ev.clientX, ev.clientY);
+      const r = { x1: Math.min(p0.x, p.x), y1: Math.min(p0.y, p.y), x2: Math.max(p0.x, p.x), y2: Math.max(p0.y, p.y) };
+      setMarquee(r);
+      const hit = visible
+        .filter(i => i.gx * GRID < r.x2 && (i.gx + i.gw) * GRID > r.x1 && i.gy * GRID < r.y2 && (i.gy + i.gh) * GRID > r.y1)
+        .map(i => i.id);
+      setSelected([...new Set([...base, ...hit])]);
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+      setMarquee(null);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  }
+
   function cloneSnap(arr: SBItem[]) { return arr.map(i => ({ ...i })); }
 
   function pushHistory(snapshot: SBItem[]) {
@@ -1800,6 +2703,7 @@ function AppInner() {
   }
 
   function setItemsUndo(updater: (prev:SBItem[]) => SBItem[]) {
+    if (blockedReadOnly()) return;
     setItems(prev => {
       pushHistory(prev);
       return updater(prev);
@@ -1807,6 +2711,7 @@ function AppInner() {
   }
 
   function undoLast() {
+    if (blockedReadOnly()) return;
     setItems(prev => {
       const snap = historyRef.current.pop();
       if (!snap) return prev;
@@ -1817,6 +2722,7 @@ function AppInner() {
   }
 
   function redoLast() {
+    if (blockedReadOnly()) return;
     setItems(prev => {
       const snap = redoRef.current.pop();
       if (!snap) return prev;
@@ -1827,12 +2733,33 @@ function AppInner() {
   }
 
   // canvas size per board
-  const [canvasByBoard, setCanvasByBoard] = useState<{[K in BoardKey]: {w:number; h:number}}>(() => ({
-    moodboard:  { w: 3840, h: 2160 },  // чётная кратность 1920×1080
-    styleboard: { w: 12000, h: 12000 },
-  }));
+  const [canvasByBoard, setCanvasByBoard] = useState<Record<BoardKey, {w:number; h:number}>>(() => {
+    const s = loadSettings(board);
+    return s.canvas ? { [board]: s.canvas } : {};
+  });
+
+  // настройки доски ставим до её items: холст задаёт W/H, под которые они разложены.
+  // Камера бывает только в локальных настройках (с сервера она не приходит)
+  function applySettings(id: BoardKey, s: LocalSettings) {
+    const c = s.canvas, i = s.intensity, sd = s.seed, l = s.layout, alt = s.alternatives, cm = s.camera;
+    if (c) setCanvasByBoard(prev => prev[id]?.w === c.w && prev[id]?.h === c.h ? prev : { ...prev, [id]: c });
+    if (i != null) setIntensityByBoard(prev => prev[id] === i ? prev : { ...prev, [id]: i });
+    if (sd != null) setSeedByBoard(prev => prev[id] === sd ? prev : { ...prev, [id]: sd });
+    // опрос приносит настройки каждый раз — без изменений состояние не трогаем (галерея вариантов пересчитывалась бы)
+    const keys = (a: MoodAlternative[]) => a.map(altKey).join(',');
+    if (l) setLayoutByBoard(prev => prev[id] && layoutKey(prev[id]) === layoutKey(l) ? prev : { ...prev, [id]: l });
+    if (alt) setAlternativesByBoard(prev => prev[id] && keys(prev[id]) === keys(alt) ? prev : { ...prev, [id]: alt });
+    if (cm) setCameraByBoard(prev => ({ ...prev, [id]: cm }));
+  }
+
+  // правка настроек: сразу в localStorage, в БД — если пишем (по ссылке — нигде)
+  function persistSettings(patch: BoardSettings, id: BoardKey = board) {
+    if (shared) return;
+    saveSettings(id, { ...loadSettings(id), ...patch });
+    if (canWrite()) remoteSaveSettings(id, patch);
+  }
 
-  const canvas = canvasByBoard[board];
+  const canvas = canvasByBoard[board] ?? DEFAULT_CANVAS[boardType];
   const canvasW = canvas.w;
   const canvasH = canvas.h;
 
@@ -1877,11 +2804,22 @@ function AppInner() {
 
   // Refs для актуальных значений в обработчиках событий
   const boardRef = useRef(board);
+  const boardTypeRef = useRef(boardType);
+  const boardsRef = useRef(boards);
   const WRef = useRef(W);
   const HRef = useRef(H);
   useEffect(() => { boardRef.current = board; }, [board]);
+  useEffect(() => { boardTypeRef.current = boardType; }, [boardType]);
+  useEffect(() => { boardsRef.current = boards; }, [boards]);
   useEffect(() => { WRef.current = W; }, [W]);
   useEffect(() => { HRef.current = H; }, [H]);
+  // настройки раскладки Moodboard — для обработчиков, подписанных раньше смены режима или seed
+  const moodRef = useRef({ intensity: moodShuffleIntensity, seed: moodSeed, layout: moodLayout });
+  useEffect(() => { moodRef.current = { intensity: moodShuffleIntensity, seed: moodSeed, layout: moodLayout }; }, [moodShuffleIntensity, moodSeed, moodLayout]);
+  function reflowMood(prev: SBItem[], w: number, h: number) {
+    const m = moodRef.current;
+    return reflowMoodboard(prev, w, h, m.intensity, m.seed, m.layout);
+  }
 
   function getCandidateDimsFromForm(): {w:number; h:number} {
     // Используем пересчитанные значения, если они есть
@@ -1889,7 +2827,7 @@ function AppInner() {
       return { w: recalculatedW, h: recalculatedH };
     }
     
-    if (board==='moodboard') {
+    if (boardType==='mood') {
       // Применяем снап к чётной кратности HD
       const wRaw = parseInt(formW||'0',10) || 0;
       const hRaw = parseInt(formH||'0',10) || 0;
@@ -1904,7 +2842,7 @@ function AppInner() {
   }
   const cand = getCandidateDimsFromForm();
   // Different limits for different boards
-  const minLimit = board === 'styleboard' ? 1920 : CANVAS_LIMITS.MIN;
+  const minLimit = boardType === 'style' ? 1920 : CANVAS_LIMITS.MIN;
   const outOfRange =
     cand.w < minLimit || cand.h < minLimit ||
     cand.w > CANVAS_LIMITS.MAX || cand.h > CANVAS_LIMITS.MAX;
@@ -1914,7 +2852,7 @@ function AppInner() {
   const hasRecalculated = recalculatedW !== null && recalculatedH !== null;
 
   function recalculateDimensions() {
-    if (board==='moodboard') {
+    if (boardType==='mood') {
       const wRaw = parseInt(formW||'0',10) || 0;
       const hRaw = parseInt(formH||'0',10) || 0;
       const snapped = snapToEvenHDMultiple(wRaw, hRaw);
@@ -1935,13 +2873,14 @@ function AppInner() {
 
     const { w: newW, h: newH } = getCandidateDimsFromForm();
     // Different limits for different boards
-    const minLimit = board === 'styleboard' ? 1920 : CANVAS_LIMITS.MIN;
+    const minLimit = boardType === 'style' ? 1920 : CANVAS_LIMITS.MIN;
     if (newW < minLimit || newH < minLimit) return;
     if (newW > CANVAS_LIMITS.MAX || newH > CANVAS_LIMITS.MAX) return;
     if (items.length > 0 && (newW < canvasW || newH < canvasH)) return; // защита только при наличии материалов
 
     // 1) применяем размеры пер-борда
     setCanvasByBoard(prev => ({ ...prev, [board]: { w: newW, h: newH }}));
+    persistSettings({ canvas: { w: newW, h: newH } });
 
     // 2) обновляем поля формы с применёнными значениями
     setFormW(String(newW));
@@ -1955,8 +2894,8 @@ function AppInner() {
     const Wn = Math.floor(newW / GRID);
     const Hn = Math.floor(newH / GRID);
 
-    if (board === 'moodboard') {
-      setItemsUndo(prev => reflowMoodboard(prev, Wn, Hn, moodShuffleIntensity));
+    if (boardType === 'mood') {
+      setItemsUndo(prev => reflowMood(prev, Wn, Hn));
     } else {
       setItemsUndo(prev => repackLikeAuto(prev, Wn, Hn));
     }
@@ -1988,10 +2927,10 @@ function AppInner() {
   type ToastKind = 'ok' | 'err';
   const [toast, setToast] = useState<{text:string; kind:ToastKind} | null>(null);
   const toastTimer = useRef<number | null>(null);
-  function showToast(text:string, kind:ToastKind) {
+  function showToast(text:string, kind:ToastKind, ms = 1200) {
     if (toastTimer.current) window.clearTimeout(toastTimer.current);
     setToast({ text, kind });
-    toastTimer.current = window.setTimeout(() => setToast(null), 1200) as any;
+    toastTimer.current = window.setTimeout(() => setToast(null), ms) as any;
   }
 
   // Стартовая центровка «происхождения» полотна (а не верхний левый угол)
@@ -2028,89 +2967,556 @@ function AppInner() {
     setShouldCenter(false);
   }, [shouldCenter, canvasW, canvasH]);
 
+  // последний массив, пришедший из загрузки (а не из правки) — его не отправляем обратно в БД
+  const loadedItemsRef = useRef<SBItem[] | null>(null);
+  // всё загруженное (локально, с сервера, из конфликта) — через validateItems; исправленное
+  // отличается от загруженного, поэтому эффект ниже сохранит починку.
+  // Холст передаём, если он пришёл вместе с items: W/H из состояния обновятся только к следующему рендеру
+  function setItemsLoaded(arr: SBItem[], canvas?: { w: number; h: number }) {
+    const { W, H } = canvas ? boardCells(canvas) : { W: WRef.current, H: HRef.current };
+    const { items: valid, repaired, dropped } = validateItems(arr, W, H);
+    loadedItemsRef.current = repaired || dropped ? arr : valid;
+    setItems(valid);
+  }
+
   useEffect(() => {
-    if (!remoteReadyRef.current) {
-      setItems(loadBoard(board));
-    }
-  }, [board]);
-  useEffect(() => {
-    saveBoard(board, items);
-    if (remoteReadyRef.current && passRef.current) {
-      remoteSave(board as any, items as any[], passRef.current);
-    }
+    // чужую доску по ссылке в localStorage не кладём
+    if (!shared) saveBoard(board, items);
+    if (items === loadedItemsRef.current) return;
+    if (canWrite()) remoteSave(board, items as any[]);
   }, [board, items]);
 
-  // Remote data loading
-  useEffect(() => {
-    (async () => {
-      // пробуем подцепить удалённые данные при старте
-      const data = await remoteLoad('moodboard');
-      if (Array.isArray(data)) {
-        remoteReadyRef.current = true;   // включаем «облако» даже если в БД пока пусто
-        setItems(data as any);           // пустой массив тоже валиден
-      }
-    })();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  // сервер отверг запись насовсем (422 и т. п.): очередь идёт дальше, а пользователю — что именно не так.
+  // Правки остаются на экране; следующая правка доски пошлёт их снова
+  useEffect(() => onRemoteRejected(r => {
+    const name = boardsRef.current.find(b => b.id === r.board)?.name ?? r.board;
+    const [first] = r.items;
+    const what = first ? `${first.id ?? `#${first.index + 1}`}: ${first.message}` : r.error;
+    const more = r.items.length > 1 ? ` (+${r.items.length - 1})` : '';
+    showToast(`${name} not saved — ${what}${more}`, 'err', 6000);
+  }), []);
+
+  // доску записали с другого клиента, пока у нас были несохранённые правки
+  const [conflictBoard, setConflictBoard] = useState<BoardKey | null>(null);
+  useEffect(() => onRemoteConflict(c => {
+    if (c.board === boardRef.current) setConflictBoard(c.board);
+  }), []);
+
+  async function resolveConflict(mode: ConflictResolution) {
+    const id = conflictBoard;
+    if (!id) return;
+    const next = await resolveRemoteConflict(id, mode, itemsRef.current as any[]);
+    if (!next) { showToast('DB is not reachable', 'err'); return; }
+    setConflictBoard(null);
+    if (boardRef.current !== id) return;
+    // свою версию оставляем в undo — к ней можно вернуться
+    pushHistory(itemsRef.current);
+    if (mode === 'reload') setItemsLoaded(next as any);
+    else { loadedItemsRef.current = next as any; setItems(next as any); }
+  }
 
-  // Чистим undo/redo при смене борда
-  useEffect(() => {
-    historyRef.current = [];
-    redoRef.current = [];
-  }, [board]);
+  // история версий доски (серверные снимки) и предпросмотр одного из них
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[] | null>(null);
+  const [preview, setPreview] = useState<(SnapshotMeta & { items: SBItem[] }) | null>(null);
+  const shownItems = preview ? preview.items : items;
 
-  // при смене борда — тоже пробуем удалённо
+  // открытая панель подхватывает историю новой доски
   useEffect(() => {
-    (async () => {
-      const data = await remoteLoad(board as any);
-      if (Array.isArray(data)) setItems(data as any);
-    })();
+    if (historyOpen) refreshSnapshots();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [board]);
 
-  // URL-флаг для очистки всего
-  useEffect(() => {
-    const params = new URLSearchParams(window.location.search);
-    const shouldClear = params.get('sb') === 'clear' || params.get('sbclear') === '1';
+  async function refreshSnapshots() {
+    const id = board;
+    const list = await remoteListSnapshots(id);
+    if (boardRef.current !== id) return;
+    setSnapshots(list);
+    if (!list) showToast('History is not available', 'err');
+  }
 
-    if (!shouldClear) return;
+  function toggleHistory() {
+    if (historyOpen) { setHistoryOpen(false); setPreview(null); return; }
+    setHistoryOpen(true);
+    refreshSnapshots();
+  }
 
-    // 1) localStorage
-    Object.keys(localStorage).forEach(k => {
-      if (k.startsWith('styleboard:')) localStorage.removeItem(k);
-    });
+  async function previewSnapshot(id: string) {
+    const b = board;
+    const snap = await remoteGetSnapshot(b, id);
+    if (boardRef.current !== b) return;
+    if (!snap) { showToast('Snapshot is not available', 'err'); return; }
+    setPreview({ ...snap, items: validateItems(snap.items, WRef.current, HRef.current).items });
+  }
 
-    // 2) IndexedDB
-    idbDrop().then(() => {
-      console.info('[styleboard] IDB dropped via ?sb=clear');
-    });
+  async function saveVersion() {
+    if (!canWrite()) { showToast('Editor access required', 'err'); return; }
+    const name = (prompt('Название версии:', '') || '').trim();
+    if (!name) return;
+    try {
+      await remoteCreateSnapshot(board, name);
+      showToast('Version saved', 'ok');
+      refreshSnapshots();
+    } catch (e) {
+      console.warn('[history] snapshot failed', e);
+      showToast('Version not saved', 'err');
+    }
+  }
+
+  async function restoreSnapshot(id: string) {
+    if (!canWrite()) { showToast('Editor access required', 'err'); return; }
+    const b = board;
+    try {
+      const restored = await remoteRestoreSnapshot(b, id);
+      if (boardRef.current !== b) return;
+      // текущее состояние остаётся в undo
+      pushHistory(itemsRef.current);
+      setItemsLoaded(restored as any);
+      setPreview(null);
+      showToast('Restored', 'ok');
+      refreshSnapshots();
+    } catch (e) {
+      console.warn('[history] restore failed', e);
+      showToast('Restore failed', 'err');
+    }
+  }
+
+  // обсуждения текущей доски: треды, открытая панель, раскрытый тред и черновик нового
+  const [threads, setThreads] = useState<Thread[]>([]);
+  const [commentsOpen, setCommentsOpen] = useState(false);
+  const [commentFilter, setCommentFilter] = useState<string | null>(null); // id айтема или null — все
+  const [activeThread, setActiveThread] = useState<string | null>(null);
+  const [draft, setDraft] = useState<{ item: string; px?: number; py?: number } | null>(null);
+  const [pinMode, setPinMode] = useState(false);
+  const [commentsSeen, setCommentsSeen] = useState<Record<string, number>>(loadCommentsSeen);
+  const commentsAtRef = useRef(-1);
+  const canComment = roleAtLeast(role, 'commenter');
+  const me = session?.user.id ?? null;
+  // треды удалённых айтемов не показываем (в БД они остаются — айтем может вернуться через undo)
+  const shownIds = new Set(shownItems.map(i => i.id));
+  const boardThreads = threads.filter(t => shownIds.has(t.item));
+  const unreadCount = boardThreads.filter(t => !t.resolved && threadUnread(t, commentsSeen, me)).length;
+
+  // статус ставим с автором и временем; на сервере автор — тот, чья запись (подпись не подделать)
+  function setItemStatus(id: string | string[], status: ApprovalStatus, note?: string) {
+    const ids = new Set(Array.isArray(id) ? id : [id]);
+    setItemsUndo(arr => arr.map(i => ids.has(i.id)
+      ? { ...i, status, statusNote: note?.trim() || null, statusBy: session?.user.name ?? null, statusAt: Date.now() }
+      : i));
+  }
+
+  // фильтр по статусу: остальные тайлы приглушаем или прячем
+  const [statusFilter, setStatusFilter] = useState<ApprovalStatus | 'all'>('all');
+  const [statusHide, setStatusHide] = useState(false);
+  const statusCounts = APPROVAL_STATUSES.map(st => shownItems.filter(i => i.status === st).length);
+  const tileVisible = (it: SBItem) => !statusHide || statusFilter === 'all' || it.status === statusFilter;
+
+  // карта кропа поверх тайлов и общий балл: после Shuffle видно, стало лучше или хуже
+  const [cropMap, setCropMap] = useState(false);
+  const quality = useMemo(() => boardType === 'mood' ? cropQuality(shownItems) : null, [boardType, shownItems]);
+  const [qualityDelta, setQualityDelta] = useState<number | null>(null);
+  const lastQuality = useRef<{ board: BoardKey; q: number } | null>(null);
+  useEffect(() => {
+    const prev = lastQuality.current;
+    const q = quality?.quality ?? null;
+    if (!prev || prev.board !== board || q === null) setQualityDelta(null);
+    else if (Math.abs(q - prev.q) > 1e-9) setQualityDelta(q - prev.q);
+    lastQuality.current = q === null ? null : { board, q };
+  }, [board, quality?.quality]);
+
+  // номер треда — порядковый на доске, как у пинов на тайлах
+  function tileComments(item: string): TileComments {
+    const own = boardThreads.filter(t => t.item === item);
+    return {
+      count: own.filter(t => !t.resolved).length,
+      unread: own.some(t => !t.resolved && threadUnread(t, commentsSeen, me)),
+      pins: own.filter(t => !t.resolved && t.px != null && t.py != null)
+        .map(t => ({ id: t.id, n: boardThreads.indexOf(t) + 1, px: t.px!, py: t.py!, active: commentsOpen && t.id === activeThread })),
+    };
+  }
+
+  async function refreshThreads() {
+    const id = board;
+    const list = await remoteListThreads(id);
+    if (list && boardRef.current === id) setThreads(list);
+  }
+
+  async function commentAction(payload: CommentAction) {
+    const id = board;
+    try {
+      const next = await remoteCommentAction(id, payload);
+      if (boardRef.current === id) setThreads(next);
+      return true;
+    } catch (e) {
+      console.warn('[comments] action failed', e);
+      showToast(e instanceof HttpError && typeof e.body?.error === 'string' ? e.body.error : 'Comment not saved', 'err');
+      return false;
+    }
+  }
+
+  function openComments(item: string | null, thread?: string) {
+    setCommentsOpen(true);
+    setCommentFilter(item);
+    setActiveThread(thread ?? null);
+    // без выбранного треда — сразу черновик на весь айтем
+    setDraft(item && !thread && canComment ? { item } : null);
+  }
+
+  function placePin(item: string, px: number, py: number) {
+    setPinMode(false);
+    openComments(item);
+    setDraft({ item, px, py });
+  }
+
+  // раскрытый тред считаем прочитанным
+  useEffect(() => {
+    const t = commentsOpen && threads.find(t => t.id === activeThread);
+    if (!t || !t.comments.length) return;
+    const last = t.comments[t.comments.length - 1].createdAt;
+    if ((commentsSeen[t.id] ?? 0) >= last) return;
+    const next = { ...commentsSeen, [t.id]: last };
+    setCommentsSeen(next);
+    try { localStorage.setItem(COMMENTS_SEEN_LS_KEY, JSON.stringify(next)); } catch {}
+  }, [commentsOpen, activeThread, threads]);
+
+  useEffect(() => {
+    if (!pinMode) return;
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') setPinMode(false); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [pinMode]);
+
+  useEffect(() => { if (!shared) saveBoardList(project, boards); }, [boards]);
+  useEffect(() => { if (!shared) try { localStorage.setItem(activeLsKey(project), board); } catch {} }, [board]);
+
+  // Remote data loading
+  useEffect(() => {
+    // по ссылке доска одна и известна заранее, права — из самой ссылки
+    if (shared) {
+      roleRef.current = shared.scope === 'comment' ? 'commenter' : 'viewer';
+      setRole(roleRef.current);
+      remoteReadyRef.current = true;
+      readOnlyRef.current = true;
+      setReadOnly(true);
+      return;
+    }
+    (async () => {
+      // сначала — кто мы в этом проекте; протухший токен сбрасываем
+      const me = session ? await remoteMe() : null;
+      if (me && !me.user) { showToast('Session expired, sign in again', 'err'); onSignOut(); return; }
+      roleRef.current = me?.role ?? null;
+      setRole(roleRef.current);
+
+      // список досок с сервера — он же признак того, что «облако» доступно
+      const list = await remoteListBoards();
+      if (!Array.isArray(list)) return;
+      remoteReadyRef.current = true;   // включаем «облако» даже если в БД пока пусто
+      readOnlyRef.current = !roleAtLeast(roleRef.current, 'editor');
+      setReadOnly(readOnlyRef.current);
+      // доски, созданные офлайн и ещё не записанные в БД, оставляем в конце списка
+      // (пустые локальные заглушки без материалов не тащим)
+      const localOnly = boardsRef.current.filter(b => !list.some(r => r.id === b.id) && loadBoard(b.id, b.type).length > 0);
+      const merged = [...list, ...localOnly];
+      if (!merged.length) return;
+      setBoards(merged);
+      if (!merged.some(b => b.id === boardRef.current)) switchBoard(merged[0]);
+      if (!canWrite()) return;
+      for (const b of localOnly) {
+        try { await pushLocalBoard(b); }
+        catch (e) { console.warn('[boards] local board upload failed', e); showToast(`«${b.name}» saved locally only`, 'err'); }
+      }
+    })();
+    (async () => {
+      const list = await remoteListProjects();
+      if (!Array.isArray(list)) return;
+      setProjects(list);
+      // сохранённый проект могли заархивировать с другой машины
+      if (project !== DEFAULT_PROJECT && !list.some(p => p.id === project)) onSwitchProject(DEFAULT_PROJECT);
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // живые изменения и присутствие других на текущей доске
+  useEffect(() => {
+    setPeers([]);
+    setThreads([]);
+    commentsAtRef.current = -1;
+    // без входа (и не по ссылке) сервер доску не отдаёт — работаем локально
+    if (!session && !shared) return;
+    // холст из того же опроса, что и items: до рендера W/H ещё старые
+    let polledCanvas: { w: number; h: number } | undefined;
+    return subscribeBoard(board, {
+      // пока тянем край тайла, чужое не накатываем — дождёмся конца жеста
+      getItems: () => resizingRef.current ? null : itemsRef.current,
+      getPresence: () => ({ color: peerColor(CLIENT_ID), ...(cursorRef.current ?? { x: null, y: null }) }),
+      onItems: (next, dirty) => {
+        if (boardRef.current !== board) return;
+        // с нашими правками — пусть уходят в БД обычным путём; без них — это просто загрузка
+        if (dirty) setItems(next as any);
+        else setItemsLoaded(next as any, polledCanvas);
+      },
+      onPeers: setPeers,
+      // холст и раскладку (интенсивность, seed, режим, варианты) меняют и другие участники
+      onSettings: s => {
+        polledCanvas = s.canvas;
+        if (boardRef.current === board) applySettings(board, s);
+      },
+      onComments: (at) => {
+        if (at === commentsAtRef.current) return;
+        commentsAtRef.current = at;
+        refreshThreads();
+      },
+    });
+  }, [board]);
+
+  // Чистим undo/redo при смене борда
+  useEffect(() => {
+    historyRef.current = [];
+    redoRef.current = [];
+  }, [board]);
+
+  // при смене борда — тоже пробуем удалённо
+  useEffect(() => {
+    (async () => {
+      const data = await remoteLoad(board);
+      // пока ждали ответ, могли переключиться на другую доску
+      if (!data || boardRef.current !== board) return;
+      applySettings(board, data.settings);
+      // общие настройки с сервера — и в localStorage, рядом со своей камерой
+      if (!shared) saveSettings(board, { ...loadSettings(board), ...data.settings });
+      setItemsLoaded(data.items as any, data.settings.canvas);
+    })();
+  }, [board]);
+
+  // items новой доски ставим в том же рендере, что и её id — иначе эффект записи
+  // успел бы сохранить items предыдущей доски под ключом новой
+  function switchBoard({ id, type }: BoardMeta) {
+    if (id === board) return;
+    setBoard(id);
+    const s = loadSettings(id);
+    applySettings(id, s);
+    setItemsLoaded(loadBoard(id, type), s.canvas ?? DEFAULT_CANVAS[type]);
+    setConflictBoard(null);
+    setPreview(null);
+    setSnapshots(null);
+    setCommentFilter(null);
+    setActiveThread(null);
+    setDraft(null);
+    setPinMode(false);
+    setSelected([]);
+  }
+
+  async function createBoard(type: BoardType) {
+    if (blockedReadOnly()) return;
+    const name = (prompt('Название доски:', type === 'mood' ? 'Moodboard' : 'Styleboard') || '').trim();
+    if (!name) return;
+    const meta: BoardMeta = { id: uid(), name, type, createdAt: Date.now() };
+    setBoards(prev => [...prev, meta]);
+    switchBoard(meta);
+    if (canWrite()) {
+      try { await remoteBoardAction('create', meta); }
+      catch (e) { console.warn('[boards] remote create failed', e); showToast('Board saved locally only', 'err'); }
+    }
+  }
+
+  async function renameBoard(id: BoardKey) {
+    const cur = boards.find(b => b.id === id);
+    if (!cur || blockedReadOnly()) return;
+    const name = (prompt('Новое название доски:', cur.name) || '').trim();
+    if (!name || name === cur.name) return;
+    setBoards(prev => prev.map(b => b.id === id ? { ...b, name } : b));
+    if (canWrite()) {
+      try { await remoteBoardAction('rename', { id, name }); }
+      catch (e) { console.warn('[boards] remote rename failed', e); showToast('Rename not saved to DB', 'err'); }
+    }
+  }
+
+  async function duplicateBoard(id: BoardKey) {
+    const src = boards.find(b => b.id === id);
+    if (!src || blockedReadOnly()) return;
+    const meta: BoardMeta = { id: uid(), name: `${src.name} copy`, type: src.type, createdAt: Date.now() };
+    if (canWrite()) {
+      try { await remoteBoardAction('duplicate', { id: meta.id, name: meta.name, from: id }); }
+      catch (e) { console.warn('[boards] remote duplicate failed', e); showToast('Duplicate failed', 'err'); return; }
+    } else {
+      const srcItems = id === boardRef.current ? itemsRef.current : loadBoard(id, src.type);
+      saveBoard(meta.id, await cloneItemsForBoard(srcItems, meta.id));
+    }
+    // сервер копирует настройки сам; локальную копию — тоже
+    saveSettings(meta.id, loadSettings(id));
+    setBoards(prev => {
+      const next = prev.slice();
+      next.splice(prev.findIndex(b => b.id === id) + 1, 0, meta);
+      return next;
+    });
+    switchBoard(meta);
+    showToast('Duplicated', 'ok');
+  }
+
+  async function exportArchive() {
+    try {
+      const r = await buildBoardArchive(boardMeta, itemsRef.current, canvas);
+      downloadBlob(r.blob, `${fileBase(boardMeta.name)}.styleboard.zip`);
+      if (r.skipped) showToast(`${r.skipped} media kept as links`, 'err');
+      else showToast('Exported', 'ok');
+    } catch (e) {
+      console.warn('[archive] export failed', e);
+      showToast('Export failed', 'err');
+    }
+  }
+
+  // импорт — всегда новая доска: новые id, медиа заново в S3 (если пишем в БД) или в IndexedDB
+  async function importArchive(file: File) {
+    if (blockedReadOnly()) return;
+    let parsed: Awaited<ReturnType<typeof readBoardArchive>>;
+    try { parsed = await readBoardArchive(file); }
+    catch (e) { showToast(e instanceof Error ? e.message : 'Import failed', 'err'); return; }
+    const { archive, files, dropped } = parsed;
+    const meta: BoardMeta = { id: uid(), name: archive.board.name || file.name, type: archive.board.type, createdAt: Date.now() };
+    const remote = canWrite();
+    // в IndexedDB уже положенное — чтобы убрать при сбое
+    const local: string[] = [];
+    const store = async (path: string | undefined, key: string) => {
+      const data = path ? files.get(path) : undefined;
+      if (!path || !data) return null;
+      const blob = new Blob([data as BlobPart], { type: mimeFromPath(path) });
+      if (remote) return (await uploadBlobToS3(meta.id, key, blob)).publicUrl;
+      const url = IDB_URL_PREFIX + await idbPutBlob(blob);
+      local.push(url);
+      return url;
+    };
+    // доску в БД заводим до загрузок: не создалась — в S3 ничего не ушло
+    if (remote) {
+      try { await remoteBoardAction('create', meta); }
+      catch { showToast('Import failed', 'err'); return; }
+    }
+    try {
+      const items: SBItem[] = [];
+      for (const { media, thumbMedia, ...it } of archive.items) {
+        const id = uid();
+        const url = await store(media, id) ?? it.url;
+        const thumb = await store(thumbMedia, `${id}-thumb`) ?? it.thumb ?? null;
+        items.push({ ...it, id, url, thumb, board: meta.id });
+      }
+      if (remote) await remoteSaveNow(meta.id, items);
+      saveBoard(meta.id, items);
+    } catch {
+      // недоимпортированную доску не оставляем (удалить в БД может только owner — тогда она останется пустой)
+      if (remote) await remoteBoardAction('delete', { id: meta.id }).catch(() => {});
+      for (const url of local) await maybeDeleteIdb(url);
+      showToast('Import failed', 'err');
+      return;
+    }
+    const c = archive.board.canvas;
+    if (c) persistSettings({ canvas: c }, meta.id);
+    setBoards(prev => [...prev, meta]);
+    switchBoard(meta);
+    showToast(dropped ? `Imported, ${dropped} broken item(s) skipped` : 'Imported', dropped ? 'err' : 'ok');
+  }
+
+  async function createProject() {
+    // проект заводит вошедший пользователь — он становится его владельцем
+    if (!session) { setSignInOpen(true); return; }
+    const name = (prompt('Название проекта:') || '').trim();
+    if (!name) return;
+    try {
+      const meta = await remoteProjectAction('create', { id: uid(), name });
+      if (!meta) throw new Error('empty response');
+      onSwitchProject(meta.id);
+    } catch (e) {
+      console.warn('[projects] create failed', e);
+      showToast('Project not created', 'err');
+    }
+  }
+
+  async function archiveProject() {
+    if (project === DEFAULT_PROJECT) return;
+    const meta = projects.find(p => p.id === project);
+    if (!window.confirm(`Архивировать проект «${meta?.name ?? project}»? Доски останутся в БД, но пропадут из списка.`)) return;
+    try {
+      await remoteProjectAction('archive', { id: project });
+      onSwitchProject(DEFAULT_PROJECT);
+    } catch (e) {
+      console.warn('[projects] archive failed', e);
+      showToast('Archive failed', 'err');
+    }
+  }
+
+  // проект, заведённый до аккаунтов, открывается по его старому секрету
+  async function joinProject() {
+    if (!session) { setSignInOpen(true); return; }
+    const id = (prompt('ID проекта:') || '').trim();
+    if (!id) return;
+    const secret = prompt('Секрет проекта:') || '';
+    if (!secret) return;
+    try {
+      await remoteJoinProject(id, secret);
+      onSwitchProject(id);
+    } catch (e) {
+      console.warn('[projects] join failed', e);
+      showToast('Wrong project or secret', 'err');
+    }
+  }
+
+  async function deleteBoard(id: BoardKey) {
+    const meta = boards.find(b => b.id === id);
+    if (!meta || blockedReadOnly()) return;
+    if (boards.length <= 1) { showToast('Нельзя удалить последнюю доску', 'err'); return; }
+    if (!window.confirm(`Удалить доску «${meta.name}» со всеми материалами?`)) return;
+    if (canWrite()) {
+      try { await remoteBoardAction('delete', { id }); }
+      catch (e) {
+        console.warn('[boards] remote delete failed', e);
+        showToast(e instanceof HttpError && e.status === 403 ? 'Only the owner can delete boards' : 'Delete failed', 'err');
+        return;
+      }
+    }
+    const doomed = id === boardRef.current ? itemsRef.current : loadBoard(id, meta.type);
+    for (const it of doomed) {
+      await maybeDeleteIdb(it.url);
+      if (it.thumb) await maybeDeleteIdb(it.thumb);
+    }
+    try { localStorage.removeItem(`styleboard:${id}`); localStorage.removeItem(settingsLsKey(id)); } catch {}
+    const rest = boards.filter(b => b.id !== id);
+    setBoards(rest);
+    if (id === boardRef.current) switchBoard(rest[0]);
+  }
+
+  // URL-флаг для очистки всего
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const shouldClear = params.get('sb') === 'clear' || params.get('sbclear') === '1';
+
+    if (!shouldClear) return;
+
+    // 1) localStorage
+    Object.keys(localStorage).forEach(k => {
+      if (k.startsWith('styleboard:')) localStorage.removeItem(k);
+    });
 
-    // 2.5) забываем пароль локально
-    sessionStorage.removeItem('sb:pass');
-    passRef.current = null;
+    // 2) IndexedDB
+    idbDrop().then(() => {
+      console.info('[styleboard] IDB dropped via ?sb=clear');
+    });
 
     // 3) локальный стейт
+    const knownBoards = boardsRef.current;
     setItems([]);
 
     // 4) попытка очистить БД (по возможности)
     (async () => {
-      // спросим пароль, если его нет в сессии
-      const pwd = passRef.current || sessionStorage.getItem('sb:pass') || (prompt('Password to clear remote DB (optional):') || '');
-      if (pwd) {
+      // в БД пишем только с правами editor в этом проекте
+      const me = session ? await remoteMe() : null;
+      if (roleAtLeast(me?.role, 'editor')) {
         try {
-          await Promise.all([
-            flushBoardToCloud('moodboard', [], pwd),
-            flushBoardToCloud('styleboard', [], pwd),
-          ]);
-          // вернём пароль в сессию (удобно для следующей записи)
-          passRef.current = pwd;
-          sessionStorage.setItem('sb:pass', pwd);
-          remoteReadyRef.current = true;
+          // принудительная запись пустого списка в БД (для каждой доски)
+          await Promise.all(knownBoards.map(b => remoteSaveNow(b.id, [])));
           console.info('[styleboard] remote DB cleared');
         } catch (e) {
           console.warn('[styleboard] remote DB clear failed', e);
         }
       } else {
-        console.info('[styleboard] remote DB not cleared (no password provided)');
+        console.info('[styleboard] remote DB not cleared (editor access required)');
       }
     })();
 
@@ -2167,20 +3573,38 @@ function AppInner() {
       } else if (meta && (e.key === "0")) {
         e.preventDefault(); setCam({ scale: 1, tx: 0, ty: 0 }); setShouldCenter(true);
       }
-      if ((e.key === "a" || e.key === "A") && items.length) {
-        const id = items[items.length - 1].id;
-        setItemsUndo(arr => arr.map(i => i.id === id ? { ...i, approved: !i.approved } : i));
+      if (meta && (e.key === "a" || e.key === "A")) {
+        e.preventDefault(); setSelected(items.filter(tileVisible).map(i => i.id));
+        return;
+      }
+      if (e.key === "Escape") { setSelected([]); return; }
+
+      // дальше — действия над выделением (исчезнувшие с доски id отбрасываем)
+      const sel = selected.filter(id => items.some(i => i.id === id));
+      if (!sel.length || meta) return;
+      if (e.key === "a" || e.key === "A") {
+        const allApproved = items.every(i => !sel.includes(i.id) || i.status === 'approved');
+        setItemStatus(sel, allApproved ? 'proposed' : 'approved');
       }
       if (e.key === "Delete" || e.key === "Backspace") {
+        e.preventDefault();
         setItemsUndo(arr => {
-          const next = arr.slice(0, -1);
-          return boardRef.current==='moodboard' ? reflowMoodboard(next, WRef.current, HRef.current, moodShuffleIntensity) : next;
+          const next = arr.filter(i => !sel.includes(i.id));
+          return boardTypeRef.current==='mood' ? reflowMood(next, WRef.current, HRef.current) : next;
         });
+        setSelected([]);
+      }
+      const arrow = ({ ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] } as Record<string, number[]>)[e.key];
+      if (arrow && boardTypeRef.current === 'style') {
+        e.preventDefault();
+        const step = e.shiftKey ? 10 : 1;
+        const next = moveSelection(items, sel, arrow[0] * step, arrow[1] * step);
+        if (next) setItemsUndo(() => next);
       }
     };
     window.addEventListener("keydown", onKey);
     return () => window.removeEventListener("keydown", onKey);
-  }, [items, undoLast, redoLast, board]); // ← тоже обновляемся
+  }, [items, selected, statusFilter, statusHide, undoLast, redoLast, board]); // ← тоже обновляемся
 
   // Wheel zoom (Ctrl/Cmd + wheel), cursor-centered
   useEffect(() => {
@@ -2299,20 +3723,19 @@ function AppInner() {
     }
 
     setItemsUndo(prev => {
-      const curBoard = boardRef.current;
       const curW = WRef.current, curH = HRef.current;
-      if (curBoard === 'moodboard') {
+      if (boardTypeRef.current === 'mood') {
         const it: SBItem = {
           id: uid(),
           url: trimmed,
           kind,            // 'image' ИЛИ 'video'
           gx: 0, gy: 0, gw, gh,
-          approved: false,
+          status: 'proposed',
           // ▼ нат. размер — важен для getAspect()
           natW: s?.w, natH: s?.h, natR: (s && s.w > 0 && s.h > 0) ? (s.w/s.h) : undefined,
           board: boardRef.current,
         };
-        const laid = reflowMoodboard([...prev, it], curW, curH, moodShuffleIntensity);
+        const laid = reflowMood([...prev, it], curW, curH);
         showToast('Added', 'ok');
         // Для изображений из URL добавляем натуральные размеры асинхронно
         if (kind === 'image') {
@@ -2330,7 +3753,7 @@ function AppInner() {
       const pos = findPlacementSnakePacked(prev, gw, gh, curW, curH);
       console.timeEnd('place');
       if (!pos) { console.warn('[styleboard] no space'); showToast('Canvas size is limited', 'err'); return prev; }
-      const it: SBItem = { id: uid(), url: trimmed, kind, gx: pos.gx, gy: pos.gy, gw, gh, approved: false, board: boardRef.current };
+      const it: SBItem = { id: uid(), url: trimmed, kind, gx: pos.gx, gy: pos.gy, gw, gh, status: 'proposed', board: boardRef.current };
       showToast('Added', 'ok');
       if (LOG.placement) {
         const idx = prev.length + 1;
@@ -2348,17 +3771,71 @@ function AppInner() {
       {/* Top bar */}
       <div className="fixed top-0 left-0 right-0 z-50 flex items-center gap-3 px-4 py-2 border-b border-neutral-800 bg-neutral-950/90 backdrop-blur">
 
-        {/* Tabs */}
-        <div className="flex rounded-xl overflow-hidden border border-neutral-800">
-          {BOARD_KEYS.map((k) => (
+        {/* По ссылке — только название доски, без проектов, досок и вставки */}
+        {shared ? (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="font-medium">{boardMeta.name}</span>
+            <span className="text-xs text-neutral-500">{boardType === 'mood' ? 'Moodboard' : 'Styleboard'}</span>
+          </div>
+        ) : (<>
+        {/* Project switcher */}
+        <div className="flex items-center gap-1">
+          <select
+            value={project}
+            onChange={(e) => {
+              if (e.target.value === '__new') createProject();
+              else if (e.target.value === '__join') joinProject();
+              else onSwitchProject(e.target.value);
+            }}
+            title="Проект"
+            className="max-w-[10rem] h-8 px-2 text-sm rounded-md bg-neutral-900 border border-neutral-800 outline-none focus:border-neutral-600"
+          >
+            {(projects.some(p => p.id === project) ? projects : [{ id: project, name: project === DEFAULT_PROJECT ? 'Default' : project }, ...projects]).map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+            {session && <option value="__new">+ New project…</option>}
+            {session && <option value="__join">Join by secret…</option>}
+          </select>
+          {project !== DEFAULT_PROJECT && role === 'owner' && (
+            <button onClick={archiveProject} title="Архивировать проект" className="px-2 h-8 rounded-md border border-neutral-800 hover:bg-neutral-900 text-xs text-neutral-400">Archive</button>
+          )}
+        </div>
+
+        {/* Tabs: клик — переключить, двойной клик — переименовать */}
+        <div className="flex max-w-[32vw] overflow-x-auto rounded-xl border border-neutral-800">
+          {boards.map((b) => (
             <button
-              key={k}
-              onClick={() => setBoard(k)}
-              className={`px-3 py-1.5 text-sm capitalize ${board===k?"bg-neutral-800 text-white":"text-neutral-300 hover:bg-neutral-900"}`}
-            >{k}</button>
+              key={b.id}
+              onClick={() => switchBoard(b)}
+              onDoubleClick={() => renameBoard(b.id)}
+              title={`${b.type === 'mood' ? 'Moodboard' : 'Styleboard'} — двойной клик, чтобы переименовать`}
+              className={`shrink-0 px-3 py-1.5 text-sm whitespace-nowrap ${board===b.id?"bg-neutral-800 text-white":"text-neutral-300 hover:bg-neutral-900"}`}
+            >{b.name}</button>
           ))}
         </div>
 
+        {/* Board actions */}
+        <div className="flex items-center gap-1">
+          <button onClick={() => createBoard('mood')} title="Новый moodboard" className="px-2 h-8 rounded-md border border-neutral-800 hover:bg-neutral-900 text-xs">+ Mood</button>
+          <button onClick={() => createBoard('style')} title="Новый styleboard" className="px-2 h-8 rounded-md border border-neutral-800 hover:bg-neutral-900 text-xs">+ Style</button>
+          <button onClick={() => duplicateBoard(board)} title="Дублировать доску" className="w-8 h-8 rounded-md border border-neutral-800 hover:bg-neutral-900 text-xs">⧉</button>
+          <button onClick={exportArchive} title="Скачать доску архивом (JSON + медиа)" className="w-8 h-8 rounded-md border border-neutral-800 hover:bg-neutral-900 text-xs">⇩</button>
+          <button onClick={() => archiveInputRef.current?.click()} title="Импортировать доску из архива" className="w-8 h-8 rounded-md border border-neutral-800 hover:bg-neutral-900 text-xs">⇧</button>
+          <input
+            ref={archiveInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={(e) => { const f = e.target.files?.[0]; e.target.value = ''; if (f) importArchive(f); }}
+          />
+          <button
+            onClick={() => deleteBoard(board)}
+            disabled={boards.length <= 1}
+            title="Удалить доску"
+            className={`w-8 h-8 rounded-md border text-xs ${boards.length <= 1 ? "opacity-50 cursor-not-allowed border-neutral-800 text-neutral-500" : "border-neutral-800 hover:bg-red-900/20 hover:border-red-700 text-red-400"}`}
+          >×</button>
+        </div>
+
         {/* Canvas size + Paste + Collect */}
         <div className="ml-2 flex items-center gap-2">
           <label className="text-xs text-neutral-400">W</label>
@@ -2366,7 +3843,7 @@ function AppInner() {
             value={formW}
             onChange={(e)=>setFormW(e.target.value.replace(/[^\d]/g,""))}
             onBlur={()=>{
-              if (board==='moodboard') {
+              if (boardType==='mood') {
                 const { w, h } = sanitizeMoodFromWidth(formW);
                 setFormW(String(w)); setFormH(String(h));
               } else {
@@ -2387,7 +3864,7 @@ function AppInner() {
             value={formH}
             onChange={(e)=>setFormH(e.target.value.replace(/[^\d]/g,""))}
             onBlur={()=>{
-              if (board==='moodboard') {
+              if (boardType==='mood') {
                 const { w, h } = sanitizeMoodFromHeight(formH);
                 setFormW(String(w)); setFormH(String(h));
               } else {
@@ -2435,10 +3912,49 @@ function AppInner() {
             Paste Image
           </button>
         </div>
+        </>)}
 
-        {/* правая группа: Collect/Shuffle + divider + Zoom/Reset */}
+        {/* правая группа: участники + Collect/Shuffle + divider + Zoom/Reset */}
         <div className="ml-auto flex items-center gap-2">
-          {board === 'styleboard' ? (
+          <div className="flex items-center -space-x-1.5 mr-1">
+            {peers.slice(0, 5).map(p => (
+              <div key={p.client} title={p.name} className="w-7 h-7 rounded-full grid place-items-center text-[10px] font-semibold text-neutral-950 ring-2 ring-neutral-950" style={{ background: p.color }}>
+                {initials(p.name)}
+              </div>
+            ))}
+            {peers.length > 5 && (
+              <div title={peers.slice(5).map(p => p.name).join(', ')} className="w-7 h-7 rounded-full grid place-items-center text-[10px] bg-neutral-800 text-neutral-300 ring-2 ring-neutral-950">+{peers.length - 5}</div>
+            )}
+            {session && (
+              <div title={`Вы: ${session.user.name}${role ? ` (${role})` : ''}`} className="w-7 h-7 rounded-full grid place-items-center text-[10px] font-semibold text-neutral-950 ring-2 ring-neutral-950" style={{ background: peerColor(CLIENT_ID) }}>
+                {initials(session.user.name)}
+              </div>
+            )}
+          </div>
+
+          {/* фильтр по статусу согласования */}
+          <div className="flex items-center gap-1">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as ApprovalStatus | 'all')}
+              title="Показать материалы со статусом"
+              className="h-8 px-2 text-xs rounded-md bg-neutral-900 border border-neutral-800 outline-none focus:border-neutral-600"
+            >
+              <option value="all">All statuses</option>
+              {APPROVAL_STATUSES.map((st, i) => <option key={st} value={st}>{STATUS_META[st].label} ({statusCounts[i]})</option>)}
+            </select>
+            {statusFilter !== 'all' && (
+              <button
+                onClick={() => setStatusHide(v => !v)}
+                title="Остальные — приглушить или скрыть"
+                className="px-2 h-8 rounded-md border border-neutral-800 hover:bg-neutral-900 text-xs"
+              >
+                {statusHide ? 'Hide others' : 'Dim others'}
+              </button>
+            )}
+          </div>
+
+          {shared ? null : boardType === 'style' ? (
             <button
               onClick={() => runHeavy('collect', collectFill)}
               disabled={heavyBusy || heavyCooldown}
@@ -2452,11 +3968,7 @@ function AppInner() {
             </button>
           ) : (
               <button
-              onClick={() => runHeavy('shuffle', () =>
-                setItemsUndo(prev =>
-                  shuffleMoodboard(prev, WRef.current, HRef.current, moodShuffleIntensity)
-                )
-              )}
+                onClick={() => shuffleWithSeed(newSeed(), true)}
                 disabled={heavyBusy || heavyCooldown}
                 className={`px-3 h-8 rounded-md border text-xs ${
                   heavyBusy || heavyCooldown
@@ -2467,9 +3979,63 @@ function AppInner() {
                 {heavyBusy ? "Shuffle…" : "Shuffle"}
               </button>
           )}
+          {boardType === 'mood' && !shared && (
+            <button
+              onClick={() => setVariationsOpen(v => !v)}
+              className={`ml-2 px-3 h-8 rounded-md border text-xs ${variationsOpen ? "border-neutral-600 bg-neutral-800" : "border-neutral-800 hover:bg-neutral-900"}`}
+              title="Несколько вариантов Shuffle рядом — сравнить, выбрать или закрепить"
+            >
+              Variations{alternatives.length ? ` · ${alternatives.length}` : ''}
+            </button>
+          )}
           
-          {board === 'moodboard' && (
+          {boardType === 'style' && !shared && (
+            <button
+              onClick={() => setAspectLock(v => !v)}
+              title="Держать пропорции при ресайзе тайла (Shift во время ресайза — наоборот)"
+              className={`px-3 h-8 rounded-md border text-xs ${aspectLock ? "border-neutral-600 bg-neutral-800" : "border-neutral-800 hover:bg-neutral-900"}`}
+            >
+              {aspectLock ? 'Aspect locked' : 'Aspect free'}
+            </button>
+          )}
+
+          {boardType === 'mood' && !shared && (
             <div className="ml-2 flex items-center gap-3">
+              <div className="inline-flex items-center gap-1 text-xs">
+                {MOOD_MODES.map(m => (
+                  <button
+                    key={m.mode}
+                    onClick={() => { if (m.mode !== moodLayout.mode) relayMoodLayout({ mode: m.mode }); }}
+                    disabled={heavyBusy || heavyCooldown}
+                    title={m.title}
+                    className={`px-2 h-7 rounded-md border ${moodLayout.mode === m.mode ? "border-neutral-600 bg-neutral-800" : "border-neutral-800 hover:bg-neutral-900"}`}
+                  >{m.label}</button>
+                ))}
+              </div>
+              {moodLayout.mode !== 'auto' && (
+                <>
+                  <label className="inline-flex items-center gap-1.5 text-xs" title="Толщина строк и колонок по аспектам картинок — меньше кропа; выключено — полосы равные">
+                    <input type="checkbox" checked={moodLayout.keepAspect} onChange={(e) => relayMoodLayout({ keepAspect: e.target.checked })} disabled={heavyBusy || heavyCooldown} className="accent-emerald-500" />
+                    <span className="text-neutral-400">Keep aspect</span>
+                  </label>
+                  <label className="inline-flex items-center gap-2 text-xs">
+                    <span className="text-neutral-400">Column bias</span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={100}
+                      step={1}
+                      value={Math.round(moodLayout.columnBias * 100)}
+                      onChange={(e) => setMoodLayout({ columnBias: Number(e.target.value) / 100 })}
+                      // перекладываем, когда ползунок отпустили, а не на каждом шаге
+                      onPointerUp={() => shuffleWithSeed(moodSeed, false)}
+                      onKeyUp={(e) => { if (/^(Arrow|Home|End|Page)/.test(e.key)) shuffleWithSeed(moodSeed, false); }}
+                      className="w-20 accent-emerald-500"
+                      title="Насколько швы соседних строк (колонок) прилипают друг к другу"
+                    />
+                  </label>
+                </>
+              )}
               <label className="inline-flex items-center gap-2 text-xs">
                 <span className="text-neutral-400">Intensity</span>
                 <input
@@ -2484,6 +4050,45 @@ function AppInner() {
                 />
                 <span className="w-6 text-right tabular-nums">{moodShuffleIntensity}</span>
               </label>
+              <label className="inline-flex items-center gap-1 text-xs">
+                <span className="text-neutral-400">Seed</span>
+                <SeedInput seed={moodSeed} onCommit={(seed) => shuffleWithSeed(seed, true)} />
+              </label>
+              <button
+                onClick={() => shuffleWithSeed(moodSeed, false)}
+                disabled={heavyBusy || heavyCooldown}
+                title="Разложить заново с текущим seed"
+                className="w-7 h-7 rounded-md border border-neutral-800 text-xs hover:bg-neutral-900 disabled:opacity-50"
+              >↻</button>
+              <button
+                onClick={shuffleBack}
+                disabled={heavyBusy || heavyCooldown || !prevSeeds.length}
+                title={prevSeeds.length ? `Предыдущий seed: ${formatSeed(prevSeeds[prevSeeds.length - 1])}` : 'Предыдущих seed в этой сессии нет'}
+                className="w-7 h-7 rounded-md border border-neutral-800 text-xs hover:bg-neutral-900 disabled:opacity-50"
+              >←</button>
+            </div>
+          )}
+
+          {quality && (
+            <div className="ml-2 flex items-center gap-1 text-xs">
+              <span
+                className={`tabular-nums ${quality.quality >= 0.85 ? "text-emerald-400" : quality.quality >= 0.7 ? "text-amber-300" : "text-red-400"}`}
+                title={`Сколько исходников видно в тайлах (в среднем по площади, ${quality.measured} с известным размером)`}
+              >
+                Quality {(quality.quality * 100).toFixed(1)}%
+              </span>
+              {qualityDelta !== null && Math.abs(qualityDelta) >= 0.0005 && (
+                <span className={`tabular-nums ${qualityDelta > 0 ? "text-emerald-400" : "text-red-400"}`} title="Изменение после последней перекладки">
+                  {qualityDelta > 0 ? '▲' : '▼'}{Math.abs(qualityDelta * 100).toFixed(1)}
+                </span>
+              )}
+              <button
+                onClick={() => setCropMap(v => !v)}
+                className={`ml-1 px-2 h-7 rounded-md border ${cropMap ? "border-neutral-600 bg-neutral-800" : "border-neutral-800 hover:bg-neutral-900"}`}
+                title="Показать, сколько каждой картинки срезано кропом"
+              >
+                Crop map
+              </button>
             </div>
           )}
 
@@ -2500,34 +4105,85 @@ function AppInner() {
             {/* divider слева как у zoom */}
             <div className="h-6 w-px bg-neutral-800 mx-2" />
 
+            {session && !shared && roleAtLeast(role, 'editor') && (
+              <SyncBadge status={sync} onRetry={() => retrySync()} />
+            )}
+
+            {(session || shared) && (
+              <button
+                onClick={() => commentsOpen ? setCommentsOpen(false) : openComments(null)}
+                className={`relative px-3 h-8 rounded-md border text-xs mr-2 ${commentsOpen ? "border-neutral-600 bg-neutral-800" : "border-neutral-800 hover:bg-neutral-900"}`}
+                title="Обсуждения доски"
+              >
+                Comments
+                {unreadCount > 0 && (
+                  <span className="absolute -top-1.5 -right-1.5 min-w-4 h-4 px-1 rounded-full bg-sky-400 text-neutral-950 text-[10px] font-semibold grid place-items-center">{unreadCount}</span>
+                )}
+              </button>
+            )}
+
             <button
-              onClick={async () => {
-                const p = prompt('Database password:') || '';
-                if (!p) return;
-
-                passRef.current = p;
-                sessionStorage.setItem('sb:pass', p);
-                remoteReadyRef.current = true;
-
-                // апгрейд idb:// → data:
-                const upgraded = await upgradeIdbUrls(itemsRef.current);
-                if (upgraded !== itemsRef.current) {
-                  setItems(upgraded);
-                  itemsRef.current = upgraded; // критично: обновили ref вручную, не ждём следующего тика
-                }
+              onClick={() => setExportOpen(v => !v)}
+              className={`px-3 h-8 rounded-md border text-xs mr-2 ${exportOpen ? "border-neutral-600 bg-neutral-800" : "border-neutral-800 hover:bg-neutral-900"}`}
+              title="Сохранить доску картинкой или PDF"
+            >
+              Export
+            </button>
 
-                try {
-                  await flushToCloudNow(p);     // шлём уже по актуальному ref
-                  alert('Синхронизировано в БД');
-                } catch (e:any) {
-                  alert('Ошибка синхронизации в БД: ' + (e?.message || e));
-                }
-              }}
-              className="px-3 h-8 rounded-md text-xs border border-neutral-200 bg-neutral-200 text-neutral-900 hover:bg-white"
-              title="Сохранить текущее состояние в БД (пароль обязателен)"
+            {shared ? (
+              <span
+                className="px-2 h-8 grid place-items-center rounded-md text-xs text-amber-300 border border-amber-600/40"
+                title={shared.expiresAt ? `Ссылка действует до ${new Date(shared.expiresAt).toLocaleString()}` : 'Бессрочная ссылка'}
+              >
+                {shared.scope === 'comment' ? 'Shared · can comment' : 'Shared · view only'}
+              </span>
+            ) : (<>
+            <button
+              onClick={toggleHistory}
+              className={`px-3 h-8 rounded-md border text-xs mr-2 ${historyOpen ? "border-neutral-600 bg-neutral-800" : "border-neutral-800 hover:bg-neutral-900"}`}
+              title="Версии доски"
             >
-              Write to DB
+              History
             </button>
+
+            {roleAtLeast(role, 'editor') && (
+              <button
+                onClick={() => setSharesOpen(v => !v)}
+                className={`px-3 h-8 rounded-md border text-xs mr-2 ${sharesOpen ? "border-neutral-600 bg-neutral-800" : "border-neutral-800 hover:bg-neutral-900"}`}
+                title="Ссылки на эту доску"
+              >
+                Share
+              </button>
+            )}
+
+            {session ? (
+              <>
+                <button
+                  onClick={() => setMembersOpen(v => !v)}
+                  className={`px-3 h-8 rounded-md border text-xs mr-2 ${membersOpen ? "border-neutral-600 bg-neutral-800" : "border-neutral-800 hover:bg-neutral-900"}`}
+                  title="Участники проекта"
+                >
+                  Members
+                </button>
+                {readOnly && <span className="px-2 h-8 grid place-items-center rounded-md text-xs text-amber-300 border border-amber-600/40 mr-2">View only</span>}
+                <button
+                  onClick={onSignOut}
+                  className="px-3 h-8 rounded-md text-xs border border-neutral-800 hover:bg-neutral-900"
+                  title={`${session.user.email}${role ? ` · ${role}` : ''}`}
+                >
+                  Sign out
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => setSignInOpen(true)}
+                className="px-3 h-8 rounded-md text-xs border border-neutral-200 bg-neutral-200 text-neutral-900 hover:bg-white"
+                title="Войти, чтобы сохранять доски в БД и работать вместе"
+              >
+                Sign in
+              </button>
+            )}
+            </>)}
           </div>
         </div>
       </div>
@@ -2540,22 +4196,30 @@ function AppInner() {
       )}
 
       {/* Canvas */}
-      <div ref={containerRef} className="absolute inset-0 pt-[52px] overflow-hidden touch-none">
+      <div
+        ref={containerRef}
+        className="absolute inset-0 pt-[52px] overflow-hidden touch-none"
+        onMouseMove={trackCursor}
+        onMouseDown={onCanvasMouseDown}
+        onMouseLeave={() => { cursorRef.current = null; }}
+      >
         <div
+          ref={canvasRef}
           className="relative overflow-hidden will-change-transform bg-neutral-950"
           style={{
             width: canvasW,
             height: canvasH,
             transform: `translate(${tx}px, ${ty}px) scale(${scale})`,
             transformOrigin: "0 0",
-            isolation: 'isolate' // свой стек для надёжного z-index
+            isolation: 'isolate', // свой стек для надёжного z-index
+            pointerEvents: preview ? 'none' : undefined // снимок только смотрим
           }}
         >
           {/* Подсказка на артборде */}
-          {items.length === 0 && (
+          {shownItems.length === 0 && (
             <div className="pointer-events-none absolute inset-0 grid place-items-center">
               <div className="text-neutral-500 text-sm md:text-base">
-                {board==='moodboard'
+                {boardType==='mood'
                   ? <>Нажмите <span className="px-1 rounded bg-neutral-800 text-neutral-200">Ctrl/Cmd + V</span> — вставьте картинку, ссылку на неё или прямую ссылку на HTML5-видео</>
                   : <>Нажмите <span className="px-1 rounded bg-neutral-800 text-neutral-200">Ctrl/Cmd + V</span> — вставьте картинку или прямую ссылку на сайт / картинку / HTML5-видео</>
                 }
@@ -2563,25 +4227,81 @@ function AppInner() {
             </div>
           )}
 
-          {items.map((it) => (
+          {shownItems.filter(tileVisible).map((it) => (
             <Tile 
               key={it.id} 
               item={it} 
               scale={scale} 
               spaceHeld={spaceHeld} 
               ctrlHeld={ctrlHeld} 
-              isMoodboard={board==='moodboard'}
+              isMoodboard={boardType==='mood'}
+              locked={!!shared}
+              dimmed={statusFilter !== 'all' && it.status !== statusFilter}
+              selected={selected.includes(it.id)}
+              resizable={boardType === 'style' && !readOnly && !shared && !preview && !it.locked}
+              onResizeStart={onResizeStart}
+              onResize={onResize}
+              onResizeEnd={onResizeEnd}
+              comments={tileComments(it.id)}
+              canComment={canComment}
+              pinMode={pinMode}
+              onOpenComments={openComments}
+              onPin={placePin}
+              onCaptureThumb={captureThumb}
+              onToggleLock={toggleLock}
             onDelete={(id)=>setItemsUndo(arr=>{ 
               const next = arr.filter(i=>i.id!==id); 
-              return boardRef.current==='moodboard' ? reflowMoodboard(next, WRef.current, HRef.current, moodShuffleIntensity) : next; 
+              return boardTypeRef.current==='mood' ? reflowMood(next, WRef.current, HRef.current) : next; 
             })}
-              onApprove={(id)=>setItemsUndo(arr=>arr.map(i=>i.id===id?{...i, approved: !i.approved}:i))} 
+              onStatus={setItemStatus}
               // ↓↓↓ НОВОЕ
               onEdgeDragStart={onEdgeDragStart}
               onEdgeDrag={onEdgeDrag}
               onEdgeDragEnd={onEdgeDragEnd}
             />
           ))}
+
+          {/* Карта кропа: чем краснее тайл, тем больше исходника срезано */}
+          {cropMap && boardType === 'mood' && shownItems.filter(tileVisible).map(it => {
+            const loss = cropLoss(it);
+            if (loss === null) return null;
+            const k = Math.min(1, loss / 0.5); // 50% и больше — полностью красный
+            return (
+              <div
+                key={`crop-${it.id}`}
+                className="pointer-events-none absolute z-[50] grid place-items-center"
+                style={{
+                  left: it.gx * GRID, top: it.gy * GRID, width: it.gw * GRID, height: it.gh * GRID,
+                  background: `hsla(${Math.round(120 * (1 - k))}, 85%, 45%, ${0.2 + 0.4 * k})`,
+                }}
+              >
+                <span
+                  className="px-1.5 py-0.5 rounded bg-neutral-950/80 text-xs tabular-nums text-neutral-100"
+                  style={{ transform: `scale(${1 / scale})` }}
+                >−{Math.round(loss * 100)}%</span>
+              </div>
+            );
+          })}
+
+          {/* Рамка выделения */}
+          {marquee && (
+            <div
+              className="pointer-events-none absolute z-[55] border-sky-400 bg-sky-400/10"
+              style={{ left: marquee.x1, top: marquee.y1, width: marquee.x2 - marquee.x1, height: marquee.y2 - marquee.y1, borderWidth: 1 / scale }}
+            />
+          )}
+
+          {/* Курсоры других участников */}
+          {peers.filter(p => p.x != null && p.y != null).map(p => (
+            <div
+              key={p.client}
+              className="pointer-events-none absolute z-[60] transition-[left,top] duration-1000 ease-linear"
+              style={{ left: p.x!, top: p.y!, transform: `scale(${1/scale})`, transformOrigin: '0 0' }}
+            >
+              <svg width="16" height="20" viewBox="0 0 16 20"><path d="M0 0 L0 16 L4.5 12 L8 20 L10.5 19 L7 11 L13 11 Z" fill={p.color} stroke="#0a0a0a" strokeWidth="1" /></svg>
+              <div className="ml-3 -mt-1 px-1.5 py-0.5 rounded text-[11px] font-medium text-neutral-950 whitespace-nowrap" style={{ background: p.color }}>{p.name}</div>
+            </div>
+          ))}
         </div>
 
         <div className="pointer-events-none fixed bottom-3 left-1/2 -translate-x-1/2 text-xs text-neutral-400 bg-neutral-900/70 px-2.5 py-1 rounded-full border border-neutral-800">
@@ -2589,6 +4309,121 @@ function AppInner() {
         </div>
       </div>
 
+      {signInOpen && (
+        <SignInDialog
+          onClose={() => setSignInOpen(false)}
+          onDone={(s) => { setSignInOpen(false); onSignIn(s); }}
+        />
+      )}
+
+      {membersOpen && session && (
+        <MembersPanel me={session.user.id} canManage={role === 'owner'} onClose={() => setMembersOpen(false)} />
+      )}
+
+      {commentsOpen && (
+        <CommentsPanel
+          threads={boardThreads}
+          items={shownItems}
+          filter={commentFilter}
+          active={activeThread}
+          draft={draft}
+          seen={commentsSeen}
+          me={me}
+          canComment={canComment}
+          pinMode={pinMode}
+          onFilter={setCommentFilter}
+          onSelect={(id) => { setActiveThread(id); setDraft(null); }}
+          onPinMode={setPinMode}
+          onCancelDraft={() => setDraft(null)}
+          onAction={commentAction}
+          onClose={() => { setCommentsOpen(false); setPinMode(false); setDraft(null); }}
+        />
+      )}
+
+      {exportOpen && (
+        <ExportPanel
+          items={shownItems.filter(tileVisible)}
+          name={boardMeta?.name ?? 'board'}
+          project={projects.find(p => p.id === project)?.name}
+          type={boardType}
+          canvasW={canvasW}
+          canvasH={canvasH}
+          onClose={() => setExportOpen(false)}
+        />
+      )}
+
+      {variationsOpen && boardType === 'mood' && !shared && (
+        <VariationsPanel
+          key={board}
+          items={items}
+          W={W}
+          H={H}
+          intensity={moodShuffleIntensity}
+          seed={moodSeed}
+          layout={moodLayout}
+          pinned={alternatives}
+          busy={heavyBusy || heavyCooldown}
+          onApply={applyVariation}
+          onTogglePin={toggleAlternative}
+          onClose={() => setVariationsOpen(false)}
+        />
+      )}
+
+      {sharesOpen && !shared && (
+        <SharePanel key={board} board={board} onClose={() => setSharesOpen(false)} />
+      )}
+
+      {/* История версий */}
+      {historyOpen && (
+        <div className="fixed top-[52px] right-0 bottom-0 z-[70] w-80 flex flex-col border-l border-neutral-800 bg-neutral-950/95 text-sm">
+          <div className="flex items-center gap-2 px-3 h-11 border-b border-neutral-800">
+            <span className="font-medium">History</span>
+            <button onClick={saveVersion} className="ml-auto px-2 h-7 rounded-md border border-emerald-700/50 text-emerald-300 hover:bg-neutral-900 text-xs">Save version</button>
+            <button onClick={toggleHistory} className="w-7 h-7 rounded-md border border-neutral-800 hover:bg-neutral-900 text-xs">×</button>
+          </div>
+          <div className="flex-1 overflow-y-auto">
+            {snapshots === null && <div className="px-3 py-4 text-neutral-500">Loading…</div>}
+            {snapshots?.length === 0 && <div className="px-3 py-4 text-neutral-500">No versions yet — they appear after the first save to DB</div>}
+            {snapshots?.map(s => (
+              <button
+                key={s.id}
+                onClick={() => previewSnapshot(s.id)}
+                className={`w-full text-left px-3 py-2 border-b border-neutral-900 hover:bg-neutral-900 ${preview?.id === s.id ? "bg-neutral-800" : ""}`}
+              >
+                <div className={s.auto ? "text-neutral-300" : "text-emerald-300 font-medium"}>{s.name ?? 'Auto-save'}</div>
+                <div className="text-xs text-neutral-500">{new Date(s.createdAt).toLocaleString()} · rev {s.rev} · {s.count} items</div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Предпросмотр версии */}
+      {preview && (
+        <div className="fixed top-[64px] left-1/2 -translate-x-1/2 z-[70] flex items-center gap-3 px-3 py-2 rounded-lg border border-amber-600/40 bg-neutral-900/95 text-sm shadow-lg">
+          <span className="text-amber-300">Preview: {preview.name ?? 'Auto-save'} · {new Date(preview.createdAt).toLocaleString()}</span>
+          <button onClick={() => restoreSnapshot(preview.id)} className="px-2 h-7 rounded-md border border-emerald-700/50 text-emerald-300 hover:bg-neutral-800 text-xs">Restore</button>
+          <button onClick={() => setPreview(null)} className="px-2 h-7 rounded-md border border-neutral-700 hover:bg-neutral-800 text-xs">Close</button>
+        </div>
+      )}
+
+      {/* Конфликт записи */}
+      {conflictBoard && (
+        <div className="fixed inset-0 z-[90] flex items-center justify-center bg-black/60">
+          <div className="w-[380px] rounded-lg border border-neutral-700 bg-neutral-900 p-4 shadow-xl text-sm text-neutral-200">
+            <div className="font-medium mb-1">Board was changed by someone else</div>
+            <div className="text-neutral-400 mb-4">
+              Your latest edits were not saved. Merge them into the new version, reload it, or overwrite it with yours.
+            </div>
+            <div className="flex justify-end gap-2">
+              <button className="px-3 py-1.5 rounded-md border border-neutral-700 hover:bg-neutral-800" onClick={() => resolveConflict('reload')}>Reload</button>
+              <button className="px-3 py-1.5 rounded-md border border-red-600/40 text-red-300 hover:bg-red-500/15" onClick={() => resolveConflict('overwrite')}>Overwrite</button>
+              <button className="px-3 py-1.5 rounded-md border border-emerald-600/40 text-emerald-300 hover:bg-emerald-500/15" onClick={() => resolveConflict('merge')}>Merge</button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Toast */}
       {toast && (
         <div
@@ -2607,33 +4442,1166 @@ function AppInner() {
 }
 
 
-function Tile({
-  item, onDelete, onApprove, scale, spaceHeld, ctrlHeld, isMoodboard,
-  onEdgeDragStart, onEdgeDrag, onEdgeDragEnd
-}: {
-  item: SBItem;
-  onDelete: (id:string)=>void;
-  onApprove: (id:string)=>void;
-  scale: number;
-  spaceHeld: boolean;
-  ctrlHeld: boolean;
-  isMoodboard: boolean;
-  onEdgeDragStart: ()=>void;
-  onEdgeDrag: (id:string, edge:Dir, delta:number)=>number; // вернёт применённый delta
-  onEdgeDragEnd: ()=>void;
-}) {
-  const [loaded, setLoaded] = useState(false);
-  const [iframeActive, setIframeActive] = useState(false);
-  const [resolvedSrc, setResolvedSrc] = useState<string | null>(null);
-  const rootRef = useRef<HTMLDivElement | null>(null);
-  const iframeRef = useRef<HTMLIFrameElement | null>(null);
+// Вход / регистрация: сервер выдаёт подписанный токен, App хранит его в localStorage
+function SignInDialog({ onDone, onClose }: { onDone: (s: Session) => void; onClose: () => void }) {
+  const [mode, setMode] = useState<'signin' | 'signup'>('signin');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  const scrollKey = `sb:iframeScroll:${item.url}`;
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      onDone(await remoteAuth(mode, { email, password, name: mode === 'signup' ? name : undefined }));
+    } catch (e) {
+      setError(e instanceof HttpError && typeof e.body?.error === 'string' ? e.body.error : 'Server is not reachable');
+    } finally {
+      setBusy(false);
+    }
+  }
 
-  useEffect(() => {
-    let canceled = false;
-    let created: string | null = null;
-    (async () => {
+  const field = "w-full px-2 py-1.5 text-sm rounded bg-neutral-950 border border-neutral-800 outline-none focus:border-neutral-600";
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center bg-black/60" onMouseDown={onClose}>
+      <form
+        onSubmit={submit}
+        onMouseDown={(e) => e.stopPropagation()}
+        className="w-[340px] rounded-lg border border-neutral-700 bg-neutral-900 p-4 shadow-xl text-sm text-neutral-200 space-y-3 select-text"
+      >
+        <div className="font-medium">{mode === 'signin' ? 'Sign in' : 'Create account'}</div>
+        {mode === 'signup' && (
+          <input className={field} placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} autoFocus />
+        )}
+        <input className={field} type="email" placeholder="Email" value={email} onChange={(e) => setEmail(e.target.value)} autoFocus={mode === 'signin'} />
+        <input className={field} type="password" placeholder="Password (8+ characters)" value={password} onChange={(e) => setPassword(e.target.value)} />
+        {error && <div className="text-red-300 text-xs">{error}</div>}
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => { setMode(mode === 'signin' ? 'signup' : 'signin'); setError(null); }}
+            className="text-xs text-neutral-400 hover:text-neutral-200"
+          >
+            {mode === 'signin' ? 'No account? Sign up' : 'Have an account? Sign in'}
+          </button>
+          <button
+            type="submit"
+            disabled={busy}
+            className="ml-auto px-3 h-8 rounded-md text-xs border border-neutral-200 bg-neutral-200 text-neutral-900 hover:bg-white disabled:opacity-50"
+          >
+            {busy ? '…' : mode === 'signin' ? 'Sign in' : 'Sign up'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+// Участники текущего проекта; роли меняет и людей добавляет только owner
+function MembersPanel({ me, canManage, onClose }: { me: string; canManage: boolean; onClose: () => void }) {
+  const [members, setMembers] = useState<Member[] | null>(null);
+  const [email, setEmail] = useState('');
+  const [newRole, setNewRole] = useState<Role>('editor');
+  const [error, setError] = useState<string | null>(null);
+
+  async function refresh() {
+    const list = await remoteListMembers();
+    setMembers(list ?? []);
+  }
+  useEffect(() => { refresh(); }, []);
+
+  async function run(action: 'set' | 'remove', payload: { email?: string; role?: Role; userId?: string }) {
+    setError(null);
+    try {
+      await remoteMemberAction(action, payload);
+      await refresh();
+      return true;
+    } catch (e) {
+      setError(e instanceof HttpError && typeof e.body?.error === 'string' ? e.body.error : 'Failed');
+      return false;
+    }
+  }
+
+  return (
+    <div className="fixed top-[52px] right-0 bottom-0 z-[70] w-80 flex flex-col border-l border-neutral-800 bg-neutral-950/95 text-sm">
+      <div className="flex items-center gap-2 px-3 h-11 border-b border-neutral-800">
+        <span className="font-medium">Members</span>
+        <button onClick={onClose} className="ml-auto w-7 h-7 rounded-md border border-neutral-800 hover:bg-neutral-900 text-xs">×</button>
+      </div>
+      <div className="flex-1 overflow-y-auto">
+        {members === null && <div className="px-3 py-4 text-neutral-500">Loading…</div>}
+        {members?.map(m => (
+          <div key={m.userId} className="flex items-center gap-2 px-3 py-2 border-b border-neutral-900">
+            <div className="min-w-0 flex-1">
+              <div className="truncate">{m.name}{m.userId === me ? ' (you)' : ''}</div>
+              <div className="truncate text-xs text-neutral-500">{m.email}</div>
+            </div>
+            {canManage ? (
+              <>
+                <select
+                  value={m.role}
+                  onChange={(e) => run('set', { email: m.email, role: e.target.value as Role })}
+                  className="h-7 px-1 text-xs rounded bg-neutral-900 border border-neutral-800"
+                >
+                  {ROLES.map(r => <option key={r} value={r}>{r}</option>)}
+                </select>
+                <button onClick={() => run('remove', { userId: m.userId })} title="Убрать из проекта" className="w-7 h-7 rounded-md border border-neutral-800 hover:bg-red-900/20 text-xs text-red-400">×</button>
+              </>
+            ) : (
+              <span className="text-xs text-neutral-400">{m.role}</span>
+            )}
+          </div>
+        ))}
+      </div>
+      {canManage && (
+        <form
+          className="flex items-center gap-2 p-3 border-t border-neutral-800"
+          onSubmit={async (e) => { e.preventDefault(); if (await run('set', { email, role: newRole })) setEmail(''); }}
+        >
+          <input
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="email"
+            className="min-w-0 flex-1 px-2 h-7 text-xs rounded bg-neutral-900 border border-neutral-800 outline-none focus:border-neutral-600 select-text"
+          />
+          <select value={newRole} onChange={(e) => setNewRole(e.target.value as Role)} className="h-7 px-1 text-xs rounded bg-neutral-900 border border-neutral-800">
+            {ROLES.map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+          <button type="submit" className="px-2 h-7 rounded-md border border-emerald-700/50 text-emerald-300 hover:bg-neutral-900 text-xs">Add</button>
+        </form>
+      )}
+      {error && <div className="px-3 pb-3 text-xs text-red-300">{error}</div>}
+    </div>
+  );
+}
+
+// Обсуждения доски: открытые / решённые треды, фильтр по айтему, ответы и черновик нового треда
+function CommentsPanel({
+  threads, items, filter, active, draft, seen, me, canComment, pinMode,
+  onFilter, onSelect, onPinMode, onCancelDraft, onAction, onClose
+}: {
+  threads: Thread[];
+  items: SBItem[];
+  filter: string | null;
+  active: string | null;
+  draft: { item: string; px?: number; py?: number } | null;
+  seen: Record<string, number>;
+  me: string | null;
+  canComment: boolean;
+  pinMode: boolean;
+  onFilter: (item: string | null) => void;
+  onSelect: (thread: string | null) => void;
+  onPinMode: (on: boolean) => void;
+  onCancelDraft: () => void;
+  onAction: (payload: CommentAction) => Promise<boolean>;
+  onClose: () => void;
+}) {
+  const [showResolved, setShowResolved] = useState(false);
+  const [text, setText] = useState('');
+  const [reply, setReply] = useState('');
+  const [busy, setBusy] = useState(false);
+  // выбранный тред (например, кликом по пину) должен быть на видимой вкладке
+  useEffect(() => {
+    setReply('');
+    const t = threads.find(t => t.id === active);
+    if (t) setShowResolved(t.resolved);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [active]);
+
+  const itemLabel = (id: string) => {
+    const idx = items.findIndex(i => i.id === id);
+    const it = items[idx];
+    return it ? `${it.kind} ${idx + 1}` : 'item';
+  };
+  const list = threads
+    .map((t, i) => ({ t, n: i + 1 }))
+    .filter(({ t }) => t.resolved === showResolved && (!filter || t.item === filter));
+
+  async function run(payload: CommentAction) {
+    setBusy(true);
+    const done = await onAction(payload);
+    setBusy(false);
+    return done;
+  }
+
+  async function submitDraft(e: React.FormEvent) {
+    e.preventDefault();
+    if (!draft || !text.trim()) return;
+    if (await run({ action: 'create', ...draft, body: text })) { setText(''); onCancelDraft(); }
+  }
+
+  async function submitReply(e: React.FormEvent, thread: string) {
+    e.preventDefault();
+    if (!reply.trim()) return;
+    if (await run({ action: 'reply', thread, body: reply })) setReply('');
+  }
+
+  return (
+    <div className="fixed top-[52px] right-0 bottom-0 z-[70] w-80 flex flex-col border-l border-neutral-800 bg-neutral-950/95 text-sm">
+      <div className="flex items-center gap-2 px-3 h-11 border-b border-neutral-800">
+        <span className="font-medium">Comments</span>
+        {canComment && (
+          <button
+            onClick={() => onPinMode(!pinMode)}
+            title="Кликните в точку на тайле, чтобы оставить комментарий к ней (Esc — отмена)"
+            className={`ml-auto px-2 h-7 rounded-md border text-xs ${pinMode ? "border-sky-400 text-sky-300 bg-sky-400/10" : "border-neutral-800 hover:bg-neutral-900"}`}
+          >
+            {pinMode ? 'Click a tile…' : '+ Pin'}
+          </button>
+        )}
+        <button onClick={onClose} className={`${canComment ? '' : 'ml-auto '}w-7 h-7 rounded-md border border-neutral-800 hover:bg-neutral-900 text-xs`}>×</button>
+      </div>
+
+      <div className="flex items-center gap-1 px-3 py-2 border-b border-neutral-900 text-xs">
+        <button onClick={() => setShowResolved(false)} className={`px-2 h-6 rounded ${!showResolved ? "bg-neutral-800 text-white" : "text-neutral-400 hover:bg-neutral-900"}`}>Open</button>
+        <button onClick={() => setShowResolved(true)} className={`px-2 h-6 rounded ${showResolved ? "bg-neutral-800 text-white" : "text-neutral-400 hover:bg-neutral-900"}`}>Resolved</button>
+        {filter && (
+          <button onClick={() => onFilter(null)} title="Показать все треды доски" className="ml-auto px-2 h-6 rounded border border-neutral-800 text-neutral-300 hover:bg-neutral-900">
+            {itemLabel(filter)} ×
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <form onSubmit={submitDraft} className="p-3 border-b border-neutral-800 space-y-2">
+          <div className="text-xs text-neutral-400">
+            New comment on {itemLabel(draft.item)}{draft.px != null ? ' (pinned point)' : ''}
+          </div>
+          <textarea
+            autoFocus
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={3}
+            className="w-full px-2 py-1.5 text-sm rounded bg-neutral-900 border border-neutral-800 outline-none focus:border-neutral-600 resize-none select-text"
+          />
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={onCancelDraft} className="px-2 h-7 rounded-md border border-neutral-800 hover:bg-neutral-900 text-xs">Cancel</button>
+            <button type="submit" disabled={busy || !text.trim()} className="px-2 h-7 rounded-md border border-emerald-700/50 text-emerald-300 hover:bg-neutral-900 text-xs disabled:opacity-50">Post</button>
+          </div>
+        </form>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        {list.length === 0 && <div className="px-3 py-4 text-neutral-500">{showResolved ? 'No resolved threads' : 'No open threads'}</div>}
+        {list.map(({ t, n }) => {
+          const open = t.id === active;
+          const first = t.comments[0];
+          return (
+            <div key={t.id} className={`border-b border-neutral-900 ${open ? "bg-neutral-900/60" : ""}`}>
+              <button onClick={() => onSelect(open ? null : t.id)} className="w-full text-left px-3 py-2 hover:bg-neutral-900">
+                <div className="flex items-center gap-2 text-xs text-neutral-500">
+                  <span className="text-sky-300 font-semibold">#{n}</span>
+                  <span>{itemLabel(t.item)}{t.px != null ? ' · pin' : ''}</span>
+                  <span className="ml-auto">{t.comments.length}</span>
+                  {threadUnread(t, seen, me) && <span className="w-1.5 h-1.5 rounded-full bg-sky-400" />}
+                </div>
+                {!open && first && <div className="mt-0.5 truncate"><span className="text-neutral-400">{first.author}:</span> {first.body}</div>}
+              </button>
+              {open && (
+                <div className="px-3 pb-3 space-y-2">
+                  {t.comments.map(c => (
+                    <div key={c.id}>
+                      <div className="text-xs text-neutral-500">{c.author} · {new Date(c.createdAt).toLocaleString()}</div>
+                      <div className="whitespace-pre-wrap break-words select-text">{c.body}</div>
+                    </div>
+                  ))}
+                  {t.resolved && <div className="text-xs text-emerald-400">Resolved{t.resolvedBy ? ` by ${t.resolvedBy}` : ''}</div>}
+                  {canComment && (
+                    <>
+                      {!t.resolved && (
+                        <form onSubmit={(e) => submitReply(e, t.id)} className="flex gap-2">
+                          <input
+                            value={reply}
+                            onChange={(e) => setReply(e.target.value)}
+                            placeholder="Reply…"
+                            className="min-w-0 flex-1 px-2 h-7 text-xs rounded bg-neutral-900 border border-neutral-800 outline-none focus:border-neutral-600 select-text"
+                          />
+                          <button type="submit" disabled={busy || !reply.trim()} className="px-2 h-7 rounded-md border border-neutral-800 hover:bg-neutral-900 text-xs disabled:opacity-50">Send</button>
+                        </form>
+                      )}
+                      <button
+                        onClick={() => run({ action: t.resolved ? 'unresolve' : 'resolve', thread: t.id })}
+                        disabled={busy}
+                        className="px-2 h-7 rounded-md border border-neutral-800 hover:bg-neutral-900 text-xs"
+                      >
+                        {t.resolved ? 'Reopen' : 'Resolve'}
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// Ссылки на текущую доску: кто угодно с ссылкой смотрит (или комментирует) без аккаунта
+const SHARE_EXPIRY: { label: string; ms: number | null }[] = [
+  { label: 'Never', ms: null },
+  { label: '1 day', ms: 24 * 60 * 60 * 1000 },
+  { label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: '30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+];
+
+function shareUrl(id: string) {
+  return `${location.origin}${location.pathname}?share=${encodeURIComponent(id)}`;
+}
+
+function SharePanel({ board, onClose }: { board: BoardKey; onClose: () => void }) {
+  const [shares, setShares] = useState<ShareLink[] | null>(null);
+  const [scope, setScope] = useState<ShareScope>('view');
+  const [expiry, setExpiry] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  async function refresh() {
+    const list = await remoteListShares(board);
+    setShares(list ?? []);
+  }
+  useEffect(() => { refresh(); }, []);
+
+  async function run(fn: () => Promise<unknown>) {
+    setError(null);
+    try {
+      await fn();
+      await refresh();
+    } catch (e) {
+      setError(e instanceof HttpError && typeof e.body?.error === 'string' ? e.body.error : 'Failed');
+    }
+  }
+
+  async function copy(id: string) {
+    try { await navigator.clipboard.writeText(shareUrl(id)); setCopied(id); } catch {}
+  }
+
+  async function create() {
+    const ms = SHARE_EXPIRY[expiry].ms;
+    // новую ссылку сразу кладём в буфер
+    await run(async () => copy((await remoteCreateShare(board, scope, ms == null ? null : Date.now() + ms)).id));
+  }
+
+  return (
+    <div className="fixed top-[52px] right-0 bottom-0 z-[70] w-80 flex flex-col border-l border-neutral-800 bg-neutral-950/95 text-sm">
+      <div className="flex items-center gap-2 px-3 h-11 border-b border-neutral-800">
+        <span className="font-medium">Share links</span>
+        <button onClick={onClose} className="ml-auto w-7 h-7 rounded-md border border-neutral-800 hover:bg-neutral-900 text-xs">×</button>
+      </div>
+      <div className="flex-1 overflow-y-auto">
+        {shares === null && <div className="px-3 py-4 text-neutral-500">Loading…</div>}
+        {shares?.length === 0 && <div className="px-3 py-4 text-neutral-500">No active links</div>}
+        {shares?.map(s => (
+          <div key={s.id} className="flex items-center gap-2 px-3 py-2 border-b border-neutral-900">
+            <div className="min-w-0 flex-1">
+              <div className="truncate">{s.scope === 'comment' ? 'Can comment' : 'View only'}</div>
+              <div className="truncate text-xs text-neutral-500">
+                {s.expiresAt ? `until ${new Date(s.expiresAt).toLocaleString()}` : 'no expiry'}{s.author ? ` · ${s.author}` : ''}
+              </div>
+            </div>
+            <button
+              onClick={() => copy(s.id)}
+              title="Скопировать ссылку"
+              className="px-2 h-7 rounded-md border border-neutral-800 hover:bg-neutral-900 text-xs"
+            >{copied === s.id ? 'Copied' : 'Copy'}</button>
+            <button onClick={() => run(() => remoteRevokeShare(s.id))} title="Отозвать ссылку" className="w-7 h-7 rounded-md border border-neutral-800 hover:bg-red-900/20 text-xs text-red-400">×</button>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 p-3 border-t border-neutral-800">
+        <select value={scope} onChange={(e) => setScope(e.target.value as ShareScope)} className="h-7 px-1 text-xs rounded bg-neutral-900 border border-neutral-800">
+          <option value="view">view</option>
+          <option value="comment">comment</option>
+        </select>
+        <select value={expiry} onChange={(e) => setExpiry(Number(e.target.value))} className="h-7 px-1 text-xs rounded bg-neutral-900 border border-neutral-800" title="Срок действия">
+          {SHARE_EXPIRY.map((x, i) => <option key={x.label} value={i}>{x.label}</option>)}
+        </select>
+        <button onClick={create} className="ml-auto px-2 h-7 rounded-md border border-emerald-700/50 text-emerald-300 hover:bg-neutral-900 text-xs">Create link</button>
+      </div>
+      {error && <div className="px-3 pb-3 text-xs text-red-300">{error}</div>}
+    </div>
+  );
+}
+
+// === Экспорт доски в PNG/JPEG ===
+type ExportFormat = 'png' | 'jpeg';
+const EXPORT_MAX_SIDE = 16384;      // предел стороны canvas в браузерах
+const EXPORT_MAX_AREA = 16384 * 8192; // и площади (~512 МБ RGBA)
+
+// object-cover: какой кусок источника виден в рамке boxW×boxH (по центру, без искажений) — как <img> в Tile
+export function coverCrop(srcW: number, srcH: number, boxW: number, boxH: number) {
+  const k = Math.max(boxW / srcW, boxH / srcH);
+  const sw = boxW / k, sh = boxH / k;
+  return { sx: (srcW - sw) / 2, sy: (srcH - sh) / 2, sw, sh };
+}
+
+type Drawable = { src: CanvasImageSource; w: number; h: number; release: () => void };
+
+// медиа блобом: idb:// — из IndexedDB, остальное — fetch (без CORS вернёт ошибку)
+async function fetchBlob(url: string): Promise<Blob | null> {
+  return isIdbUrl(url)
+    ? await idbGetBlob(idFromIdbUrl(url))
+    : await fetch(url).then(r => r.ok ? r.blob() : null);
+}
+
+// медиа айтема как источник для canvas. Всё тянем блобом: картинка с чужого домена без CORS
+// «пачкает» canvas, и toBlob падает. У сайта — его снимок
+async function loadDrawable(it: SBItem): Promise<Drawable | null> {
+  const url = it.kind === 'site' ? it.thumb : it.url;
+  if (!url) return null;
+  try {
+    const blob = await fetchBlob(url);
+    if (!blob) return null;
+    if (it.kind === 'video') return await videoFrame(blob);
+    const bmp = await createImageBitmap(blob);
+    return { src: bmp, w: bmp.width, h: bmp.height, release: () => bmp.close() };
+  } catch {
+    return null;
+  }
+}
+
+// кадр видео: чуть после начала (нулевой часто чёрный); не дождались — значит, нет
+function videoFrame(blob: Blob): Promise<Drawable | null> {
+  return new Promise(resolve => {
+    const obj = URL.createObjectURL(blob);
+    const v = document.createElement('video');
+    let done = false;
+    const finish = (d: Drawable | null) => {
+      if (done) return;
+      done = true;
+      if (!d) URL.revokeObjectURL(obj);
+      resolve(d);
+    };
+    v.muted = true;
+    v.preload = 'auto';
+    v.onloadeddata = () => { v.currentTime = Math.min(0.5, (v.duration || 0) / 2); };
+    v.onseeked = () => finish(v.videoWidth ? { src: v, w: v.videoWidth, h: v.videoHeight, release: () => URL.revokeObjectURL(obj) } : null);
+    v.onerror = () => finish(null);
+    window.setTimeout(() => finish(null), 10000);
+    v.src = obj;
+  });
+}
+
+// материал, который не нарисовать (нет снимка сайта, CORS, удалён) — карточка с доменом
+function drawPlaceholder(ctx: CanvasRenderingContext2D, it: SBItem, x: number, y: number, w: number, h: number) {
+  let label: string = it.kind;
+  if (!isIdbUrl(it.url)) { try { label = new URL(it.url).hostname || label; } catch {} }
+  ctx.fillStyle = '#737373';
+  ctx.font = `${Math.round(Math.max(12, Math.min(32, w / 16)))}px ui-sans-serif, system-ui, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, x + w / 2, y + h / 2, w - 32);
+}
+
+// что попадает в экспорт: moodboard — весь артборд, styleboard — рамка вокруг материалов
+// (его холст огромный и почти пустой); px холста
+export function exportFrame(items: SBItem[], type: BoardType, canvasW: number, canvasH: number) {
+  if (type === 'mood') return { x0: 0, y0: 0, w: canvasW, h: canvasH };
+  if (!items.length) throw new Error('empty board');
+  const b = getBBoxTight(items);
+  const pad = 2 * GRID;
+  return {
+    x0: b.minX * GRID - pad,
+    y0: b.minY * GRID - pad,
+    w: (b.maxX - b.minX + 1) * GRID + 2 * pad,
+    h: (b.maxY - b.minY + 1) * GRID + 2 * pad,
+  };
+}
+
+// масштаб растра: запрошенный, но не больше пределов canvas по стороне и площади
+export function exportScale(w: number, h: number, scale: number) {
+  return scale * Math.min(1, EXPORT_MAX_SIDE / (w * scale), EXPORT_MAX_SIDE / (h * scale), Math.sqrt(EXPORT_MAX_AREA / (w * h)) / scale);
+}
+
+// Рисует раскладку доски в один растр. Не влезает в пределы canvas — уменьшаем масштаб
+async function renderBoardRaster(
+  items: SBItem[],
+  o: { type: BoardType; canvasW: number; canvasH: number; scale: number; outlines: boolean }
+): Promise<{ canvas: HTMLCanvasElement; scale: number; missing: number }> {
+  const { x0, y0, w, h } = exportFrame(items, o.type, o.canvasW, o.canvasH);
+  const k = exportScale(w, h, o.scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(w * k);
+  canvas.height = Math.round(h * k);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('canvas 2d is not available');
+  ctx.scale(k, k);
+  ctx.translate(-x0, -y0);
+  ctx.fillStyle = '#0a0a0a';
+  ctx.fillRect(x0, y0, w, h);
+
+  const style = o.type === 'style';
+  const radius = style ? 12 : 0;
+  let missing = 0;
+  // по одному: декодированные картинки большие, не держим все в памяти
+  for (const it of items) {
+    const x = it.gx * GRID, y = it.gy * GRID, tw = it.gw * GRID, th = it.gh * GRID;
+    const color = o.outlines && it.status !== 'proposed' ? STATUS_META[it.status].inset : null;
+    const d = await loadDrawable(it);
+    ctx.save();
+    ctx.beginPath();
+    ctx.roundRect(x, y, tw, th, radius);
+    ctx.clip();
+    ctx.fillStyle = style ? '#171717' : '#000';
+    ctx.fillRect(x, y, tw, th);
+    if (d && d.w && d.h) {
+      const c = coverCrop(d.w, d.h, tw, th);
+      ctx.drawImage(d.src, c.sx, c.sy, c.sw, c.sh, x, y, tw, th);
+    } else {
+      missing++;
+      drawPlaceholder(ctx, it, x, y, tw, th);
+    }
+    d?.release();
+    // moodboard — внутренняя обводка (как в Tile), styleboard — рамка тайла
+    if (color && !style) {
+      ctx.lineWidth = 4;
+      ctx.strokeStyle = color;
+      ctx.strokeRect(x + 2, y + 2, tw - 4, th - 4);
+    } else if (style) {
+      ctx.lineWidth = 1;
+      ctx.strokeStyle = '#262626';
+      ctx.beginPath();
+      ctx.roundRect(x + 0.5, y + 0.5, tw - 1, th - 1, radius);
+      ctx.stroke();
+    }
+    ctx.restore();
+    // styleboard — ring-4 снаружи тайла
+    if (color && style) {
+      ctx.lineWidth = 4;
+      ctx.strokeStyle = color;
+      ctx.beginPath();
+      ctx.roundRect(x - 2, y - 2, tw + 4, th + 4, radius + 2);
+      ctx.stroke();
+    }
+  }
+  return { canvas, scale: k, missing };
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, format: ExportFormat): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(b => b ? resolve(b) : reject(new Error('toBlob failed')), `image/${format}`, format === 'jpeg' ? 0.92 : undefined)
+  );
+}
+
+// имя доски → имя файла
+export const fileBase = (name: string) => name.trim().replace(/[\\/:*?"<>|]+/g, '_') || 'board';
+
+function downloadBlob(blob: Blob, filename: string) {
+  const href = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = href;
+  a.download = filename;
+  a.click();
+  window.setTimeout(() => URL.revokeObjectURL(href), 1000);
+}
+
+// === PDF для клиента: обложка, вся доска, по странице на согласованный материал ===
+const PDF_PAGE = { w: 960, h: 540 }; // лист 16:9, пункты
+const PDF_PX = 2;                    // пикселей растра на пункт
+const PDF_FONT = 'ui-sans-serif, system-ui, sans-serif';
+
+type PdfSheet = { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D; links: PdfLink[] };
+
+// лист рисуем в пунктах, растр — в PDF_PX раз плотнее
+function newPdfSheet(): PdfSheet {
+  const canvas = document.createElement('canvas');
+  canvas.width = PDF_PAGE.w * PDF_PX;
+  canvas.height = PDF_PAGE.h * PDF_PX;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('canvas 2d is not available');
+  ctx.scale(PDF_PX, PDF_PX);
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, PDF_PAGE.w, PDF_PAGE.h);
+  ctx.textBaseline = 'top';
+  return { canvas, ctx, links: [] };
+}
+
+async function finishPdfSheet(p: PdfSheet): Promise<PdfPage> {
+  const blob = await canvasToBlob(p.canvas, 'jpeg');
+  return { jpeg: new Uint8Array(await blob.arrayBuffer()), pxW: p.canvas.width, pxH: p.canvas.height, links: p.links };
+}
+
+// перенос по словам; слово длиннее строки (обычно URL) режем посимвольно
+function wrapLines(ctx: CanvasRenderingContext2D, text: string, maxW: number): string[] {
+  const out: string[] = [];
+  for (const para of text.split('\n')) {
+    let line = '';
+    for (let word of para.split(/\s+/)) {
+      if (!word) continue;
+      const cand = line ? `${line} ${word}` : word;
+      if (ctx.measureText(cand).width <= maxW) { line = cand; continue; }
+      if (line) out.push(line);
+      while (ctx.measureText(word).width > maxW) {
+        let n = word.length - 1;
+        while (n > 1 && ctx.measureText(word.slice(0, n)).width > maxW) n--;
+        out.push(word.slice(0, n));
+        word = word.slice(n);
+      }
+      line = word;
+    }
+    out.push(line);
+  }
+  return out;
+}
+
+// абзац с переносами; вернёт y под ним и его рамку (для ссылки)
+function pdfText(p: PdfSheet, text: string, x: number, y: number, o: { size: number; maxW: number; color?: string; bold?: boolean; maxLines?: number }) {
+  const { ctx } = p;
+  ctx.font = `${o.bold ? '600 ' : ''}${o.size}px ${PDF_FONT}`;
+  ctx.fillStyle = o.color ?? '#171717';
+  ctx.textAlign = 'left';
+  let lines = wrapLines(ctx, text, o.maxW);
+  if (o.maxLines && lines.length > o.maxLines) lines = [...lines.slice(0, o.maxLines - 1), lines[o.maxLines - 1] + '…'];
+  const lh = Math.round(o.size * 1.35);
+  lines.forEach((l, i) => ctx.fillText(l, x, y + i * lh));
+  const w = Math.max(0, ...lines.map(l => ctx.measureText(l).width));
+  return { y: y + lines.length * lh, rect: { x, y, w, h: lines.length * lh } };
+}
+
+function pdfFooter(p: PdfSheet, left: string, n: number, total: number) {
+  const { ctx } = p;
+  ctx.font = `10px ${PDF_FONT}`;
+  ctx.fillStyle = '#a3a3a3';
+  ctx.textAlign = 'left';
+  ctx.fillText(left, 48, PDF_PAGE.h - 32);
+  ctx.textAlign = 'right';
+  ctx.fillText(`${n} / ${total}`, PDF_PAGE.w - 48, PDF_PAGE.h - 32);
+}
+
+const KIND_LABEL: Record<ItemKind, string> = { image: 'Image', video: 'Video', site: 'Website' };
+
+// Презентация собирается целиком в браузере. Материал на своей странице кадрируется
+// той же coverCrop, что и экспорт в картинку — ровно как тайл на доске
+async function renderBoardPdf(
+  items: SBItem[],
+  o: { name: string; project?: string; type: BoardType; canvasW: number; canvasH: number; outlines: boolean }
+): Promise<{ blob: Blob; approved: number; missing: number }> {
+  const approved = items.filter(i => i.status === 'approved');
+  const total = 2 + approved.length;
+  const pages: PdfPage[] = [];
+  let missing = 0;
+
+  // обложка
+  {
+    const p = newPdfSheet();
+    const counts = APPROVAL_STATUSES
+      .map(st => [STATUS_META[st].label, items.filter(i => i.status === st).length] as const)
+      .filter(([, n]) => n > 0)
+      .map(([label, n]) => `${n} ${label.toLowerCase()}`);
+    pdfText(p, o.type === 'mood' ? 'MOODBOARD' : 'STYLEBOARD', 48, 48, { size: 12, maxW: 600, color: '#737373', bold: true });
+    let y = pdfText(p, o.name, 48, 200, { size: 44, maxW: 864, bold: true, maxLines: 2 }).y + 8;
+    if (o.project) y = pdfText(p, o.project, 48, y, { size: 20, maxW: 864, color: '#525252' }).y;
+    pdfText(p, [`${items.length} items`, ...counts].join(' · '), 48, y + 24, { size: 14, maxW: 864, color: '#737373' });
+    pdfText(p, new Date().toLocaleDateString(), 48, PDF_PAGE.h - 64, { size: 12, maxW: 400, color: '#737373' });
+    pages.push(await finishPdfSheet(p));
+  }
+
+  // вся доска — вписываем растр в поле листа
+  {
+    const p = newPdfSheet();
+    pdfText(p, 'Overview', 48, 32, { size: 16, maxW: 600, bold: true });
+    const box = { x: 48, y: 64, w: PDF_PAGE.w - 96, h: PDF_PAGE.h - 120 };
+    if (o.type === 'mood' || items.length) {
+      const f = exportFrame(items, o.type, o.canvasW, o.canvasH);
+      const fit = Math.min(box.w / f.w, box.h / f.h);
+      const r = await renderBoardRaster(items, { type: o.type, canvasW: o.canvasW, canvasH: o.canvasH, scale: fit * PDF_PX, outlines: o.outlines });
+      missing = r.missing;
+      const dw = f.w * fit, dh = f.h * fit;
+      p.ctx.drawImage(r.canvas, box.x + (box.w - dw) / 2, box.y + (box.h - dh) / 2, dw, dh);
+    } else {
+      pdfText(p, 'No items', box.x, box.y, { size: 14, maxW: box.w, color: '#737373' });
+    }
+    pdfFooter(p, o.name, 2, total);
+    pages.push(await finishPdfSheet(p));
+  }
+
+  // по странице на согласованный материал: слева кадр тайла, справа — кто, когда, заметка и источник
+  for (const [i, it] of approved.entries()) {
+    const p = newPdfSheet();
+    const { ctx } = p;
+    const area = { x: 48, y: 48, w: 560, h: PDF_PAGE.h - 112 };
+    const k = Math.min(area.w / it.gw, area.h / it.gh);
+    const bw = it.gw * k, bh = it.gh * k;
+    const bx = area.x + (area.w - bw) / 2, by = area.y + (area.h - bh) / 2;
+    ctx.fillStyle = '#f5f5f5';
+    ctx.fillRect(bx, by, bw, bh);
+    const d = await loadDrawable(it);
+    if (d && d.w && d.h) {
+      const c = coverCrop(d.w, d.h, bw, bh);
+      ctx.drawImage(d.src, c.sx, c.sy, c.sw, c.sh, bx, by, bw, bh);
+    } else {
+      drawPlaceholder(ctx, it, bx, by, bw, bh);
+    }
+    d?.release();
+
+    const col = { x: 648, w: PDF_PAGE.w - 648 - 48 };
+    let y = pdfText(p, `#${i + 1} · ${KIND_LABEL[it.kind]}`, col.x, 48, { size: 12, maxW: col.w, color: '#737373' }).y + 8;
+    y = pdfText(p, STATUS_META.approved.label, col.x, y, { size: 22, maxW: col.w, bold: true, color: STATUS_META.approved.inset }).y;
+    const signed = [it.statusBy, it.statusAt ? new Date(it.statusAt).toLocaleString() : null].filter(Boolean).join(' · ');
+    if (signed) y = pdfText(p, signed, col.x, y + 2, { size: 11, maxW: col.w, color: '#737373' }).y;
+    y = pdfText(p, 'Notes', col.x, y + 24, { size: 11, maxW: col.w, bold: true, color: '#525252' }).y + 4;
+    y = pdfText(p, it.statusNote || '—', col.x, y, { size: 13, maxW: col.w, maxLines: 12 }).y;
+    y = pdfText(p, 'Source', col.x, y + 24, { size: 11, maxW: col.w, bold: true, color: '#525252' }).y + 4;
+    if (isIdbUrl(it.url)) {
+      pdfText(p, 'Local file (not uploaded)', col.x, y, { size: 11, maxW: col.w, color: '#737373' });
+    } else {
+      const u = pdfText(p, it.url, col.x, y, { size: 11, maxW: col.w, color: '#2563eb', maxLines: 6 });
+      p.links.push({ ...u.rect, url: it.url });
+    }
+    pdfFooter(p, o.name, 3 + i, total);
+    pages.push(await finishPdfSheet(p));
+  }
+
+  return { blob: buildPdf(pages, PDF_PAGE, o.name), approved: approved.length, missing };
+}
+
+const SYNC_VIEW: Record<SyncStatus, { label: string; title: string; cls: string }> = {
+  saved:   { label: 'Saved',      title: 'Все правки записаны в БД', cls: 'text-neutral-500 border-neutral-800' },
+  saving:  { label: 'Saving…',    title: 'Правки отправляются в БД', cls: 'text-neutral-300 border-neutral-700' },
+  offline: { label: 'Offline',    title: 'Нет связи с БД: правки сохранены в браузере и уйдут, когда связь вернётся', cls: 'text-amber-300 border-amber-600/40' },
+  error:   { label: 'Sync error', title: 'БД не приняла правки — они ждут в очереди. Нажмите, чтобы повторить', cls: 'text-red-300 border-red-600/40 hover:bg-red-950/40' },
+};
+
+function SyncBadge({ status, onRetry }: { status: SyncStatus; onRetry: () => void }) {
+  const v = SYNC_VIEW[status];
+  const retry = status === 'offline' || status === 'error';
+  return (
+    <button
+      onClick={retry ? onRetry : undefined}
+      disabled={!retry}
+      className={`px-2 h-8 rounded-md border text-xs mr-2 inline-flex items-center gap-1.5 ${v.cls}`}
+      title={v.title}
+    >
+      <span className={`w-1.5 h-1.5 rounded-full ${status === 'saved' ? 'bg-emerald-500' : status === 'saving' ? 'bg-sky-400 animate-pulse' : status === 'offline' ? 'bg-amber-400' : 'bg-red-500'}`} />
+      {v.label}
+      {retry && <span className="underline">Retry</span>}
+    </button>
+  );
+}
+
+// Галерея вариантов Shuffle: N раскладок из новых seed при текущих интенсивности и режиме, превью рядом,
+// под каждым — искажение аспекта (меньше — меньше кропа). Закреплённые варианты хранятся с доской
+const VARIATION_COUNTS = [4, 6, 9];
+type Variation = MoodAlternative & { items: SBItem[]; distortion: number };
+
+// Поле seed: Enter или уход фокуса применяют введённое, Escape — отменяет.
+// blur() из onKeyDown вызывает onBlur раньше перерисовки (в замыкании ещё старый черновик),
+// поэтому отмену помним в ref, а значение берём из самого поля
+export function SeedInput({ seed, onCommit }: { seed: number; onCommit: (seed: number) => void }) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const cancelled = useRef(false);
+  return (
+    <input
+      value={draft ?? formatSeed(seed)}
+      onChange={(e) => setDraft(e.target.value)}
+      onFocus={(e) => e.target.select()}
+      onBlur={(e) => {
+        const next = cancelled.current ? null : parseSeed(e.currentTarget.value);
+        cancelled.current = false;
+        setDraft(null);
+        if (next != null && next !== seed) onCommit(next);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') cancelled.current = true;
+        if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+      }}
+      maxLength={8}
+      spellCheck={false}
+      aria-label="Seed"
+      className={`w-20 h-7 px-1.5 rounded border bg-neutral-900 font-mono tabular-nums ${
+        draft != null && parseSeed(draft) == null ? 'border-red-700' : 'border-neutral-800'
+      }`}
+      title="Seed раскладки: тот же seed на тех же картинках и холсте даёт ту же доску. Вставьте чужой seed и нажмите Enter"
+    />
+  );
+}
+
+export function VariationsPanel({ items, W, H, intensity, seed, layout, pinned, busy, onApply, onTogglePin, onClose }: {
+  items: SBItem[];
+  W: number;
+  H: number;
+  intensity: number;
+  seed: number;
+  layout: MoodLayout;
+  pinned: MoodAlternative[];
+  busy: boolean;
+  onApply: (a: MoodAlternative) => void;
+  onTogglePin: (a: MoodAlternative) => void;
+  onClose: () => void;
+}) {
+  const [count, setCount] = useState(6);
+  const [generated, setGenerated] = useState<MoodAlternative[]>([]);
+  // опрос присылает новый массив items на каждой ревизии — раскладки пересчитываем, только если
+  // поменялось то, что они читают: состав, пропорции, закреплённые места (и картинки для превью).
+  // Порядок айтемов раскладке не важен (seededLayout), поэтому и в ключе его нет
+  const mediaKey = items
+    .filter(i => i.kind === 'image' || i.kind === 'video')
+    .map(i => [i.id, i.kind, i.url, i.thumb, i.natW, i.natH, i.natR, i.locked ? `${i.gx},${i.gy},${i.gw},${i.gh}` : ''].join('|'))
+    .sort()
+    .join('\n');
+  const media = useMemo(() => items.filter(i => i.kind === 'image' || i.kind === 'video'), [mediaKey]); // eslint-disable-line react-hooks/exhaustive-deps
+  const srcs = useThumbSrcs(media);
+
+  // Раскладки пересчитываем из seed (превью всегда соответствует текущим айтемам и холсту), но по одной
+  // за тик: 9 сгенерированных и 12 закреплённых синхронно подвешивали панель. Кэш — по варианту,
+  // сбрасывается вместе с айтемами и холстом; ещё не посчитанные карточки показывают заглушку
+  const inputKey = `${W}x${H}\n${mediaKey}`;
+  const [laid, setLaid] = useState<{ key: string; views: Record<string, Variation> }>({ key: inputKey, views: {} });
+  const views = laid.key === inputKey ? laid.views : {};
+  const next = [...pinned, ...generated].find(a => !views[altKey(a)]);
+  useEffect(() => {
+    if (!next) return;
+    const t = window.setTimeout(() => {
+      const laidOut = shuffleMoodboard(media, W, H, next.intensity, next.seed, next.layout ?? DEFAULT_MOOD_LAYOUT);
+      const v: Variation = { ...next, items: laidOut, distortion: aspectDistortion(laidOut) };
+      setLaid(prev => ({ key: inputKey, views: { ...(prev.key === inputKey ? prev.views : {}), [altKey(next)]: v } }));
+    }, 0);
+    return () => window.clearTimeout(t);
+  }, [next && altKey(next), inputKey]); // eslint-disable-line react-hooks/exhaustive-deps
+  const generatedViews = generated.map(a => views[altKey(a)]);
+  const running = generatedViews.some(v => !v);
+  // лучший — когда посчитаны все, иначе подсветка прыгала бы по мере расчёта
+  const best = running ? null : generatedViews.reduce<Variation | null>((b, v) => !b || v.distortion < b.distortion ? v : b, null);
+
+  function generate() {
+    setGenerated(Array.from({ length: count }, () => ({ seed: newSeed(), intensity, layout })));
+  }
+
+  const current = altKey({ seed, intensity, layout });
+  const isPinned = (a: MoodAlternative) => pinned.some(x => altKey(x) === altKey(a));
+  const card = (a: MoodAlternative) => {
+    const v = views[altKey(a)];
+    return (
+      <div key={altKey(a)} className={`rounded-md border p-1.5 ${altKey(a) === current ? "border-emerald-700/60" : "border-neutral-800"}`}>
+        <button onClick={() => onApply(a)} disabled={busy} title="Применить к доске" className="block w-full disabled:opacity-50">
+          {v
+            ? <VariationThumb items={v.items} W={W} H={H} srcs={srcs} />
+            : <div className="w-full bg-neutral-900 rounded animate-pulse" style={{ aspectRatio: `${W} / ${H}` }} aria-label="Раскладка считается" />}
+        </button>
+        <div className="mt-1 flex items-center gap-1 text-[11px]">
+          <span className="font-mono text-neutral-400">{formatSeed(a.seed)}</span>
+          <span className="text-neutral-600">· {MOOD_MODES.find(m => m.mode === (a.layout ?? DEFAULT_MOOD_LAYOUT).mode)?.label} · {a.intensity}</span>
+          <span
+            className={`ml-auto tabular-nums ${v && v === best ? "text-emerald-400" : "text-neutral-400"}`}
+            title="Искажение аспекта: насколько тайлы в среднем (по площади) отходят от пропорций исходников"
+          >{v ? `${(v.distortion * 100).toFixed(1)}%` : '…'}</span>
+          <button
+            onClick={() => onTogglePin(a)}
+            className={`w-5 h-5 rounded border ${isPinned(a) ? "border-amber-600/60 text-amber-300" : "border-neutral-800 text-neutral-500 hover:bg-neutral-900"}`}
+            title={isPinned(a) ? 'Открепить' : 'Закрепить как вариант доски'}
+          >★</button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed top-[52px] right-0 bottom-0 z-[70] w-[420px] flex flex-col border-l border-neutral-800 bg-neutral-950/95 text-sm">
+      <div className="flex items-center gap-2 px-3 h-11 border-b border-neutral-800">
+        <span className="font-medium">Variations</span>
+        <span className="text-xs text-neutral-500">{MOOD_MODES.find(m => m.mode === layout.mode)?.label} · intensity {intensity}</span>
+        <button onClick={onClose} className="ml-auto w-7 h-7 rounded-md border border-neutral-800 hover:bg-neutral-900 text-xs">×</button>
+      </div>
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-neutral-800 text-xs">
+        {VARIATION_COUNTS.map(n => (
+          <button key={n} onClick={() => setCount(n)} className={`px-2 h-7 rounded-md border ${count === n ? "border-neutral-600 bg-neutral-800" : "border-neutral-800 hover:bg-neutral-900"}`}>{n}</button>
+        ))}
+        <button
+          onClick={generate}
+          disabled={running || !media.length}
+          className={`ml-auto px-2 h-7 rounded-md border ${running || !media.length ? "opacity-50 cursor-not-allowed border-neutral-800" : "border-emerald-700/50 text-emerald-300 hover:bg-neutral-900"}`}
+        >{running ? 'Generating…' : 'Generate'}</button>
+      </div>
+      <div className="flex-1 overflow-auto p-3 space-y-3 text-xs">
+        {!media.length && <div className="text-neutral-500">На доске нет картинок и видео</div>}
+        {pinned.length > 0 && (
+          <div>
+            <div className="mb-1.5 text-neutral-400">Pinned</div>
+            <div className="grid grid-cols-2 gap-2">{pinned.map(card)}</div>
+          </div>
+        )}
+        {generated.length > 0 && (
+          <div>
+            <div className="mb-1.5 text-neutral-400">Generated · клик по превью — применить, ★ — закрепить</div>
+            <div className="grid grid-cols-2 gap-2">{generated.map(card)}</div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// превью раскладки: тайлы в масштабе холста, картинки с тем же кадрированием (cover), что на доске
+function VariationThumb({ items, W, H, srcs }: { items: SBItem[]; W: number; H: number; srcs: Record<string, string> }) {
+  return (
+    <div className="relative w-full bg-neutral-900 rounded overflow-hidden" style={{ aspectRatio: `${W} / ${H}` }}>
+      {items.map(it => {
+        const src = it.kind === 'image' ? srcs[it.url] : it.thumb && !isIdbUrl(it.thumb) ? it.thumb : undefined;
+        return (
+          <div
+            key={it.id}
+            className="absolute bg-neutral-700 bg-cover bg-center"
+            style={{
+              left: `${it.gx / W * 100}%`, top: `${it.gy / H * 100}%`,
+              width: `${it.gw / W * 100}%`, height: `${it.gh / H * 100}%`,
+              backgroundImage: src ? `url("${src}")` : undefined,
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+// адреса картинок для превью: idb:// — object URL из IndexedDB (освобождаем при размонтировании)
+function useThumbSrcs(items: SBItem[]) {
+  const [srcs, setSrcs] = useState<Record<string, string>>({});
+  const urls = [...new Set(items.filter(i => i.kind === 'image').map(i => i.url))].sort().join('\n');
+  useEffect(() => {
+    let canceled = false;
+    const created: string[] = [];
+    (async () => {
+      const out: Record<string, string> = {};
+      for (const u of urls ? urls.split('\n') : []) {
+        if (!isIdbUrl(u)) { out[u] = u; continue; }
+        const blob = await idbGetBlob(idFromIdbUrl(u)).catch(() => null);
+        if (!blob) continue;
+        const obj = URL.createObjectURL(blob);
+        // эффект уже снят (cleanup прошёл раньше чтения из IDB) — освобождаем сразу
+        if (canceled) { URL.revokeObjectURL(obj); return; }
+        created.push(obj);
+        out[u] = obj;
+      }
+      if (!canceled) setSrcs(out);
+    })();
+    return () => {
+      canceled = true;
+      created.forEach(u => URL.revokeObjectURL(u));
+    };
+  }, [urls]);
+  return srcs;
+}
+
+function ExportPanel({ items, name, project, type, canvasW, canvasH, onClose }: {
+  items: SBItem[];
+  name: string;
+  project?: string;
+  type: BoardType;
+  canvasW: number;
+  canvasH: number;
+  onClose: () => void;
+}) {
+  const [format, setFormat] = useState<ExportFormat | 'pdf'>('png');
+  const [scale, setScale] = useState<1 | 2>(2);
+  const [outlines, setOutlines] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<{ text: string; err?: boolean } | null>(null);
+  const empty = type === 'style' && !items.length;
+
+  async function run() {
+    setBusy(true);
+    setResult(null);
+    const base = fileBase(name);
+    try {
+      if (format === 'pdf') {
+        const r = await renderBoardPdf(items, { name, project, type, canvasW, canvasH, outlines });
+        downloadBlob(r.blob, `${base}.pdf`);
+        setResult({ text: [`${2 + r.approved} pages`, r.missing ? `${r.missing} without preview` : null].filter(Boolean).join(' · ') });
+        return;
+      }
+      const r = await renderBoardRaster(items, { type, canvasW, canvasH, scale, outlines });
+      const blob = await canvasToBlob(r.canvas, format);
+      downloadBlob(blob, `${base}@${scale}x.${format === 'jpeg' ? 'jpg' : 'png'}`);
+      setResult({
+        text: [
+          `${r.canvas.width}×${r.canvas.height}px`,
+          r.scale < scale ? `reduced to ${r.scale.toFixed(2)}× (canvas limit)` : null,
+          r.missing ? `${r.missing} without preview` : null,
+        ].filter(Boolean).join(' · '),
+      });
+    } catch (e) {
+      console.warn('[export] failed', e);
+      setResult({ text: 'Export failed', err: true });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="fixed top-[52px] right-0 z-[70] w-80 flex flex-col border-l border-b border-neutral-800 bg-neutral-950/95 text-sm">
+      <div className="flex items-center gap-2 px-3 h-11 border-b border-neutral-800">
+        <span className="font-medium">Export</span>
+        <button onClick={onClose} className="ml-auto w-7 h-7 rounded-md border border-neutral-800 hover:bg-neutral-900 text-xs">×</button>
+      </div>
+      <div className="p-3 space-y-3 text-xs">
+        <div className="flex items-center gap-2">
+          <span className="w-14 text-neutral-400">Format</span>
+          {(['png', 'jpeg', 'pdf'] as const).map(f => (
+            <button key={f} onClick={() => setFormat(f)} className={`px-2 h-7 rounded-md border ${format === f ? "border-neutral-600 bg-neutral-800" : "border-neutral-800 hover:bg-neutral-900"}`}>{f.toUpperCase()}</button>
+          ))}
+        </div>
+        {format !== 'pdf' && <div className="flex items-center gap-2">
+          <span className="w-14 text-neutral-400">Scale</span>
+          {([1, 2] as const).map(k => (
+            <button key={k} onClick={() => setScale(k)} className={`px-2 h-7 rounded-md border ${scale === k ? "border-neutral-600 bg-neutral-800" : "border-neutral-800 hover:bg-neutral-900"}`}>{k}×</button>
+          ))}
+        </div>}
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={outlines} onChange={(e) => setOutlines(e.target.checked)} className="accent-emerald-500" />
+          <span>Status outlines</span>
+        </label>
+        {format === 'pdf' && <div className="text-neutral-500">Обложка, вся доска и по странице на каждый Approved-материал со ссылкой и заметкой.</div>}
+        <div className="text-neutral-500">Сайты рисуются своим снимком (кнопка с камерой на тайле).</div>
+      </div>
+      <div className="flex items-center gap-2 p-3 border-t border-neutral-800">
+        {result && <span className={`min-w-0 truncate text-xs ${result.err ? "text-red-300" : "text-neutral-500"}`} title={result.text}>{result.text}</span>}
+        <button
+          onClick={run}
+          disabled={busy || empty}
+          className={`ml-auto px-2 h-7 rounded-md border text-xs ${busy || empty ? "opacity-50 cursor-not-allowed border-neutral-800" : "border-emerald-700/50 text-emerald-300 hover:bg-neutral-900"}`}
+        >{busy ? 'Rendering…' : 'Export'}</button>
+      </div>
+    </div>
+  );
+}
+
+// === Архив доски: один .zip — board.json и медиа. Переносит доску между машинами без общей БД ===
+const ARCHIVE_FORMAT = 'styleboard-archive';
+const ARCHIVE_VERSION = 1;
+
+// в архиве у айтема вместо idb:// / S3 — путь к файлу внутри zip (если медиа удалось забрать)
+type ArchiveItem = Omit<SBItem, 'board'> & { media?: string; thumbMedia?: string };
+type BoardArchive = {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  schema: number; // версия схемы айтемов (SCHEMA_VERSION)
+  exportedAt: number;
+  board: { name: string; type: BoardType; canvas?: { w: number; h: number } };
+  items: ArchiveItem[];
+};
+
+const MEDIA_EXT: Record<string, string> = {
+  'image/png': 'png', 'image/jpeg': 'jpg', 'image/gif': 'gif', 'image/webp': 'webp', 'image/avif': 'avif',
+  'image/svg+xml': 'svg', 'video/mp4': 'mp4', 'video/webm': 'webm', 'video/ogg': 'ogv',
+};
+const mimeFromPath = (path: string) =>
+  Object.keys(MEDIA_EXT).find(m => path.endsWith('.' + MEDIA_EXT[m])) ?? 'application/octet-stream';
+
+// медиа, которое не забрать (CORS, пропавший idb-блоб), остаётся ссылкой — вернём их число
+async function buildBoardArchive(meta: BoardMeta, items: SBItem[], canvas: { w: number; h: number }): Promise<{ blob: Blob; skipped: number }> {
+  const files: ZipEntry[] = [];
+  let skipped = 0;
+  const embed = async (url: string, name: string) => {
+    const blob = await fetchBlob(url).catch(() => null);
+    if (!blob) { skipped++; return undefined; }
+    const path = `media/${name}.${MEDIA_EXT[blob.type] ?? 'bin'}`;
+    files.push({ name: path, data: new Uint8Array(await blob.arrayBuffer()) });
+    return path;
+  };
+  const out: ArchiveItem[] = [];
+  for (const [i, { board: _board, ...it }] of items.entries()) {
+    const a: ArchiveItem = { ...it };
+    if (it.kind !== 'site') a.media = await embed(it.url, String(i));
+    if (it.thumb) a.thumbMedia = await embed(it.thumb, `${i}-thumb`);
+    out.push(a);
+  }
+  const manifest: BoardArchive = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    schema: SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    board: { name: meta.name, type: meta.type, canvas },
+    items: out,
+  };
+  files.unshift({ name: 'board.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return { blob: zipStore(files), skipped };
+}
+
+// разбор и проверка архива; текст ошибки показываем пользователю как есть.
+// Айтемы — через миграции и validateItems, как и всё остальное; неисправимые отбрасываются
+async function readBoardArchive(file: File): Promise<{ archive: BoardArchive; files: Map<string, Uint8Array>; dropped: number }> {
+  const files = unzipStore(new Uint8Array(await file.arrayBuffer()));
+  const raw = files.get('board.json');
+  if (!raw) throw new Error('board.json is missing');
+  let a: any;
+  try { a = JSON.parse(new TextDecoder().decode(raw)); } catch { throw new Error('board.json is not valid JSON'); }
+  if (a?.format !== ARCHIVE_FORMAT) throw new Error('Not a board archive');
+  if (!Number.isInteger(a.version) || a.version < 1) throw new Error('Unknown archive version');
+  if (a.version > ARCHIVE_VERSION) throw new Error(`Archive v${a.version} is newer than this app (v${ARCHIVE_VERSION})`);
+  if (a.board?.type !== 'mood' && a.board?.type !== 'style') throw new Error('Unknown board type');
+  if (!Array.isArray(a.items)) throw new Error('Items are missing');
+  a.items.forEach((it: any, i: number) => {
+    for (const key of ['media', 'thumbMedia'] as const) {
+      if (it?.[key] != null && !files.has(it[key])) throw new Error(`Item #${i + 1}: ${it[key]} is missing`);
+    }
+  });
+  const c = a.board.canvas;
+  if (c && !(Number.isFinite(c.w) && Number.isFinite(c.h) && c.w > 0 && c.h > 0)) delete a.board.canvas;
+  // архивы v1 без поля schema писались при схеме 2
+  const { W, H } = boardCells(a.board.canvas ?? DEFAULT_CANVAS[a.board.type as BoardType]);
+  const { items, dropped } = validateItems(migrateItems(a.items, Number(a.schema) || 2), W, H);
+  return { archive: { ...a, items: items as ArchiveItem[] }, files, dropped };
+}
+
+// обсуждения одного тайла: открытые треды, есть ли непрочитанное и пины (координаты — доли тайла)
+type TileComments = { count: number; unread: boolean; pins: { id: string; n: number; px: number; py: number; active: boolean }[] };
+
+function Tile({
+  item, onDelete, onStatus, scale, spaceHeld, ctrlHeld, isMoodboard, locked, dimmed, selected,
+  resizable, onResizeStart, onResize, onResizeEnd,
+  comments, canComment, pinMode, onOpenComments, onPin, onCaptureThumb, onToggleLock,
+  onEdgeDragStart, onEdgeDrag, onEdgeDragEnd
+}: {
+  item: SBItem;
+  onDelete: (id:string)=>void;
+  onStatus: (id:string, status:ApprovalStatus, note?:string)=>void;
+  scale: number;
+  spaceHeld: boolean;
+  ctrlHeld: boolean;
+  isMoodboard: boolean;
+  locked: boolean; // показ по ссылке: без approve/удаления и хэндлов
+  dimmed: boolean; // не подходит под фильтр статуса
+  selected: boolean;
+  resizable: boolean; // ручки ресайза styleboard
+  onResizeStart: ()=>void;
+  onResize: (id:string, handle:ResizeHandle, dx:number, dy:number, invert:boolean)=>void; // dx/dy — клетки от начала жеста
+  onResizeEnd: ()=>void;
+  comments: TileComments;
+  canComment: boolean;
+  pinMode: boolean; // клик по тайлу ставит пин
+  onOpenComments: (id:string, thread?:string)=>void;
+  onPin: (id:string, px:number, py:number)=>void;
+  onCaptureThumb: (id:string)=>void; // снимок сайта из буфера (для экспорта)
+  onToggleLock: (id:string)=>void; // закрепить/открепить тайл (item.locked)
+  onEdgeDragStart: ()=>void;
+  onEdgeDrag: (id:string, edge:Dir, delta:number)=>number; // вернёт применённый delta
+  onEdgeDragEnd: ()=>void;
+}) {
+  const [loaded, setLoaded] = useState(false);
+  const [iframeActive, setIframeActive] = useState(false);
+  const [resolvedSrc, setResolvedSrc] = useState<string | null>(null);
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const iframeRef = useRef<HTMLIFrameElement | null>(null);
+
+  const scrollKey = `sb:iframeScroll:${item.url}`;
+
+  const [statusOpen, setStatusOpen] = useState(false);
+  const [note, setNote] = useState('');
+  const meta = STATUS_META[item.status] ?? STATUS_META.proposed;
+  // «Approved · Анна · 12.03.2025, 14:05»
+  const statusLine = item.status !== 'proposed' && (item.statusBy || item.statusAt)
+    ? [meta.label, item.statusBy, item.statusAt ? new Date(item.statusAt).toLocaleString() : null].filter(Boolean).join(' · ')
+    : '';
+
+  useEffect(() => {
+    let canceled = false;
+    let created: string | null = null;
+    (async () => {
       if (item.kind === 'image' && isIdbUrl(item.url)) {
         const blob = await idbGetBlob(idFromIdbUrl(item.url));
         if (!blob) return;
@@ -2711,7 +5679,7 @@ function Tile({
   // деактивация при клике вне и по Esc
   useEffect(() => {
     const offClick = (e: MouseEvent) => {
-      if (!rootRef.current?.contains(e.target as Node)) setIframeActive(false);
+      if (!rootRef.current?.contains(e.target as Node)) { setIframeActive(false); setStatusOpen(false); }
     };
     const offEsc = (e: KeyboardEvent) => {
       if (e.key === "Escape") setIframeActive(false);
@@ -2728,6 +5696,7 @@ function Tile({
   async function handleDelete() {
     if (window.confirm("Удалить материал?")) {
       await maybeDeleteIdb(item.url);
+      if (item.thumb) await maybeDeleteIdb(item.thumb);
       onDelete(item.id);
     }
   }
@@ -2781,22 +5750,60 @@ function Tile({
     window.addEventListener('mouseup', onUp);
   }
 
+  function startResize(handle: ResizeHandle, e: React.MouseEvent) {
+    e.preventDefault();
+    e.stopPropagation();
+    onResizeStart();
+    const startX = e.clientX;
+    const startY = e.clientY;
+    let last = '0,0,false';
+    const onMove = (ev: MouseEvent) => {
+      const dx = Math.round((ev.clientX - startX) / (GRID * scale));
+      const dy = Math.round((ev.clientY - startY) / (GRID * scale));
+      // пересчёт занятости дорогой — только когда сменилась клетка или Shift
+      const key = `${dx},${dy},${ev.shiftKey}`;
+      if (key === last) return;
+      last = key;
+      onResize(item.id, handle, dx, dy, ev.shiftKey);
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+      onResizeEnd();
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  }
+
+  // ручки styleboard внутри тайла (он обрезает всё, что снаружи); размер постоянный на экране
+  const hs = 10 / scale;
+  const RESIZE_HANDLES: { h: ResizeHandle; cls: string; style: React.CSSProperties }[] = [
+    { h: 'n', cls: 'inset-x-0 top-0 cursor-ns-resize', style: { height: hs / 2 } },
+    { h: 's', cls: 'inset-x-0 bottom-0 cursor-ns-resize', style: { height: hs / 2 } },
+    { h: 'w', cls: 'inset-y-0 left-0 cursor-ew-resize', style: { width: hs / 2 } },
+    { h: 'e', cls: 'inset-y-0 right-0 cursor-ew-resize', style: { width: hs / 2 } },
+    { h: 'nw', cls: 'top-0 left-0 cursor-nwse-resize bg-white/90 border border-neutral-900', style: { width: hs, height: hs } },
+    { h: 'ne', cls: 'top-0 right-0 cursor-nesw-resize bg-white/90 border border-neutral-900', style: { width: hs, height: hs } },
+    { h: 'sw', cls: 'bottom-0 left-0 cursor-nesw-resize bg-white/90 border border-neutral-900', style: { width: hs, height: hs } },
+    { h: 'se', cls: 'bottom-0 right-0 cursor-nwse-resize bg-white/90 border border-neutral-900', style: { width: hs, height: hs } },
+  ];
+
   return (
     <div 
       ref={rootRef}
+      data-item-id={item.id}
       onDoubleClick={() => { if (item.kind === "site") setIframeActive(v => !v); }}
-      style={{ left, top, width, height }}
+      style={{ left, top, width, height, opacity: dimmed ? 0.25 : undefined }}
       className={
-        "group absolute overflow-hidden " +
+        "group absolute overflow-hidden transition-opacity " +
         (isMoodboard
           ? "bg-black"
-          : "rounded-xl border border-neutral-800 bg-neutral-900 shadow-lg " +
-            (item.approved ? "ring-4 ring-emerald-500" : ""))
+          : "rounded-xl border border-neutral-800 bg-neutral-900 shadow-lg " + meta.ring)
       }
     >
       {/* HUD: показывать только на hover, фиксированный размер (инверсный scale) */}
       <div
-        className="pointer-events-none absolute top-2 left-2 right-2 z-10 flex items-center justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity"
+        className={`pointer-events-none absolute top-2 left-2 right-2 z-10 flex flex-col items-end gap-1 transition-opacity ${statusOpen ? "opacity-100" : "opacity-0 group-hover:opacity-100"}`}
         style={{ transform: `scale(${1/scale})`, transformOrigin: 'top right' }}
       >
         <div className="pointer-events-auto flex items-center gap-1 px-1.5 py-1 rounded-md bg-neutral-950/70 backdrop-blur border border-neutral-800">
@@ -2811,18 +5818,56 @@ function Tile({
               <path d="M15 13a4 4 0 0 1 0 6l-1 1a4 4 0 0 1-6-6l1-1" />
             </svg>
           </button>
-          {/* approve toggle (check) — теперь и для moodboard */}
-          <button
-            onClick={() => onApprove(item.id)}
-            title={item.approved ? "Unapprove" : "Approve"}
-            className={`p-1 rounded hover:bg-neutral-800 ${item.approved ? "text-emerald-400" : ""}`}
+          {/* comments: число открытых тредов, точка — есть непрочитанное */}
+          {(canComment || comments.count > 0) && (
+            <button
+              onClick={() => onOpenComments(item.id)}
+              title="Комментарии"
+              className="relative p-1 rounded hover:bg-neutral-800 flex items-center gap-0.5"
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
+              </svg>
+              {comments.count > 0 && <span className="text-[11px] tabular-nums">{comments.count}</span>}
+              {comments.unread && <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full bg-sky-400" />}
+            </button>
+          )}
+          {/* снимок сайта: iframe в экспорт не попадает, рисуем сохранённый скриншот */}
+          {item.kind === 'site' && !locked && (
+            <button
+              onClick={() => onCaptureThumb(item.id)}
+              title={item.thumb ? 'Заменить снимок сайта скриншотом из буфера' : 'Снимок сайта из буфера (для экспорта)'}
+              className={`p-1 rounded hover:bg-neutral-800 ${item.thumb ? 'text-emerald-300' : ''}`}
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M23 19a2 2 0 0 1-2 2H3a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h4l2-3h6l2 3h4a2 2 0 0 1 2 2z" /><circle cx="12" cy="13" r="4" />
+              </svg>
+            </button>
+          )}
+          {/* закрепить: раскладки обходят тайл, сам он не двигается */}
+          {!locked && (
+            <button
+              onClick={() => onToggleLock(item.id)}
+              title={item.locked ? 'Открепить' : 'Закрепить на месте: Shuffle, Collect и ресайз холста его не двигают'}
+              className={`p-1 rounded hover:bg-neutral-800 ${item.locked ? 'text-amber-300' : ''}`}
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <rect x="5" y="11" width="14" height="10" rx="2" /><path d={item.locked ? "M8 11V7a4 4 0 0 1 8 0v4" : "M8 11V7a4 4 0 0 1 7.5-2"} />
+              </svg>
+            </button>
+          )}
+          {/* статус согласования (check) — теперь и для moodboard; клик открывает меню статусов */}
+          {!locked && <button
+            onClick={() => { setNote(item.statusNote ?? ''); setStatusOpen(v => !v); }}
+            title={`Статус: ${meta.label}`}
+            className={`p-1 rounded hover:bg-neutral-800 ${item.status !== 'proposed' ? meta.text : ""}`}
           >
             <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
               <path d="M20 6L9 17l-5-5" />
             </svg>
-          </button>
+          </button>}
           {/* delete (trash) */}
-          <button
+          {!locked && <button
             onClick={handleDelete}
             title="Удалить"
             className="p-1 rounded hover:bg-neutral-800 text-red-400"
@@ -2830,18 +5875,43 @@ function Tile({
             <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
               <path d="M3 6h18" /><path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" /><path d="M10 11v6" /><path d="M14 11v6" /><path d="M9 6V4a2 2 0 0 1 2-2h2a2 2 0 0 1 2 2v2" />
             </svg>
-          </button>
+          </button>}
         </div>
+
+        {statusOpen && !locked && (
+          <div className="pointer-events-auto w-52 p-2 space-y-1 rounded-md bg-neutral-950/90 backdrop-blur border border-neutral-800 text-xs">
+            {APPROVAL_STATUSES.map(st => (
+              <button
+                key={st}
+                onClick={() => { onStatus(item.id, st, note); setStatusOpen(false); }}
+                className={`w-full text-left px-2 py-1 rounded hover:bg-neutral-800 ${STATUS_META[st].text} ${item.status === st ? "bg-neutral-800" : ""}`}
+              >
+                {STATUS_META[st].label}
+              </button>
+            ))}
+            <input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') { onStatus(item.id, item.status, note); setStatusOpen(false); } }}
+              placeholder="Note (optional)"
+              className="w-full px-2 h-7 rounded bg-neutral-900 border border-neutral-800 outline-none focus:border-neutral-600 select-text"
+            />
+            {statusLine && <div className="px-1 text-neutral-500">{statusLine}</div>}
+          </div>
+        )}
       </div>
 
-      {!isMoodboard && item.approved && (
-        <div className="absolute -left-8 top-4 -rotate-45 bg-emerald-500 text-emerald-950 text-[10px] font-bold px-8 py-1 shadow z-20">APPROVED</div>
+      {!isMoodboard && item.status !== 'proposed' && (
+        <div
+          title={[statusLine, item.statusNote].filter(Boolean).join('\n')}
+          className={`absolute -left-8 top-4 -rotate-45 ${meta.ribbon} text-[10px] font-bold px-8 py-1 shadow z-20 uppercase`}
+        >{meta.label}</div>
       )}
 
-      {/* Внутренняя зелёная обводка для moodboard */}
-      {isMoodboard && item.approved && (
+      {/* Внутренняя обводка цвета статуса для moodboard */}
+      {isMoodboard && item.status !== 'proposed' && (
         <div className="absolute inset-0 pointer-events-none z-[5]"
-             style={{ boxShadow: 'inset 0 0 0 4px rgba(16,185,129,1)' }} />
+             style={{ boxShadow: `inset 0 0 0 4px ${meta.inset}` }} />
       )}
 
       <div className="w-full h-full relative">
@@ -2898,8 +5968,53 @@ function Tile({
         </div>
       </div>
 
+      {/* Рамка выделения: толщина постоянная на экране */}
+      {selected && (
+        <div className="absolute inset-0 pointer-events-none z-[6]" style={{ boxShadow: `inset 0 0 0 ${2 / scale}px #38bdf8` }} />
+      )}
+
+      {/* Пины комментариев */}
+      {comments.pins.map(p => (
+        // «хвостик» пина — нижний левый угол — указывает ровно в точку
+        <div key={p.id} className="absolute z-20 w-0 h-0" style={{ left: `${p.px * 100}%`, top: `${p.py * 100}%` }}>
+          <button
+            onClick={(e) => { e.stopPropagation(); onOpenComments(item.id, p.id); }}
+            title={`Комментарий #${p.n}`}
+            className={`absolute bottom-0 left-0 w-6 h-6 rounded-full rounded-bl-none grid place-items-center text-[11px] font-semibold shadow ring-2 ${p.active ? "bg-sky-400 text-neutral-950 ring-white" : "bg-neutral-950 text-sky-300 ring-sky-400"}`}
+            style={{ transform: `scale(${1/scale})`, transformOrigin: '0 100%' }}
+          >
+            {p.n}
+          </button>
+        </div>
+      ))}
+
+      {/* Режим пина: клик в любую точку тайла открывает новый тред на ней */}
+      {pinMode && (
+        <div
+          className="absolute inset-0 z-30 cursor-crosshair hover:bg-sky-400/10"
+          onClick={(e) => {
+            const r = e.currentTarget.getBoundingClientRect();
+            const clamp = (v: number) => Math.min(1, Math.max(0, v));
+            onPin(item.id, clamp((e.clientX - r.left) / r.width), clamp((e.clientY - r.top) / r.height));
+          }}
+        />
+      )}
+
       {/* Хэндлы для перетаскивания рёбер (только для Moodboard) */}
-      {isMoodboard && (
+      {/* значок закреплённого — виден и без наведения */}
+      {item.locked && (
+        <div
+          className="pointer-events-none absolute top-2 left-2 z-10 p-1 rounded-md bg-neutral-950/70 text-amber-300"
+          style={{ transform: `scale(${1/scale})`, transformOrigin: 'top left' }}
+          title="Закреплён"
+        >
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <rect x="5" y="11" width="14" height="10" rx="2" /><path d="M8 11V7a4 4 0 0 1 8 0v4" />
+          </svg>
+        </div>
+      )}
+
+      {isMoodboard && !locked && !item.locked && (
         <>
           {/* вертикальные */}
           <div
@@ -2921,6 +6036,16 @@ function Tile({
           />
         </>
       )}
+
+      {/* Ручки ресайза (только для Styleboard): стороны и углы, видны на hover */}
+      {!isMoodboard && resizable && RESIZE_HANDLES.map(({ h, cls, style }) => (
+        <div
+          key={h}
+          className={`absolute z-20 opacity-0 group-hover:opacity-100 ${cls}`}
+          style={style}
+          onMouseDown={(e) => startResize(h, e)}
+        />
+      ))}
     </div>
   );
 }
@@ -2960,6 +6085,47 @@ function showSystemNotification(message: string) {
 
 export default function App() {
   const [allowed, setAllowed] = useState<boolean>(() => detectDesktop());
+  const [project, setProject] = useState<string>(() => {
+    const id = localStorage.getItem(PROJECT_LS_KEY) || DEFAULT_PROJECT;
+    setRemoteProject(id);
+    return id;
+  });
+
+  function switchProject(id: string) {
+    setRemoteProject(id);
+    try { localStorage.setItem(PROJECT_LS_KEY, id); } catch {}
+    setProject(id);
+  }
+
+  const [session, setSession] = useState<Session | null>(() => {
+    const s = loadSession();
+    setRemoteToken(s?.token ?? null);
+    return s;
+  });
+
+  function signIn(s: Session) {
+    setRemoteToken(s.token);
+    try { localStorage.setItem(SESSION_LS_KEY, JSON.stringify(s)); } catch {}
+    setSession(s);
+  }
+
+  function signOut() {
+    setRemoteToken(null);
+    try { localStorage.removeItem(SESSION_LS_KEY); } catch {}
+    setSession(null);
+  }
+
+  // ?share=<token> — показ одной доски по ссылке; undefined — ещё выясняем, null — ссылка не действует
+  const [shareToken] = useState(() => new URLSearchParams(location.search).get('share'));
+  const [shared, setShared] = useState<SharedBoard | null | undefined>(undefined);
+  useEffect(() => {
+    if (!shareToken) return;
+    setRemoteShare(shareToken);
+    remoteResolveShare().then(s => {
+      if (s) setRemoteProject(s.project);
+      setShared(s);
+    });
+  }, [shareToken]);
 
   useEffect(() => {
     const onResize = () => setAllowed(detectDesktop());
@@ -2986,7 +6152,27 @@ export default function App() {
       </div>
     );
   }
-  return <AppInner />;
+  if (shareToken) {
+    if (shared) return <AppInner project={shared.project} session={null} shared={shared} onSwitchProject={() => {}} onSignIn={() => {}} onSignOut={() => {}} />;
+    return (
+      <div className="h-screen w-screen bg-neutral-950 text-neutral-200 grid place-items-center">
+        <div className="px-4 py-3 rounded-lg border border-neutral-800 bg-neutral-900 shadow text-sm text-neutral-400">
+          {shared === undefined ? 'Loading…' : 'Ссылка отозвана или истекла.'}
+        </div>
+      </div>
+    );
+  }
+  // key — при смене проекта или пользователя AppInner монтируется заново со своими досками, камерой и историей
+  return (
+    <AppInner
+      key={`${project}|${session?.user.id ?? ''}`}
+      project={project}
+      session={session}
+      onSwitchProject={switchProject}
+      onSignIn={signIn}
+      onSignOut={signOut}
+    />
+  );
 }
 
 
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { buildPdf } from './pdf';
+
+// PDF — ASCII-каркас с двоичными вставками: latin1 сохраняет смещения байт один к одному
+async function text(blob: Blob) {
+  return Buffer.from(await blob.arrayBuffer()).toString('latin1');
+}
+
+const jpeg = (n: number) => new Uint8Array(n).fill(0xab);
+
+describe('buildPdf', () => {
+  it('writes an xref table whose offsets point at every object', async () => {
+    const pdf = await text(buildPdf([{ jpeg: jpeg(100), pxW: 10, pxH: 5 }, { jpeg: jpeg(7), pxW: 3, pxH: 3 }], { w: 842, h: 595 }, 'Board'));
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.endsWith('%%EOF\n')).toBe(true);
+
+    const startxref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(pdf)![1]);
+    expect(pdf.slice(startxref, startxref + 5)).toBe('xref\n');
+    const [, count] = /^xref\n0 (\d+)\n/.exec(pdf.slice(startxref))!;
+    // каталог, страницы, сведения и по три объекта на страницу
+    expect(Number(count)).toBe(4 + 2 * 3);
+    const offsets = [...pdf.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map(m => Number(m[1]));
+    expect(offsets).toHaveLength(Number(count) - 1);
+    offsets.forEach((o, i) => expect(pdf.slice(o, o + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`));
+    expect(pdf).toContain(`/Size ${count} /Root 1 0 R /Info 3 0 R`);
+  });
+
+  it('embeds each page as a full-sheet JPEG with the declared length', async () => {
+    const pdf = await text(buildPdf([{ jpeg: jpeg(100), pxW: 10, pxH: 5 }], { w: 842, h: 595 }));
+    expect(pdf).toContain('/Type /Pages /Count 1 /Kids [4 0 R]');
+    expect(pdf).toContain('/MediaBox [0 0 842 595]');
+    expect(pdf).toContain('q 842 0 0 595 0 0 cm /Im0 Do Q');
+    const m = /\/Width 10 \/Height 5 [^>]*\/DCTDecode \/Length (\d+) >>\nstream\n/.exec(pdf)!;
+    expect(Number(m[1])).toBe(100);
+    const start = m.index + m[0].length;
+    expect(pdf.slice(start, start + 100)).toBe('\xab'.repeat(100));
+    expect(pdf.slice(start + 100, start + 111)).toBe('\nendstream\n');
+  });
+
+  it('adds link annotations flipped into PDF coordinates, with encoded URLs', async () => {
+    const pdf = await text(buildPdf(
+      [{ jpeg: jpeg(1), pxW: 1, pxH: 1, links: [{ x: 10, y: 20, w: 100, h: 30, url: 'https://example.com/a b?q=(1)' }] }],
+      { w: 842, h: 595 },
+    ));
+    // y от верхнего края листа → от нижнего: 595 - 20 - 30 = 545
+    expect(pdf).toContain('/Subtype /Link /Border [0 0 0] /Rect [10 545 110 575]');
+    expect(pdf).toContain('/URI (https://example.com/a%20b?q=\\(1\\))');
+    // уже закодированный адрес второй раз не кодируется
+    const again = await text(buildPdf([{ jpeg: jpeg(1), pxW: 1, pxH: 1, links: [{ x: 0, y: 0, w: 1, h: 1, url: 'https://example.com/a%20b' }] }], { w: 10, h: 10 }));
+    expect(again).toContain('/URI (https://example.com/a%20b)');
+  });
+
+  it('stores a non-ASCII title as UTF-16BE', async () => {
+    const pdf = await text(buildPdf([{ jpeg: jpeg(1), pxW: 1, pxH: 1 }], { w: 10, h: 10 }, 'Доска'));
+    expect(pdf).toContain('/Title <FEFF0414043e0441043a0430>');
+  });
+});
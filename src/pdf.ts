@@ -0,0 +1,71 @@
+// Минимальный PDF без зависимостей: страница — JPEG на весь лист, поверх — кликабельные ссылки.
+// Текст рисуем в canvas заранее, поэтому кириллица и любые шрифты работают без встраивания шрифтов.
+
+export type PdfLink = { x: number; y: number; w: number; h: number; url: string }; // пункты, от левого верхнего угла
+export type PdfPage = { jpeg: Uint8Array; pxW: number; pxH: number; links?: PdfLink[] };
+
+const enc = new TextEncoder();
+
+// строка PDF: ASCII — литералом, остальное — UTF-16BE с BOM
+function pdfString(s: string) {
+  if (/^[\x20-\x7e]*$/.test(s)) return `(${s.replace(/[\\()]/g, m => '\\' + m)})`;
+  let hex = 'FEFF';
+  for (let i = 0; i < s.length; i++) hex += s.charCodeAt(i).toString(16).padStart(4, '0');
+  return `<${hex}>`;
+}
+
+// собирает PDF из готовых страниц; w×h — размер листа в пунктах (1/72 дюйма)
+export function buildPdf(pages: PdfPage[], size: { w: number; h: number }, title?: string): Blob {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let pos = 0;
+  const push = (b: Uint8Array | string) => {
+    const u = typeof b === 'string' ? enc.encode(b) : b;
+    chunks.push(u);
+    pos += u.length;
+  };
+  const obj = (n: number, body: string) => { offsets[n] = pos; push(`${n} 0 obj\n${body}\nendobj\n`); };
+  const stream = (n: number, dict: string, data: Uint8Array) => {
+    offsets[n] = pos;
+    push(`${n} 0 obj\n<< ${dict} /Length ${data.length} >>\nstream\n`);
+    push(data);
+    push('\nendstream\nendobj\n');
+  };
+
+  // 1 — каталог, 2 — дерево страниц, 3 — сведения; на страницу по три объекта: лист, содержимое, картинка
+  const pageObj = (i: number) => 4 + i * 3;
+  const { w, h } = size;
+  push('%PDF-1.4\n');
+  push(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])); // маркер «двоичный файл»
+  obj(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  obj(2, `<< /Type /Pages /Count ${pages.length} /Kids [${pages.map((_, i) => `${pageObj(i)} 0 R`).join(' ')}] >>`);
+  obj(3, `<< /Producer (Styleboard) ${title ? `/Title ${pdfString(title)}` : ''} >>`);
+
+  pages.forEach((p, i) => {
+    const n = pageObj(i);
+    const annots = (p.links ?? []).map(l =>
+      `<< /Type /Annot /Subtype /Link /Border [0 0 0] /Rect [${l.x} ${h - l.y - l.h} ${l.x + l.w} ${h - l.y}] ` +
+      `/A << /S /URI /URI ${pdfString(encodeURI(decodeURISafe(l.url)))} >> >>`
+    );
+    obj(n,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Contents ${n + 1} 0 R ` +
+      `/Resources << /XObject << /Im0 ${n + 2} 0 R >> >>${annots.length ? ` /Annots [${annots.join(' ')}]` : ''} >>`
+    );
+    const content = enc.encode(`q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`);
+    stream(n + 1, '', content);
+    stream(n + 2, `/Type /XObject /Subtype /Image /Width ${p.pxW} /Height ${p.pxH} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`, p.jpeg);
+  });
+
+  const count = 4 + pages.length * 3;
+  const xref = pos;
+  let table = `xref\n0 ${count}\n0000000000 65535 f \n`;
+  for (let n = 1; n < count; n++) table += `${String(offsets[n]).padStart(10, '0')} 00000 n \n`;
+  push(table);
+  push(`trailer\n<< /Size ${count} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+}
+
+// уже закодированный URL не кодируем второй раз
+function decodeURISafe(u: string) {
+  try { return decodeURI(u); } catch { return u; }
+}
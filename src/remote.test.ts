@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { onRemoteRejected, onSyncStatus, remoteSave, retrySync, setRemoteToken } from './remote';
+import type { RemoteRejection, SyncStatus } from './remote';
+
+type Reply = { status: number; body: unknown } | 'offline';
+
+// сервер на fetch: list — пустая доска, patch — ответ по доске из тела запроса
+let patchReply: (board: string) => Reply;
+let patched: string[];
+
+function respond(r: Reply) {
+  if (r === 'offline') return Promise.reject(new TypeError('Failed to fetch'));
+  const text = JSON.stringify(r.body);
+  return Promise.resolve({ ok: r.status < 400, status: r.status, json: async () => JSON.parse(text), text: async () => text });
+}
+
+beforeEach(() => {
+  patched = [];
+  vi.stubGlobal('fetch', vi.fn((url: string, init?: RequestInit) => {
+    const op = new URL(url, 'http://localhost').searchParams.get('op');
+    if (op === 'list') return respond(patchReply('') === 'offline' ? 'offline' : { status: 200, body: { items: [], rev: 1 } });
+    const { board } = JSON.parse(String(init?.body));
+    const r = patchReply(board);
+    if (r !== 'offline' && r.status < 400) patched.push(board);
+    return respond(r);
+  }));
+  setRemoteToken('token');
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const tile = (id: string) => ({ id, url: `https://example.com/${id}.jpg`, kind: 'image', gx: 0, gy: 0, gw: 4, gh: 3, status: 'proposed' });
+const invalid = { error: 'invalid items', items: [{ index: 0, id: 'bad', field: 'gx', message: 'item is outside the canvas (240×135 cells)' }] };
+
+function settle(status: SyncStatus = 'saved') {
+  return vi.waitFor(() => {
+    let now: SyncStatus | null = null;
+    onSyncStatus(s => { now = s; })();
+    expect(now).toBe(status);
+  }, { timeout: 3000 });
+}
+
+describe('outbox', () => {
+  it('drops a rejected write from the queue so other boards still get through', async () => {
+    const rejected: RemoteRejection[] = [];
+    const off = onRemoteRejected(r => rejected.push(r));
+
+    // офлайн: обе доски ждут в очереди, A — первой
+    patchReply = () => 'offline';
+    remoteSave('q-a', [tile('bad')]);
+    await settle('offline');
+    remoteSave('q-b', [tile('good')]);
+    await new Promise(r => setTimeout(r, 400));
+
+    // сеть вернулась: A сервер отвергает насовсем, B должна записаться
+    patchReply = board => board === 'q-a' ? { status: 422, body: invalid } : { status: 200, body: { ok: true, rev: 2 } };
+    await retrySync();
+    await settle('saved');
+    expect(patched).toEqual(['q-b']);
+    expect(rejected).toEqual([{ board: 'q-a', status: 422, error: 'invalid items', items: invalid.items }]);
+
+    // Retry больше ничего не шлёт: отвергнутой записи в очереди нет
+    const calls = vi.mocked(fetch).mock.calls.length;
+    await retrySync();
+    expect(vi.mocked(fetch).mock.calls.length).toBe(calls);
+    off();
+  });
+
+  it('does not queue a write the server rejected right away', async () => {
+    const rejected: RemoteRejection[] = [];
+    const off = onRemoteRejected(r => rejected.push(r));
+    patchReply = board => board === 'd-a' ? { status: 403, body: 'editor access required' } : { status: 200, body: { ok: true, rev: 2 } };
+    remoteSave('d-a', [tile('x')]);
+    await vi.waitFor(() => expect(rejected).toHaveLength(1));
+    expect(rejected[0]).toMatchObject({ board: 'd-a', status: 403, error: 'editor access required', items: [] });
+    remoteSave('d-b', [tile('y')]);
+    await vi.waitFor(() => expect(patched).toEqual(['d-b']));
+    await settle('saved');
+    off();
+  });
+
+  it('holds the queue on a server error until retry', async () => {
+    patchReply = () => ({ status: 503, body: { error: 'db is down' } });
+    remoteSave('h-a', [tile('p')]);
+    await settle('error');
+    remoteSave('h-b', [tile('q')]);
+    await new Promise(r => setTimeout(r, 400));
+    expect(patched).toEqual([]);
+
+    patchReply = () => ({ status: 200, body: { ok: true, rev: 2 } });
+    await retrySync();
+    await settle('saved');
+    expect(patched).toEqual(['h-a', 'h-b']);
+  });
+});
@@ -1,13 +1,67 @@
-export type BoardKey = 'moodboard' | 'styleboard';
+// id доски — произвольная строка ('moodboard'/'styleboard' остались как доски по умолчанию)
+export type BoardKey = string;
+// mood — BSP-раскладка на артборде, style — плотная упаковка на большом холсте
+export type BoardType = 'mood' | 'style';
+export type BoardMeta = { id: string; name: string; type: BoardType; createdAt?: number };
+export type BoardAction = 'create' | 'rename' | 'duplicate' | 'delete';
+export type ProjectMeta = { id: string; name: string; archived?: boolean; createdAt?: number; role?: Role };
+export type ProjectAction = 'create' | 'archive' | 'unarchive';
+
+// роли по возрастанию прав: viewer читает, commenter ещё обсуждает, editor пишет доски,
+// owner управляет участниками и проектом
+export type Role = 'viewer' | 'commenter' | 'editor' | 'owner';
+export const ROLES: Role[] = ['viewer', 'commenter', 'editor', 'owner'];
+export const roleAtLeast = (role: Role | null | undefined, min: Role) => !!role && ROLES.indexOf(role) >= ROLES.indexOf(min);
+
+export type AuthUser = { id: string; email: string; name: string };
+export type Session = { token: string; user: AuthUser };
+export type Member = { userId: string; email: string; name: string; role: Role };
+
+// ссылка на одну доску без аккаунта: view — только смотреть, comment — ещё и обсуждать
+export type ShareScope = 'view' | 'comment';
+export type ShareLink = { id: string; board: string; scope: ShareScope; expiresAt: number | null; createdAt: number; author: string | null };
+export type SharedBoard = { project: string; scope: ShareScope; expiresAt: number | null; board: BoardMeta };
+
+// проект, куда до появления проектов попали все доски; его владелец — первый зарегистрированный
+export const DEFAULT_PROJECT = 'default';
+
 const API = import.meta.env.VITE_API_BASE || '/api';
 
-export async function uploadBlobToS3(board: BoardKey, id: string, blob: Blob, pass: string) {
+// все запросы к доскам идут в рамках текущего проекта (App переключает его через setRemoteProject)
+let project = DEFAULT_PROJECT;
+export function setRemoteProject(id: string) { project = id; }
+
+// токен сессии (App ставит его после входа); без него сервер пускает только op=auth
+let token: string | null = null;
+export function setRemoteToken(t: string | null) {
+  token = t;
+  // вошли — досылаем то, что не ушло в прошлый раз
+  if (t) replayOutbox();
+}
+
+// токен ссылки (?share= в адресе) — сервер пускает с ним читать одну доску
+let share: string | null = null;
+export function setRemoteShare(t: string | null) { share = t; }
+
+function apiUrl(op: string, params: Record<string, string> = {}) {
+  const qs = new URLSearchParams({ op, project, ...params });
+  return `${API}?${qs}`;
+}
+
+function authHeaders(): Record<string, string> {
+  const h: Record<string, string> = {};
+  if (token) h.Authorization = `Bearer ${token}`;
+  if (share) h['X-Share'] = share;
+  return h;
+}
+
+export async function uploadBlobToS3(board: BoardKey, id: string, blob: Blob) {
   const mime = blob.type || 'application/octet-stream';
 
   // 1) просим у бэка presigned PUT
-  const sig = await fetch(`${API}?op=sign-upload`, {
+  const sig = await fetch(apiUrl('sign-upload'), {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json', 'x-pass': pass },
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
     body: JSON.stringify({ board, id, mime })
   });
   if (!sig.ok) throw new Error(await sig.text());
@@ -20,36 +74,551 @@ export async function uploadBlobToS3(board: BoardKey, id: string, blob: Blob, pa
   return { publicUrl };
 }
 
-export async function remoteLoad(board: BoardKey) {
+async function getJson(url: string): Promise<any | null> {
   try {
-    const r = await fetch(`${API}?op=list&board=${board}`);
+    const r = await fetch(url, { headers: authHeaders() });
     if (!r.ok) return null;
-    const j = await r.json();
-    return Array.isArray(j.items) ? j.items : null;
+    return await r.json();
   } catch { return null; }
 }
 
-let saveTimer: number | undefined;
+// версия схемы айтемов и миграции живут в приложении; здесь их применяем ко всему, что пришло
+// с сервера (загрузка, опрос, конфликт, снимки), — база диффов тоже уже в текущей форме
+let schema = { version: 1, migrate: (items: any[], _from: number) => items };
+export function setRemoteSchema(version: number, migrate: (items: any[], from: number) => any[]) {
+  schema = { version, migrate };
+}
+const migrated = (j: any): any[] => schema.migrate(j.items, Number(j.schema) || 1);
+
+async function fetchBoard(listUrl: string): Promise<{ items: any[]; rev: number; settings: BoardSettings } | null> {
+  const j = await getJson(listUrl);
+  if (!j || !Array.isArray(j.items)) return null;
+  return { items: migrated(j), rev: Number(j.rev) || 0, settings: j.settings ?? {} };
+}
 
-export async function remoteSave(board: BoardKey, items: any[], pass: string | null) {
-  // если пароля нет — просто не отправляем (чтобы не было 401)
-  if (!pass) {
-    console.warn('[remoteSave] skipped: no password set');
-    return;
+// items и настройки доски одним запросом: настройки (размер холста) нужны раньше раскладки
+export async function remoteLoad(board: BoardKey): Promise<{ items: any[]; settings: BoardSettings } | null> {
+  const key = ackKey(board);
+  // сначала досылаем очередь — иначе загрузим доску без своих офлайн-правок
+  if (replaying) await replaying;
+  const data = await fetchBoard(apiUrl('list', { board }));
+  if (!data) return null;
+  // свежая загрузка и есть «reload»: прежний конфликт по доске снимаем
+  conflicts.delete(key);
+  ackSnapshot(key, data.items, data.rev);
+  return { items: data.items, settings: data.settings };
+}
+
+// ——— настройки доски ———
+// режим раскладки Moodboard: auto — BSP, rows — строки, cols — колонки, combo — блоки из строк и колонок
+export type MoodLayoutSettings = { mode: 'auto' | 'rows' | 'cols' | 'combo'; keepAspect: boolean; columnBias: number };
+// холст, интенсивность и seed shuffle, раскладка; хранятся вне ревизии items и общие для всех участников
+export type BoardSettings = {
+  canvas?: { w: number; h: number };
+  intensity?: number;
+  seed?: number; // uint32, из него разложен Moodboard
+  layout?: MoodLayoutSettings;
+  alternatives?: { seed: number; intensity: number; layout?: MoodLayoutSettings }[]; // закреплённые варианты раскладки
+};
+
+// правки настроек (ползунок интенсивности, холст) — копим поля и пишем раз в секунду на доску
+const settingsTimers = new Map<string, number>();
+const settingsPending = new Map<string, { url: string; settings: BoardSettings }>();
+export function remoteSaveSettings(board: BoardKey, patch: BoardSettings) {
+  if (!token) return;
+  const key = ackKey(board);
+  const prevPending = settingsPending.get(key);
+  settingsPending.set(key, { url: prevPending?.url ?? apiUrl('settings'), settings: { ...prevPending?.settings, ...patch } });
+  const prev = settingsTimers.get(key);
+  if (prev) window.clearTimeout(prev);
+  settingsTimers.set(key, window.setTimeout(() => { void sendSettings(board, key); }, 1000));
+}
+
+// Сервер проверяет items по холсту из настроек: увеличенный холст должен дойти раньше items,
+// которые на нём разложены, — запись items досылает накопленные настройки первой
+async function sendSettings(board: BoardKey, key: string) {
+  const timer = settingsTimers.get(key);
+  if (timer) window.clearTimeout(timer);
+  settingsTimers.delete(key);
+  const p = settingsPending.get(key);
+  if (!p) return;
+  settingsPending.delete(key);
+  await postJson(p.url, { board, settings: p.settings }).catch(e => console.warn('[settings] save failed', e));
+}
+
+export async function remoteListBoards(): Promise<BoardMeta[] | null> {
+  const j = await getJson(apiUrl('boards'));
+  return j && Array.isArray(j.boards) ? j.boards : null;
+}
+
+// create / rename / duplicate / delete — сервер отвечает актуальной записью доски
+export async function remoteBoardAction(
+  action: BoardAction,
+  payload: { id: string; name?: string; type?: BoardType; from?: string }
+): Promise<BoardMeta | null> {
+  const j = await postJson(apiUrl('boards'), { action, ...payload });
+  return j.board ?? null;
+}
+
+export async function remoteListProjects(): Promise<ProjectMeta[] | null> {
+  const j = await getJson(`${API}?op=projects`);
+  return j && Array.isArray(j.projects) ? j.projects : null;
+}
+
+// create — любой вошедший (станет owner), archive / unarchive — owner проекта
+export async function remoteProjectAction(action: ProjectAction, payload: { id: string; name?: string }): Promise<ProjectMeta | null> {
+  const j = await postJson(`${API}?op=projects`, { action, ...payload });
+  return j.project ?? null;
+}
+
+// ——— ссылки на доску ———
+// что открывает ссылка (токен уже выставлен через setRemoteShare); null — отозвана, истекла или не было
+export async function remoteResolveShare(): Promise<SharedBoard | null> {
+  const j = await getJson(`${API}?op=share`);
+  return j?.share ?? null;
+}
+
+export async function remoteListShares(board: BoardKey): Promise<ShareLink[] | null> {
+  const j = await getJson(apiUrl('shares', { board }));
+  return j && Array.isArray(j.shares) ? j.shares : null;
+}
+
+export async function remoteCreateShare(board: BoardKey, scope: ShareScope, expiresAt: number | null): Promise<ShareLink> {
+  const j = await postJson(apiUrl('shares'), { action: 'create', board, scope, expiresAt });
+  return j.share;
+}
+
+export async function remoteRevokeShare(id: string) {
+  return postJson(apiUrl('shares'), { action: 'revoke', id });
+}
+
+// ——— аккаунты ———
+export async function remoteAuth(
+  action: 'signup' | 'signin',
+  payload: { email: string; password: string; name?: string }
+): Promise<Session> {
+  const j = await postJson(`${API}?op=auth`, { action, ...payload });
+  return { token: j.token, user: j.user };
+}
+
+// user = null — токен не принят (протух или подпись сменилась); null целиком — сервер недоступен
+export async function remoteMe(): Promise<{ user: AuthUser | null; role: Role | null } | null> {
+  return getJson(apiUrl('me'));
+}
+
+export async function remoteListMembers(): Promise<Member[] | null> {
+  const j = await getJson(apiUrl('members'));
+  return j && Array.isArray(j.members) ? j.members : null;
+}
+
+// set / remove — только owner текущего проекта
+export async function remoteMemberAction(action: 'set' | 'remove', payload: { email?: string; role?: Role; userId?: string }) {
+  return postJson(apiUrl('members'), { action, ...payload });
+}
+
+// вход в проект, заведённый до аккаунтов, по его секрету; проект — не обязательно текущий
+export async function remoteJoinProject(id: string, secret: string): Promise<Role | null> {
+  const qs = new URLSearchParams({ op: 'members', project: id });
+  const j = await postJson(`${API}?${qs}`, { action: 'join', secret });
+  return j.role ?? null;
+}
+
+// ——— инкрементальная запись ———
+// Последнее подтверждённое сервером состояние доски: с ним сравниваем, чтобы слать только дифф.
+// rev — ревизия доски на сервере; запись принимается, только если она не устарела (иначе 409)
+type Acked = { order: string[]; byId: Map<string, any>; rev: number };
+const acked = new Map<string, Acked>();
+const ackKey = (board: BoardKey) => `${project}/${board}`;
+
+function ackSnapshot(key: string, items: any[], rev: number) {
+  acked.set(key, { order: items.map(i => i.id), byId: new Map(items.map(i => [i.id, { ...i }])), rev });
+}
+
+// ——— конфликты ———
+// Доска с конфликтом не пишется, пока пользователь не выберет merge / reload / overwrite
+export type RemoteConflict = { board: BoardKey; serverRev: number };
+export type ConflictResolution = 'merge' | 'reload' | 'overwrite';
+const conflicts = new Set<string>();
+const conflictListeners = new Set<(c: RemoteConflict) => void>();
+
+export function onRemoteConflict(cb: (c: RemoteConflict) => void) {
+  conflictListeners.add(cb);
+  return () => { conflictListeners.delete(cb); };
+}
+
+function raiseConflict(key: string, board: BoardKey, serverRev: number) {
+  conflicts.add(key);
+  for (const cb of conflictListeners) cb({ board, serverRev });
+}
+
+// ——— отказы ———
+// Сервер отверг запись насовсем (4xx: айтемы не прошли проверку, прав нет, доски уже нет) — повтор не поможет.
+// Такую запись из очереди убираем, иначе за ней встали бы правки всех досок, а ошибки по айтемам отдаём приложению.
+// База доски не сдвигается: следующая правка пошлёт тот же дифф, пока его не исправят
+export type ItemError = { index: number; id: string | null; field: string; message: string };
+export type RemoteRejection = { board: BoardKey; status: number; error: string; items: ItemError[] };
+const rejectionListeners = new Set<(r: RemoteRejection) => void>();
+
+export function onRemoteRejected(cb: (r: RemoteRejection) => void) {
+  rejectionListeners.add(cb);
+  return () => { rejectionListeners.delete(cb); };
+}
+
+// 401 — вход истёк (после входа очередь досылается), 408/429 — сервер просит подождать: это не отказ
+function isRejection(e: unknown): e is HttpError {
+  return e instanceof HttpError && e.status >= 400 && e.status < 500 && ![401, 408, 429].includes(e.status);
+}
+
+function rejectWrite(e: HttpError, board: BoardKey) {
+  console.warn('[remoteSave] rejected', e.status, e.body);
+  const error = typeof e.body?.error === 'string' ? e.body.error : typeof e.body === 'string' && e.body ? e.body : `HTTP ${e.status}`;
+  const items = Array.isArray(e.body?.items) ? e.body.items : [];
+  for (const cb of rejectionListeners) cb({ board, status: e.status, error, items });
+}
+
+export class HttpError extends Error {
+  constructor(public status: number, public body: any) {
+    super(`${status} ${typeof body === 'string' ? body : JSON.stringify(body)}`);
   }
-  if (saveTimer) window.clearTimeout(saveTimer);
-  saveTimer = window.setTimeout(async () => {
-    const res = await fetch(`${API}?op=save`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', 'x-pass': pass },
-      // продублируем пароль в body (сервер его тоже понимает)
-      body: JSON.stringify({ board, items, pass })
-    });
-    if (!res.ok) {
-      const t = await res.text().catch(()=>'');
-      console.warn('[remoteSave] failed', res.status, t);
+}
+
+export type PatchOp =
+  | { type: 'upsert'; item: any; pos: number }
+  | { type: 'move'; id: string; gx: number; gy: number; gw: number; gh: number }
+  | { type: 'delete'; id: string }
+  | { type: 'reorder'; ids: string[] };
+
+const RECT_KEYS = ['gx', 'gy', 'gw', 'gh'] as const;
+// поля, которые хранит БД (board подставляет сервер)
+const ITEM_KEYS = ['url', 'kind', 'status', 'statusNote', 'natW', 'natH', 'natR', 'thumb', 'locked'] as const;
+
+function diffItems(prev: Acked, items: any[]): PatchOp[] {
+  const ops: PatchOp[] = [];
+  const ids = new Set(items.map(i => i.id));
+
+  for (const id of prev.order) if (!ids.has(id)) ops.push({ type: 'delete', id });
+
+  items.forEach((it, pos) => {
+    const old = prev.byId.get(it.id);
+    if (!old || ITEM_KEYS.some(k => (old[k] ?? null) !== (it[k] ?? null))) {
+      ops.push({ type: 'upsert', item: it, pos });
+    } else if (RECT_KEYS.some(k => old[k] !== it[k])) {
+      ops.push({ type: 'move', id: it.id, gx: it.gx, gy: it.gy, gw: it.gw, gh: it.gh });
     }
-  }, 300);
+  });
+
+  // порядок поменялся, если выжившие старые + новые в хвосте не совпадают с текущим списком
+  const expected = [...prev.order.filter(id => ids.has(id)), ...items.filter(i => !prev.byId.has(i.id)).map(i => i.id)];
+  if (expected.join('\n') !== items.map(i => i.id).join('\n')) {
+    ops.push({ type: 'reorder', ids: items.map(i => i.id) });
+  }
+  return ops;
+}
+
+// накладываем свои правки поверх чужого состояния: то, чего мы не трогали, остаётся как на сервере
+function applyOps(items: any[], ops: PatchOp[]): any[] {
+  let out = items.map(i => ({ ...i }));
+  for (const p of ops) {
+    if (p.type === 'delete') {
+      out = out.filter(i => i.id !== p.id);
+    } else if (p.type === 'move') {
+      out = out.map(i => i.id === p.id ? { ...i, gx: p.gx, gy: p.gy, gw: p.gw, gh: p.gh } : i);
+    } else if (p.type === 'upsert') {
+      const idx = out.findIndex(i => i.id === p.item.id);
+      if (idx >= 0) out[idx] = { ...out[idx], ...p.item };
+      else out.splice(Math.min(p.pos, out.length), 0, { ...p.item });
+    } else {
+      const rank = new Map(p.ids.map((id, i) => [id, i]));
+      out.sort((a, b) => (rank.get(a.id) ?? Infinity) - (rank.get(b.id) ?? Infinity));
+    }
+  }
+  return out;
+}
+
+async function postJson(url: string, body: any) {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify(body)
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(()=>'');
+    let body: any = text;
+    try { body = JSON.parse(text); } catch {}
+    throw new HttpError(res.status, body);
+  }
+  return res.json().catch(() => ({}));
+}
+
+// Полная перезапись доски (Write to DB, очистка) — сознательно поверх чужих правок (force),
+// заодно задаёт базу для диффов
+export async function remoteSaveNow(board: BoardKey, items: any[]) {
+  const key = ackKey(board);
+  const j = await postJson(apiUrl('save'), { board, items, force: true, schema: schema.version });
+  conflicts.delete(key);
+  ackSnapshot(key, items, Number(j.rev) || 0);
+  await dropQueued(key);
+}
+
+// дебаунс отдельно по каждой доске — иначе быстрое переключение табов теряет запись предыдущей
+const saveTimers = new Map<string, number>();
+// свежайшие items, ждущие отправки, и цепочка запросов — по доске
+const pending = new Map<string, any[]>();
+const chains = new Map<string, Promise<void>>();
+// запрос записи уже ушёл, ответа ещё нет — базу в это время не трогаем
+const inflight = new Set<string>();
+
+type BoardUrls = { list: string; patch: string };
+
+// ——— статус записи и офлайн-очередь ———
+// saving — есть отложенные или отправляемые правки; offline — сеть недоступна, правки ждут в очереди;
+// error — сервер не смог записать (5xx), очередь стоит до retrySync(); отказ 4xx очередь не держит (onRemoteRejected)
+export type SyncStatus = 'saved' | 'saving' | 'offline' | 'error';
+
+// Неотправленное состояние доски. Хранится в IndexedDB (приложение передаёт хранилище через
+// setRemoteOutbox) и переживает перезагрузку; base — подтверждённая сервером версия, от которой
+// считать дифф, если в памяти её уже нет
+export type OutboxEntry = {
+  seq?: number;
+  key: string;
+  board: BoardKey;
+  urls: BoardUrls;
+  items: any[];
+  base: { items: any[]; rev: number } | null;
+  at: number;
+};
+// list — в порядке добавления (seq растёт)
+export type OutboxStore = {
+  list: () => Promise<OutboxEntry[]>;
+  add: (e: OutboxEntry) => Promise<void>;
+  remove: (seq: number) => Promise<void>;
+};
+
+function memoryOutbox(): OutboxStore {
+  let rows: OutboxEntry[] = [];
+  let seq = 0;
+  return {
+    list: async () => rows.slice(),
+    add: async e => { rows.push({ ...e, seq: ++seq }); },
+    remove: async n => { rows = rows.filter(r => r.seq !== n); },
+  };
+}
+
+let outbox: OutboxStore = memoryOutbox();
+export function setRemoteOutbox(store: OutboxStore) { outbox = store; }
+
+// IndexedDB может отказать (приватный режим, квота) — тогда очередь живёт до перезагрузки
+async function withOutbox<T>(fn: (o: OutboxStore) => Promise<T>): Promise<T> {
+  try { return await fn(outbox); }
+  catch (e) {
+    console.warn('[outbox] storage failed, keeping queue in memory', e);
+    outbox = memoryOutbox();
+    return fn(outbox);
+  }
+}
+
+let queued = 0;
+let syncError: 'offline' | 'error' | null = null;
+let lastSync: SyncStatus = 'saved';
+const syncListeners = new Set<(s: SyncStatus) => void>();
+
+export function onSyncStatus(cb: (s: SyncStatus) => void) {
+  syncListeners.add(cb);
+  cb(lastSync);
+  return () => { syncListeners.delete(cb); };
+}
+
+function emitSync() {
+  let s: SyncStatus = 'saved';
+  if (queued) s = syncError ?? 'saving';
+  // доски с конфликтом ждут решения пользователя — это отдельный диалог, не «сохранение»
+  else if (saveTimers.size || inflight.size || [...pending.keys()].some(k => !conflicts.has(k))) s = 'saving';
+  if (s === lastSync) return;
+  lastSync = s;
+  for (const cb of syncListeners) cb(s);
+}
+
+// в очереди на доску держим одно, последнее состояние: оно включает все предыдущие правки
+async function enqueue(e: OutboxEntry) {
+  await withOutbox(async o => {
+    for (const r of await o.list()) if (r.key === e.key && r.seq != null) await o.remove(r.seq);
+    await o.add(e);
+    queued = (await o.list()).length;
+  });
+  emitSync();
+}
+
+// доску перезаписали целиком (откат, Write to DB) — её правки в очереди больше не нужны
+async function dropQueued(key: string) {
+  await withOutbox(async o => {
+    for (const r of await o.list()) if (r.key === key && r.seq != null) await o.remove(r.seq);
+    queued = (await o.list()).length;
+  });
+  emitSync();
+}
+
+function baseOf(key: string): OutboxEntry['base'] {
+  const b = acked.get(key);
+  return b ? { items: b.order.map(id => b.byId.get(id)), rev: b.rev } : null;
+}
+
+// сеть отвалилась — ждём 'online' и пробуем сами; ошибка сервера — ждём retrySync()
+const RETRY_MS = 10000;
+let retryTimer = 0;
+function writeFailed(e: unknown) {
+  syncError = e instanceof HttpError ? 'error' : 'offline';
+  if (syncError === 'offline' && !retryTimer) {
+    retryTimer = window.setTimeout(() => { retryTimer = 0; replayOutbox(); }, RETRY_MS);
+  }
+  console.warn('[remoteSave] failed', e);
+}
+
+// Очередь отправляется строго по порядку: нет сети или сбой сервера — дальше не идём, следующие ждут.
+// Отказ 4xx снимает из очереди только эту запись
+let replaying: Promise<void> | null = null;
+function replayOutbox(): Promise<void> {
+  if (!token) return Promise.resolve();
+  replaying ??= (async () => {
+    try {
+      for (;;) {
+        const [head] = await withOutbox(o => o.list());
+        if (!head) break;
+        try { await pushItems(head); }
+        catch (e) {
+          if (!isRejection(e)) { writeFailed(e); return; }
+          rejectWrite(e, head.board);
+        }
+        await withOutbox(o => o.remove(head.seq!));
+      }
+      syncError = null;
+    } finally {
+      queued = (await withOutbox(o => o.list())).length;
+      replaying = null;
+      emitSync();
+    }
+    // пока дочитывали хвост, в очередь успели добавить ещё
+    if (queued && !syncError) replayOutbox();
+  })();
+  return replaying;
+}
+
+export function retrySync() {
+  return replayOutbox();
+}
+
+if (typeof window !== 'undefined') window.addEventListener('online', () => { replayOutbox(); });
+
+// Отправка одного состояния доски дифом от базы. 409 разбирает сама (конфликт / живой мердж),
+// остальные сбои бросает наружу — их кладут в очередь
+async function pushItems(e: OutboxEntry) {
+  const { board, key, urls, items } = e;
+  // после перезагрузки базы в памяти нет — берём ту, что сохранили вместе с правками
+  if (!acked.has(key) && e.base) ackSnapshot(key, e.base.items, e.base.rev);
+  let base = acked.get(key);
+  inflight.add(key);
+  try {
+    if (!base) {
+      // базы нет (доску ещё не грузили с сервера) — узнаём ревизию; чужие материалы затирать не будем
+      const server = await fetchBoard(urls.list);
+      if (!server) throw new Error('DB is not reachable');
+      base = { order: [], byId: new Map(), rev: server.rev };
+      acked.set(key, base);
+      if (server.items.length) {
+        if (!pending.has(key)) pending.set(key, items);
+        raiseConflict(key, board, server.rev);
+        return;
+      }
+    }
+    const ops = diffItems(base, items);
+    if (!ops.length) return;
+    const j = await postJson(urls.patch, { board, ops, baseRev: base.rev, schema: schema.version });
+    ackSnapshot(key, items, Number(j.rev) || base.rev + 1);
+  } catch (err) {
+    if (err instanceof HttpError && err.status === 409) {
+      if (!pending.has(key)) pending.set(key, items);
+      // доска открыта вживую — ближайший опрос сам наложит наши правки на чужие (syncFromServer)
+      if (live.has(key)) return;
+      // кто-то записал доску раньше нас — не затираем, спрашиваем пользователя
+      raiseConflict(key, board, Number(err.body?.rev) || 0);
+      return;
+    }
+    throw err;
+  } finally {
+    inflight.delete(key);
+  }
+}
+
+async function flushPending(board: BoardKey, key: string, urls: BoardUrls) {
+  // пока конфликт не разрешён — копим правки, но не пишем
+  if (conflicts.has(key)) return;
+  const items = pending.get(key);
+  if (!items) return;
+  pending.delete(key);
+  await sendSettings(board, key);
+
+  const entry: OutboxEntry = { key, board, urls, items, base: baseOf(key), at: Date.now() };
+  try {
+    // в очереди есть более ранние записи — встаём за ними, чтобы не обогнать
+    if (queued) {
+      await enqueue(entry);
+      if (navigator.onLine) replayOutbox();
+      return;
+    }
+    try {
+      await pushItems(entry);
+      syncError = null;
+    } catch (e) {
+      if (isRejection(e)) { rejectWrite(e, board); return; }
+      // база не сдвинулась — из очереди уйдёт тот же дифф
+      writeFailed(e);
+      await enqueue(entry);
+    }
+  } finally {
+    emitSync();
+  }
+}
+
+// Разрешение конфликта: берём свежую версию с сервера и
+//  - reload:    показываем её, свои несохранённые правки выбрасываем;
+//  - merge:     накладываем свой дифф (от старой базы) поверх неё;
+//  - overwrite: пишем своё поверх новой ревизии.
+// Возвращает items, которые надо показать (null — сервер недоступен, конфликт остаётся).
+export async function resolveRemoteConflict(board: BoardKey, mode: ConflictResolution, mine: any[]) {
+  const key = ackKey(board);
+  const base = acked.get(key);
+  const server = await fetchBoard(apiUrl('list', { board }));
+  if (!server) return null;
+
+  conflicts.delete(key);
+  pending.delete(key);
+  ackSnapshot(key, server.items, server.rev);
+  emitSync();
+  if (mode === 'reload') return server.items;
+
+  const next = (mode === 'merge' && base) ? applyOps(server.items, diffItems(base, mine)) : mine;
+  remoteSave(board, next);
+  return next;
+}
+
+export async function remoteSave(board: BoardKey, items: any[]) {
+  // без входа — просто не отправляем (чтобы не было 401)
+  if (!token) {
+    console.warn('[remoteSave] skipped: not signed in');
+    return;
+  }
+  // url и ключ фиксируем сразу: за 300мс пользователь может переключить проект
+  const key = ackKey(board);
+  const urls: BoardUrls = { list: apiUrl('list', { board }), patch: apiUrl('patch') };
+  pending.set(key, items);
+  const prev = saveTimers.get(key);
+  if (prev) window.clearTimeout(prev);
+  emitSync();
+  saveTimers.set(key, window.setTimeout(() => {
+    saveTimers.delete(key);
+    // запросы одной доски строго по очереди: дифф считается от результата предыдущего
+    const chain = (chains.get(key) ?? Promise.resolve()).then(() => flushPending(board, key, urls));
+    chains.set(key, chain);
+  }, 300));
 }
 
 // helper: обычное чтение как есть (fallback)
@@ -121,3 +690,158 @@ export async function blobToDataURL(
 
   return dataUrl;
 }
+
+// ——— история версий ———
+// author — имя того, чья запись породила снимок
+export type SnapshotMeta = { id: string; name: string | null; auto: boolean; rev: number; count: number; createdAt: number; author: string | null };
+
+export async function remoteListSnapshots(board: BoardKey): Promise<SnapshotMeta[] | null> {
+  const j = await getJson(apiUrl('snapshots', { board }));
+  return j && Array.isArray(j.snapshots) ? j.snapshots : null;
+}
+
+export async function remoteGetSnapshot(board: BoardKey, id: string): Promise<(SnapshotMeta & { items: any[] }) | null> {
+  const j = await getJson(apiUrl('snapshots', { board, id }));
+  return j?.snapshot ? { ...j.snapshot, items: migrated(j.snapshot) } : null;
+}
+
+export async function remoteCreateSnapshot(board: BoardKey, name: string): Promise<SnapshotMeta> {
+  const j = await postJson(apiUrl('snapshots'), { board, name });
+  return j.snapshot;
+}
+
+// Откат перезаписывает доску: несохранённые правки и конфликт по ней больше не актуальны
+export async function remoteRestoreSnapshot(board: BoardKey, id: string): Promise<any[]> {
+  const key = ackKey(board);
+  const j = await postJson(apiUrl('restore'), { board, id });
+  const timer = saveTimers.get(key);
+  if (timer) { window.clearTimeout(timer); saveTimers.delete(key); }
+  pending.delete(key);
+  conflicts.delete(key);
+  const items = migrated(j);
+  ackSnapshot(key, items, Number(j.rev) || 0);
+  await dropQueued(key);
+  return items;
+}
+
+// ——— обсуждения ———
+// тред висит на айтеме целиком или на точке в нём: px/py — доли ширины/высоты тайла
+// authorId = null — гость по ссылке
+export type Comment = { id: string; body: string; author: string; authorId: string | null; createdAt: number };
+export type Thread = {
+  id: string; item: string; px: number | null; py: number | null;
+  resolved: boolean; resolvedBy: string | null; createdAt: number; updatedAt: number;
+  comments: Comment[];
+};
+export type CommentAction =
+  | { action: 'create'; item: string; px?: number; py?: number; body: string }
+  | { action: 'reply'; thread: string; body: string }
+  | { action: 'resolve' | 'unresolve'; thread: string };
+
+export async function remoteListThreads(board: BoardKey): Promise<Thread[] | null> {
+  const j = await getJson(apiUrl('comments', { board }));
+  return j && Array.isArray(j.threads) ? j.threads : null;
+}
+
+// сервер отвечает всеми тредами доски — сразу с чужими новыми
+export async function remoteCommentAction(board: BoardKey, payload: CommentAction): Promise<Thread[]> {
+  const j = await postJson(apiUrl('comments'), { board, ...payload });
+  return j.threads;
+}
+
+// ——— совместная работа ———
+// Без сторонних сервисов: раз в секунду опрашиваем функцию (op=poll). В ответ — ревизия доски,
+// её items (только если ревизия сдвинулась) и кто ещё сейчас на доске, с курсорами.
+// имя участника сервер берёт из аккаунта
+export type Presence = { color: string; x: number | null; y: number | null };
+export type Peer = Presence & { client: string; name: string };
+
+// id вкладки: у одного человека может быть открыто несколько окон
+export const CLIENT_ID = Math.random().toString(36).slice(2, 10);
+
+const POLL_MS = 1000;
+const POLL_HIDDEN_MS = 5000;
+
+type LiveHandlers = {
+  // текущие локальные items (с несохранёнными правками); null — идёт drag, применим на следующем тике
+  getItems: () => any[] | null;
+  getPresence: () => Presence;
+  // dirty — в items остались наши ещё не записанные правки
+  onItems: (items: any[], dirty: boolean) => void;
+  onPeers: (peers: Peer[]) => void;
+  // метка последнего изменения обсуждений на доске (мс); сдвинулась — пора перечитать треды
+  onComments?: (at: number) => void;
+  // настройки доски с сервера (могли поменять другие участники)
+  onSettings?: (settings: BoardSettings) => void;
+};
+const live = new Map<string, LiveHandlers>();
+
+function sameItem(a: any, b: any) {
+  return [...RECT_KEYS, ...ITEM_KEYS].every(k => (a[k] ?? null) === (b[k] ?? null));
+}
+
+// наша правка задевает айтем, который успели поменять (или удалить) с другого клиента
+function touchedRemotely(op: PatchOp, base: Acked, server: Map<string, any>) {
+  if (op.type === 'reorder') return false;
+  const id = op.type === 'upsert' ? op.item.id : op.id;
+  const before = base.byId.get(id);
+  if (!before) return false;
+  const now = server.get(id);
+  if (!now) return op.type !== 'delete';
+  return !sameItem(before, now);
+}
+
+// Пришла чужая ревизия: свои несохранённые правки перекладываем поверх неё.
+// Если правили одно и то же — это уже конфликт, решает пользователь.
+function syncFromServer(board: BoardKey, key: string, server: { items: any[]; rev: number }, h: LiveHandlers) {
+  const base = acked.get(key);
+  if (!base || server.rev <= base.rev || conflicts.has(key) || inflight.has(key)) return;
+  const local = h.getItems();
+  if (!local) return;
+
+  const ops = diffItems(base, local);
+  const byId = new Map(server.items.map(i => [i.id, i]));
+  if (ops.some(op => touchedRemotely(op, base, byId))) {
+    raiseConflict(key, board, server.rev);
+    return;
+  }
+  const merged = ops.length ? applyOps(server.items, ops) : server.items;
+  ackSnapshot(key, server.items, server.rev);
+  // отложенная запись должна уйти уже от новой базы
+  if (pending.has(key)) pending.set(key, merged);
+  h.onItems(merged, ops.length > 0);
+}
+
+export function subscribeBoard(board: BoardKey, h: LiveHandlers) {
+  const key = ackKey(board);
+  const pollUrl = apiUrl('poll');
+  let stopped = false;
+  let timer = 0;
+  live.set(key, h);
+
+  const tick = async () => {
+    try {
+      const since = acked.get(key)?.rev ?? -1;
+      const r = await fetch(pollUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({ board, client: CLIENT_ID, since, ...h.getPresence() })
+      });
+      if (r.ok && !stopped) {
+        const j = await r.json();
+        h.onPeers(Array.isArray(j.peers) ? j.peers : []);
+        h.onComments?.(Number(j.commentsAt) || 0);
+        if (j.settings) h.onSettings?.(j.settings);
+        if (Array.isArray(j.items)) syncFromServer(board, key, { items: migrated(j), rev: Number(j.rev) || 0 }, h);
+      }
+    } catch {}
+    if (!stopped) timer = window.setTimeout(tick, document.hidden ? POLL_HIDDEN_MS : POLL_MS);
+  };
+  tick();
+
+  return () => {
+    stopped = true;
+    window.clearTimeout(timer);
+    if (live.get(key) === h) live.delete(key);
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { unzipStore, zipStore } from './zip';
+
+const enc = new TextEncoder();
+
+async function bytes(blob: Blob) {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+async function archive() {
+  return bytes(zipStore([
+    { name: 'board.json', data: enc.encode('{"items":[]}') },
+    { name: 'media/доска.jpg', data: new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3]) },
+    { name: 'empty.txt', data: new Uint8Array(0) },
+  ]));
+}
+
+describe('zip', () => {
+  it('reads back what it wrote, including UTF-8 names and empty files', async () => {
+    const files = unzipStore(await archive());
+    expect([...files.keys()]).toEqual(['board.json', 'media/доска.jpg', 'empty.txt']);
+    expect(new TextDecoder().decode(files.get('board.json'))).toBe('{"items":[]}');
+    expect([...files.get('media/доска.jpg')!]).toEqual([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3]);
+    expect(files.get('empty.txt')!.length).toBe(0);
+  });
+
+  it('works on a view into a larger buffer', async () => {
+    const zip = await archive();
+    const padded = new Uint8Array(zip.length + 8);
+    padded.set(zip, 4);
+    expect(unzipStore(padded.subarray(4, 4 + zip.length)).size).toBe(3);
+  });
+
+  it('rejects an entry whose data does not match its CRC', async () => {
+    const zip = await archive();
+    // первая запись: 30 байт заголовка + имя, дальше данные
+    zip[30 + 'board.json'.length] ^= 0xff;
+    expect(() => unzipStore(zip)).toThrow('Corrupted zip entry (board.json)');
+  });
+
+  it('fails cleanly on truncated or foreign data', async () => {
+    const zip = await archive();
+    expect(() => unzipStore(zip.subarray(0, zip.length - 10))).toThrow('Not a zip archive');
+    expect(() => unzipStore(zip.subarray(0, 10))).toThrow('Not a zip archive');
+    expect(() => unzipStore(enc.encode('definitely not a zip'))).toThrow('Not a zip archive');
+    // хвост на месте, но каталог указывает за пределы файла
+    const moved = zip.slice();
+    new DataView(moved.buffer).setUint32(moved.length - 22 + 16, moved.length, true);
+    expect(() => unzipStore(moved)).toThrow('Broken zip directory');
+    // каталог цел, а локальный заголовок записи затёрт
+    const wiped = zip.slice();
+    wiped.fill(0, 0, 30);
+    expect(() => unzipStore(wiped)).toThrow('Corrupted zip entry (board.json)');
+  });
+});
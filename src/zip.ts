@@ -0,0 +1,117 @@
+// ZIP без сжатия (method 0): медиа и так сжаты, а архив открывается любым распаковщиком.
+// Читаем только такие же архивы — сжатые записи не поддерживаем.
+
+export type ZipEntry = { name: string; data: Uint8Array };
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+function crc32(data: Uint8Array) {
+  let c = 0xffffffff;
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// время и дата в формате MS-DOS
+function dosTime(d: Date) {
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+}
+
+export function zipStore(entries: ZipEntry[]): Blob {
+  const enc = new TextEncoder();
+  const { time, date } = dosTime(new Date());
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const e of entries) {
+    const name = enc.encode(e.name);
+    const crc = crc32(e.data);
+    // общая часть локального и центрального заголовков: версия, флаги (0x800 — имена в UTF-8), метод, время, crc, размеры
+    const fields = (v: DataView, at: number) => {
+      v.setUint16(at, 20, true);
+      v.setUint16(at + 2, 0x0800, true);
+      v.setUint16(at + 4, 0, true);
+      v.setUint16(at + 6, time, true);
+      v.setUint16(at + 8, date, true);
+      v.setUint32(at + 10, crc, true);
+      v.setUint32(at + 14, e.data.length, true);
+      v.setUint32(at + 18, e.data.length, true);
+      v.setUint16(at + 22, name.length, true);
+    };
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    fields(lv, 4);
+    local.set(name, 30);
+    parts.push(local, e.data);
+
+    const cd = new Uint8Array(46 + name.length);
+    const cv = new DataView(cd.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    fields(cv, 6);
+    cv.setUint32(42, offset, true);
+    cd.set(name, 46);
+    central.push(cd);
+
+    offset += local.length + e.data.length;
+  }
+
+  const cdSize = central.reduce((s, c) => s + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, cdSize, true);
+  ev.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end] as BlobPart[], { type: 'application/zip' });
+}
+
+export function unzipStore(buf: Uint8Array): Map<string, Uint8Array> {
+  const v = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  const dec = new TextDecoder();
+  // конец центрального каталога ищем с хвоста (после него может быть комментарий)
+  let end = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+    if (v.getUint32(i, true) === 0x06054b50) { end = i; break; }
+  }
+  if (end < 0) throw new Error('Not a zip archive');
+
+  const out = new Map<string, Uint8Array>();
+  const count = v.getUint16(end + 10, true);
+  let p = v.getUint32(end + 16, true);
+  for (let n = 0; n < count; n++) {
+    if (p + 46 > buf.length || v.getUint32(p, true) !== 0x02014b50) throw new Error('Broken zip directory');
+    const method = v.getUint16(p + 10, true);
+    const crc = v.getUint32(p + 16, true);
+    const size = v.getUint32(p + 20, true);
+    const nameLen = v.getUint16(p + 28, true);
+    const extraLen = v.getUint16(p + 30, true);
+    const commentLen = v.getUint16(p + 32, true);
+    const local = v.getUint32(p + 42, true);
+    const name = dec.decode(buf.subarray(p + 46, p + 46 + nameLen));
+    p += 46 + nameLen + extraLen + commentLen;
+    if (name.endsWith('/')) continue; // каталог
+    if (method !== 0) throw new Error(`Compressed zip entries are not supported (${name})`);
+    if (local + 30 > buf.length || v.getUint32(local, true) !== 0x04034b50) throw new Error(`Corrupted zip entry (${name})`);
+    const start = local + 30 + v.getUint16(local + 26, true) + v.getUint16(local + 28, true);
+    const data = buf.subarray(start, start + size);
+    if (data.length !== size || crc32(data) !== crc) throw new Error(`Corrupted zip entry (${name})`);
+    out.set(name, data);
+  }
+  return out;
+}